@@ -1,36 +1,69 @@
+import { once } from 'events';
 import { Request, Response } from 'express';
-import { DatasetEntry } from '../db/models';
+import { Types } from 'mongoose';
+import { DatasetEntry, DatasetEntryV2, IDatasetEntryV2 } from '../db/models';
 import { logger } from '../utils/logger';
+import { datasetExportQuerySchema, DatasetExportQuery } from '../validators/requestValidator';
+import { buildTrainingQuery, toTrainingExample, createTrainingBatchId, markExported } from '../services/trainingExport';
+import { createExportScrubber } from '../utils/pii';
 
 /**
  * Export dataset for ML training
  * 
  * Query params:
- * - format: 'json' (default) or 'csv'
+ * - format: 'json' (default), 'csv' or 'jsonl'
  * - validated: 'true' to only get validated entries
- * - limit: number of entries (default 1000)
- * - skip: pagination offset
+ * - limit: number of entries (default 1000; jsonl: default all)
+ * - skip: pagination offset (json/csv)
+ * - dedupe: 'false' to keep near-duplicate rows (same reel + near-identical idea)
+ * 
+ * Every format is anonymized (utils/pii): subscriber IDs hashed, emails,
+ * phone numbers and @handles redacted from ideas and transcripts.
+ * 
+ * JSONL (fine-tuning file, streamed from DatasetEntryV2):
+ * - target: 'vertex' (default) or 'openai'
+ * - min_quality, min_rating, from, to, prompt_version: filters
+ * - judged: 'true' to only export rows scored by the LLM judge rubric
+ * - batch: training batch ID stamped on exported rows (default: generated,
+ *   returned in the X-Training-Batch header)
  */
 export const exportDatasetHandler = async (req: Request, res: Response) => {
+  const parseResult = datasetExportQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({
+      status: 'error',
+      code: 'INVALID_INPUT',
+      message: parseResult.error.issues.map((e: any) => `${e.path.join('.')}: ${e.message}`).join(', ')
+    });
+  }
+
+  const params = parseResult.data;
+  if (params.format === 'jsonl') {
+    return exportTrainingJsonl(req, res, params);
+  }
+
   try {
-    const format = (req.query.format as string) || 'json';
-    const validatedOnly = req.query.validated === 'true';
-    const limit = Math.min(parseInt(req.query.limit as string) || 1000, 10000);
-    const skip = parseInt(req.query.skip as string) || 0;
+    const format = params.format;
+    const validatedOnly = params.validated === 'true';
+    const limit = Math.min(params.limit || 1000, 10000);
+    const skip = params.skip || 0;
 
     // Build query
     const query: any = {};
     if (validatedOnly) {
-      query.isValidated = true;
+      query['training.isValidated'] = true;
     }
 
     // Fetch dataset entries
-    const entries = await DatasetEntry.find(query)
+    const rows = await DatasetEntry.find(query)
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
       .lean();
 
+    const scrubber = createExportScrubber({ dedupe: params.dedupe === 'true' });
+    const entries = rows.map(row => scrubber.scrub(row)).filter(row => row !== null);
+
     const total = await DatasetEntry.countDocuments(query);
 
     if (format === 'csv') {
@@ -46,11 +79,12 @@ export const exportDatasetHandler = async (req: Request, res: Response) => {
       status: 'success',
       data: {
         entries,
+        duplicatesDropped: scrubber.duplicatesDropped,
         pagination: {
           total,
           limit,
           skip,
-          hasMore: skip + entries.length < total
+          hasMore: skip + rows.length < total
         }
       }
     });
@@ -65,6 +99,108 @@ export const exportDatasetHandler = async (req: Request, res: Response) => {
   }
 };
 
+// Rows stamped per update while streaming
+const STAMP_CHUNK_SIZE = 200;
+
+/**
+ * Wait until the response can take more data, or the client disconnects
+ * (a closed response never emits 'drain')
+ */
+async function waitForDrain(res: Response): Promise<void> {
+  if (res.destroyed) return;
+
+  const controller = new AbortController();
+  try {
+    await Promise.race([
+      once(res, 'drain', { signal: controller.signal }),
+      once(res, 'close', { signal: controller.signal })
+    ]);
+  } finally {
+    // Drop the listener that lost the race
+    controller.abort();
+  }
+}
+
+/**
+ * Stream DatasetEntryV2 rows as fine-tuning JSONL, one example per line.
+ * Only rows actually written are stamped with the batch ID.
+ */
+async function exportTrainingJsonl(req: Request, res: Response, params: DatasetExportQuery) {
+  const trainingBatch = params.batch || createTrainingBatchId();
+  const query = buildTrainingQuery({
+    validatedOnly: params.validated === 'true',
+    minQualityScore: params.min_quality,
+    minRating: params.min_rating,
+    judgedOnly: params.judged === 'true',
+    from: params.from,
+    to: params.to,
+    promptVersion: params.prompt_version,
+  });
+
+  let clientGone = false;
+  res.on('close', () => { clientGone = !res.writableEnded; });
+
+  const scrubber = createExportScrubber({ dedupe: params.dedupe === 'true' });
+  let exported = 0;
+  let pending: Types.ObjectId[] = [];
+
+  try {
+    const cursor = DatasetEntryV2.find(query)
+      .sort({ createdAt: 1 })
+      .limit(params.limit || 0)
+      .lean<IDatasetEntryV2>()
+      .cursor();
+
+    res.setHeader('Content-Type', 'application/jsonl; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename=${trainingBatch}-${params.target}.jsonl`);
+    res.setHeader('X-Training-Batch', trainingBatch);
+
+    for await (const entry of cursor) {
+      if (clientGone) break;
+
+      const row = scrubber.scrub(entry);
+      if (!row) continue;
+
+      const line = JSON.stringify(toTrainingExample(row, params.target)) + '\n';
+      if (!res.write(line)) {
+        await waitForDrain(res);
+        // Disconnected with this row still buffered - it was never delivered
+        if (clientGone || res.destroyed) {
+          clientGone = true;
+          break;
+        }
+      }
+
+      exported++;
+      pending.push(entry._id as Types.ObjectId);
+      if (pending.length >= STAMP_CHUNK_SIZE) {
+        await markExported(pending, trainingBatch);
+        pending = [];
+      }
+    }
+
+    // Rows of a cut-off download were not received - don't stamp them
+    if (!clientGone) {
+      await markExported(pending, trainingBatch);
+    }
+    res.end();
+
+    logger.info(`Training export ${trainingBatch}: ${exported} ${params.target} examples, ${scrubber.duplicatesDropped} duplicates dropped${clientGone ? ' (client disconnected)' : ''}`);
+
+  } catch (error) {
+    logger.error(`Training export ${trainingBatch} failed after ${exported} rows:`, error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        status: 'error',
+        code: 'EXPORT_FAILED',
+        message: 'Failed to export dataset'
+      });
+    }
+    // Mid-stream: the truncated file must not look complete
+    res.destroy(error as Error);
+  }
+}
+
 /**
  * Convert dataset entries to CSV format
  */
@@ -96,12 +232,12 @@ function convertToCSV(entries: any[]): string {
     escapeCSV(entry.input?.transcript || ''),
     escapeCSV((entry.input?.visualCues || []).join('; ')),
     escapeCSV(entry.input?.hookType || ''),
-    escapeCSV(entry.input?.tone || ''),
+    escapeCSV(entry.input?.detectedTone || ''),
     escapeCSV(entry.output?.generatedScript || ''),
     entry.output?.scriptLengthChars || 0,
-    entry.metrics?.generationTimeMs || 0,
-    entry.metrics?.userRating || '',
-    entry.modelVersion || '',
+    entry.generation?.generationTimeMs || 0,
+    entry.feedback?.overallRating || '',
+    entry.generation?.scriptModel || '',
     entry.createdAt?.toISOString() || ''
   ]);
 
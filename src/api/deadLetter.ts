@@ -0,0 +1,112 @@
+/**
+ * Dead-Letter Queue API (admin)
+ *
+ * Endpoints (x-api-key required):
+ * - GET  /api/v2/jobs/dead-letter              → Permanently failed jobs, newest first
+ *                                                (?error_type, job_name, service, since, limit, offset)
+ * - POST /api/v2/jobs/dead-letter/:jobId/replay → Re-queue one job
+ * - POST /api/v2/jobs/dead-letter/replay       → Re-queue { ids } or every entry matching
+ *                                                { error_type, job_name, service, since } (up to limit)
+ */
+
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+
+// Validation
+import { deadLetterListQuerySchema, deadLetterReplaySchema } from '../validators/requestValidator';
+
+// Queue
+import { listDeadLetters, replayDeadLetter, replayDeadLetters, DeadLetterFilters } from '../queue/deadLetter';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toFilters(params: { error_type?: DeadLetterFilters['errorType']; job_name?: string; service?: string; since?: Date }): DeadLetterFilters {
+  return {
+    errorType: params.error_type,
+    jobName: params.job_name,
+    service: params.service,
+    since: params.since
+  };
+}
+
+function sendInvalidInput(res: Response, issues: Array<{ path: (string | number)[]; message: string }>) {
+  return res.status(400).json({
+    status: 'error',
+    code: 'INVALID_INPUT',
+    message: issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const listDeadLettersHandler = async (req: Request, res: Response) => {
+  const parseResult = deadLetterListQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendInvalidInput(res, parseResult.error.issues);
+  }
+
+  try {
+    const { limit, offset, ...filters } = parseResult.data;
+    const { total, matched, entries } = await listDeadLetters(toFilters(filters), offset, limit);
+    res.json({ status: 'success', total, matched, entries });
+  } catch (error: any) {
+    logger.error('Failed to list dead-lettered jobs:', error);
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to list dead-lettered jobs'
+    });
+  }
+};
+
+export const replayDeadLetterHandler = async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  try {
+    const outcome = await replayDeadLetter(jobId);
+    if (!outcome.replayed) {
+      const notFound = outcome.skipped === 'not_found';
+      return res.status(notFound ? 404 : 409).json({
+        status: 'error',
+        code: notFound ? 'NOT_FOUND' : 'CONFLICT',
+        message: outcome.error
+      });
+    }
+    res.json({ status: 'success', replayed: [jobId] });
+  } catch (error: any) {
+    logger.error(`Failed to replay dead-lettered job ${jobId}:`, error);
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to replay job'
+    });
+  }
+};
+
+export const replayDeadLettersHandler = async (req: Request, res: Response) => {
+  const parseResult = deadLetterReplaySchema.safeParse(req.body || {});
+  if (!parseResult.success) {
+    return sendInvalidInput(res, parseResult.error.issues);
+  }
+
+  try {
+    const { ids, limit, ...filters } = parseResult.data;
+    const outcomes = await replayDeadLetters({ ids, filters: toFilters(filters) }, limit);
+    const replayed = outcomes.filter(outcome => outcome.replayed).map(outcome => outcome.id);
+    const failed = outcomes.filter(outcome => !outcome.replayed);
+
+    logger.info(`Dead-letter bulk replay: ${replayed.length} replayed, ${failed.length} skipped`);
+    res.json({ status: 'success', replayed, failed });
+  } catch (error: any) {
+    logger.error('Dead-letter bulk replay failed:', error);
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to replay jobs'
+    });
+  }
+};
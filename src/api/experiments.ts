@@ -0,0 +1,89 @@
+/**
+ * Prompt Experiments API (admin)
+ *
+ * Endpoints (x-api-key required):
+ * - GET  /api/v2/experiments/bandit           → Arm statistics (?experiment=<id>, default: active)
+ * - POST /api/v2/experiments/bandit/freeze    → Pin every job to one arm { variant_id, experiment_id? }
+ * - POST /api/v2/experiments/bandit/unfreeze  → Resume Thompson sampling { experiment_id? }
+ */
+
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+
+// Validation
+import { banditFreezeSchema, banditUnfreezeSchema } from '../validators/requestValidator';
+
+// Services
+import { getBanditStats, freezeArm, unfreezeArm, BanditArmError } from '../services/promptBandit';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function sendBanditError(res: Response, error: any, action: string) {
+  if (error instanceof BanditArmError) {
+    return res.status(400).json({
+      status: 'error',
+      code: 'INVALID_EXPERIMENT',
+      message: error.message
+    });
+  }
+
+  logger.error(`Prompt bandit ${action} failed:`, error);
+  res.status(500).json({
+    status: 'error',
+    code: 'INTERNAL_ERROR',
+    message: `Failed to ${action}`
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const getBanditStatsHandler = async (req: Request, res: Response) => {
+  try {
+    const experimentId = typeof req.query.experiment === 'string' ? req.query.experiment : undefined;
+    const stats = await getBanditStats(experimentId);
+    res.json({ status: 'success', bandit: stats });
+  } catch (error: any) {
+    sendBanditError(res, error, 'get bandit stats');
+  }
+};
+
+export const freezeBanditArmHandler = async (req: Request, res: Response) => {
+  const parseResult = banditFreezeSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({
+      status: 'error',
+      code: 'INVALID_INPUT',
+      message: parseResult.error.issues.map((e: any) => e.message).join(', ')
+    });
+  }
+
+  try {
+    const { variant_id, experiment_id } = parseResult.data;
+    const stats = await freezeArm(variant_id, experiment_id);
+    res.json({ status: 'success', bandit: stats });
+  } catch (error: any) {
+    sendBanditError(res, error, 'freeze arm');
+  }
+};
+
+export const unfreezeBanditArmHandler = async (req: Request, res: Response) => {
+  const parseResult = banditUnfreezeSchema.safeParse(req.body || {});
+  if (!parseResult.success) {
+    return res.status(400).json({
+      status: 'error',
+      code: 'INVALID_INPUT',
+      message: parseResult.error.issues.map((e: any) => e.message).join(', ')
+    });
+  }
+
+  try {
+    const stats = await unfreezeArm(parseResult.data.experiment_id);
+    res.json({ status: 'success', bandit: stats });
+  } catch (error: any) {
+    sendBanditError(res, error, 'unfreeze arm');
+  }
+};
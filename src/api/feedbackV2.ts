@@ -22,6 +22,9 @@ import { DatasetEntryV2 } from '../db/models/DatasetV2';
 import { UserMemory } from '../db/models/UserMemory';
 import { Script } from '../db/models';
 
+// Services
+import { recordPromptReward, ratingToReward } from '../services/promptBandit';
+
 // Metrics
 import { recordFeedback } from './metrics';
 
@@ -116,7 +119,7 @@ export const submitFeedbackHandlerV2 = async (req: Request, res: Response) => {
     // 2. Find entries in both schemas (for migration support)
     const [entryV1, entryV2] = await Promise.all([
       DatasetEntry.findOne({ 'input.requestHash': request_hash }),
-      DatasetEntryV2.findOne({ requestHash: request_hash }),
+      DatasetEntryV2.findOne({ 'input.requestHash': request_hash }),
     ]);
 
     if (!entryV1 && !entryV2) {
@@ -166,7 +169,12 @@ export const submitFeedbackHandlerV2 = async (req: Request, res: Response) => {
       });
     }
 
-    // 7. Get final quality score
+    // 7. Credit the prompt variant (bandit)
+    if (overall_rating) {
+      await recordPromptReward(request_hash, 'rating', ratingToReward(overall_rating));
+    }
+
+    // 8. Get final quality score
     const qualityScore = entryV2 
       ? entryV2.qualityMetrics?.overallScore || 0
       : entryV1?.training?.qualityScore || 0;
@@ -199,90 +207,75 @@ async function updateDatasetV2(entry: any, feedback: any): Promise<void> {
   
   // Update explicit feedback
   if (overall_rating !== undefined) {
-    entry.feedback = entry.feedback || {};
-    entry.feedback.explicitRating = overall_rating;
+    entry.feedback.overallRating = overall_rating;
     entry.feedback.sentimentLabel = overall_rating >= 4 ? 'positive' : overall_rating >= 3 ? 'neutral' : 'negative';
     entry.feedback.collectedAt = new Date();
   }
   
   if (feedback_text) {
-    entry.feedback = entry.feedback || {};
-    entry.feedback.freeTextFeedback = feedback_text;
+    entry.feedback.feedbackText = feedback_text;
   }
   
-  // Update section feedback
+  // Update section feedback (keep wasRegenerated from section regen jobs)
   if (section_feedback) {
-    entry.feedback = entry.feedback || {};
-    entry.feedback.sectionRatings = {
-      hook: section_feedback.hook?.rating,
-      body: section_feedback.body?.rating,
-      cta: section_feedback.cta?.rating,
-    };
+    for (const section of ['hook', 'body', 'cta'] as const) {
+      const sectionInput = section_feedback[section];
+      if (!sectionInput) continue;
+      const existing = entry.feedback.sectionFeedback?.[section] || {};
+      entry.feedback.sectionFeedback[section] = {
+        rating: sectionInput.rating ?? existing.rating,
+        wasRegenerated: existing.wasRegenerated || !!sectionInput.regeneration_reason,
+        regenerationReason: sectionInput.regeneration_reason || existing.regenerationReason,
+      };
+    }
   }
   
   // Update implicit signals
   if (implicit_signals) {
-    entry.feedback = entry.feedback || {};
-    entry.feedback.implicitSignals = {
-      ...entry.feedback.implicitSignals,
-      ...implicit_signals,
-    };
+    const implicit = entry.feedback.implicit;
+    if (implicit_signals.copied_script) {
+      implicit.didCopy = true;
+      implicit.copyCount = (implicit.copyCount || 0) + 1;
+    }
+    if (implicit_signals.requested_redo) {
+      implicit.didRedo = true;
+    }
+    if (implicit_signals.time_spent_viewing_ms !== undefined && implicit.timeToFirstInteraction === undefined) {
+      implicit.timeToFirstInteraction = implicit_signals.time_spent_viewing_ms;
+    }
   }
   
   // Update edits tracking
   if (section_feedback) {
-    const editedSections: string[] = [];
-    
-    if (section_feedback.hook?.edited_version) {
-      editedSections.push('hook');
-      entry.edits = entry.edits || {};
-      entry.edits.userEditedScript = entry.edits.userEditedScript || '';
-      entry.edits.editType = 'partial';
-      entry.edits.editReason = section_feedback.hook.regeneration_reason || 'user_edit';
-    }
-    if (section_feedback.body?.edited_version) {
-      editedSections.push('body');
-    }
-    if (section_feedback.cta?.edited_version) {
-      editedSections.push('cta');
-    }
+    const editedSections = (['hook', 'body', 'cta'] as const)
+      .filter(section => section_feedback[section]?.edited_version);
     
     if (editedSections.length > 0) {
       entry.edits = entry.edits || {};
       entry.edits.editedSections = editedSections;
-      entry.edits.editedAt = new Date();
     }
   }
   
   // Update video performance
   if (video_performance) {
-    entry.feedback = entry.feedback || {};
     entry.feedback.videoPerformance = {
       views: video_performance.views,
       likes: video_performance.likes,
       comments: video_performance.comments,
       shares: video_performance.shares,
-      saves: video_performance.saves,
-      watchTimeSeconds: video_performance.watch_time_seconds,
-      retentionRate: video_performance.retention_rate,
       reportedAt: new Date(),
     };
   }
   
   // Recalculate quality score using the schema method
-  entry.qualityMetrics = entry.qualityMetrics || {};
-  if (typeof entry.calculateQualityScore === 'function') {
-    entry.qualityMetrics.overallScore = entry.calculateQualityScore();
-  } else {
-    // Fallback simple calculation
-    entry.qualityMetrics.overallScore = overall_rating ? overall_rating * 20 : 50;
-  }
-  entry.qualityMetrics.lastCalculatedAt = new Date();
+  const qualityScore = entry.calculateQualityScore();
+  entry.qualityMetrics.overallScore = qualityScore;
   
   // Update training flags
-  entry.trainingFlags = entry.trainingFlags || {};
-  entry.trainingFlags.isValidated = overall_rating !== undefined;
-  entry.trainingFlags.includeInTraining = entry.qualityMetrics.overallScore >= 60;
+  entry.training.qualityScore = qualityScore;
+  if (overall_rating !== undefined) {
+    entry.training.isValidated = true;
+  }
   
   await entry.save();
 }
@@ -392,17 +385,17 @@ export const getFeedbackStatsHandlerV2 = async (req: Request, res: Response) =>
       // V2 stats
       Promise.all([
         DatasetEntryV2.countDocuments(),
-        DatasetEntryV2.countDocuments({ 'feedback.explicitRating': { $exists: true } }),
+        DatasetEntryV2.countDocuments({ 'feedback.overallRating': { $exists: true } }),
         DatasetEntryV2.aggregate([
-          { $match: { 'feedback.explicitRating': { $exists: true } } },
-          { $group: { _id: null, avg: { $avg: '$feedback.explicitRating' } } }
+          { $match: { 'feedback.overallRating': { $exists: true } } },
+          { $group: { _id: null, avg: { $avg: '$feedback.overallRating' } } }
         ]),
         DatasetEntryV2.countDocuments({ 'feedback.sentimentLabel': 'negative' }),
         DatasetEntryV2.countDocuments({ 'qualityMetrics.overallScore': { $gte: 70 } }),
         // Additional V2 stats
         DatasetEntryV2.aggregate([
           { $group: { 
-            _id: '$classification.contentCategory', 
+            _id: '$classification.contentType', 
             count: { $sum: 1 } 
           }}
         ]),
@@ -412,11 +405,22 @@ export const getFeedbackStatsHandlerV2 = async (req: Request, res: Response) =>
             count: { $sum: 1 } 
           }}
         ]),
+        // Per prompt variant (A/B experiments)
+        DatasetEntryV2.aggregate([
+          { $group: {
+            _id: '$experiment.promptVariantId',
+            count: { $sum: 1 },
+            rated: { $sum: { $cond: [{ $ifNull: ['$feedback.overallRating', false] }, 1, 0] } },
+            avgRating: { $avg: '$feedback.overallRating' },
+            negative: { $sum: { $cond: [{ $eq: ['$feedback.sentimentLabel', 'negative'] }, 1, 0] } },
+            avgQualityScore: { $avg: '$qualityMetrics.overallScore' },
+          }}
+        ]),
       ]),
     ]);
 
     const [v1Total, v1Rated, v1AvgRating, v1Regenerated, v1HighQuality] = v1Stats;
-    const [v2Total, v2Rated, v2AvgRating, v2Negative, v2HighQuality, v2Categories, v2Sentiments] = v2Stats;
+    const [v2Total, v2Rated, v2AvgRating, v2Negative, v2HighQuality, v2Categories, v2Sentiments, v2Variants] = v2Stats;
 
     const totalEntries = v1Total + v2Total;
     const totalRated = v1Rated + v2Rated;
@@ -453,6 +457,15 @@ export const getFeedbackStatsHandlerV2 = async (req: Request, res: Response) =>
           bySentiment: Object.fromEntries(
             (v2Sentiments as any[]).map(s => [s._id || 'unrated', s.count])
           ),
+          byPromptVariant: Object.fromEntries(
+            (v2Variants as any[]).map(v => [v._id || 'default', {
+              total: v.count,
+              rated: v.rated,
+              averageRating: v.avgRating != null ? v.avgRating.toFixed(2) : null,
+              negative: v.negative,
+              averageQualityScore: v.avgQualityScore != null ? Math.round(v.avgQualityScore) : null,
+            }])
+          ),
         },
       }
     });
@@ -518,18 +531,24 @@ export const quickFeedbackHandler = async (req: Request, res: Response) => {
     // Update DatasetV2 if we have the hash
     if (request_hash) {
       await DatasetEntryV2.findOneAndUpdate(
-        { requestHash: request_hash },
+        { 'input.requestHash': request_hash },
         {
           $set: {
             'feedback.sentimentLabel': feedbackInfo.type === 'positive' ? 'positive' : 
                                        feedbackInfo.type === 'redo' ? 'neutral' : 'negative',
-            'feedback.implicitSignals.quickFeedback': action,
+            'feedback.implicit.quickFeedback': action,
             'feedback.collectedAt': new Date(),
+            ...(action === 'redo' ? { 'feedback.implicit.didRedo': true } : {}),
           }
         }
       );
     }
     
+    // Credit the prompt variant (bandit) - redo is neither a win nor a loss
+    if (request_hash && feedbackInfo.type !== 'redo') {
+      await recordPromptReward(request_hash, 'quick', feedbackInfo.type === 'positive' ? 1 : 0);
+    }
+    
     logger.info(`Quick feedback: ${subscriber_id} - ${action} for ${request_hash || 'general'}`);
     
     res.json({
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import crypto from 'crypto';
 import { scriptGenerationSchema } from '../validators/requestValidator';
-import { generateRequestHash, normalizeInstagramUrl } from '../utils/hash';
+import { generateRequestHash, normalizeReelUrl } from '../utils/hash';
 import { logger } from '../utils/logger';
 
 // Database
@@ -111,7 +111,7 @@ export const generateScriptHandler = async (req: Request, res: Response) => {
     }
     
     // EXPERT: Normalize URL immediately to ensure consistency across DB and Caches
-    const reel_url = normalizeInstagramUrl(rawReelUrl);
+    const reel_url = normalizeReelUrl(rawReelUrl);
     
     // Tier 2 cache key: includes all parameters for full script matching
     const requestHash = generateRequestHash(subscriber_id, reel_url, user_idea, language_hint || undefined, tone_hint || undefined, finalMode);
@@ -10,7 +10,9 @@
 // V2 Unified Handler (recommended)
 export { 
   generateScriptHandlerV2,
-  getJobStatusHandler 
+  getJobStatusHandler,
+  getJobEventsHandler,
+  cancelJobHandler
 } from './generateScriptV2';
 
 // Legacy Handler (for backwards compatibility)
@@ -5,8 +5,11 @@
  * It handles both guided and instant flows with a unified smart flow.
  * 
  * Flow Detection:
+ * - "stop", "cancel", "🛑" → Cancel (stop the user's queued/running job)
  * - "generate", "go", "remix" + reel → Instant flow (AI picks default idea)
  * - "another", "again", "🔄" → Redo flow (use cached context)
+ * - "redo the hook", "new cta" → Section regen (rewrite one section of last script)
+ * - "shorter", "in Hindi" after a script → Refine (edit last script, no re-analysis)
  * - reel + custom idea → Guided flow (user provides idea)
  * - reel only → Prompt for idea
  */
@@ -16,24 +19,36 @@ import crypto from 'crypto';
 import { logger } from '../utils/logger';
 
 // Validation
-import { scriptGenerationSchema } from '../validators/requestValidator';
+import { scriptGenerationSchema, jobCancelSchema } from '../validators/requestValidator';
 
 // Utilities
-import { generateRequestHashV2, normalizeInstagramUrl, generateReelHash } from '../utils/hash';
+import { generateRequestHashV2, normalizeReelUrl, generateReelHash } from '../utils/hash';
 import { detectTrigger, containsReelUrl, extractReelUrl, TriggerResult } from '../utils/triggerDetector';
 import { getDefaultIdea, getIdeaVariation, isDefaultIdea } from '../utils/defaultIdeas';
+import { SectionKind } from '../utils/scriptParser';
 
 // Services
 import { SessionManager, SessionState } from '../services/sessionManager';
+import { toTriggerType, COPY_MODE_IDEA } from '../services/datasetV2';
 import { sendTextMessage, sendCarousel } from '../services/manychat';
 import { generateCarouselImages } from '../services/carouselGenerator';
 
 // Database
-import { Script, Job, ReelDNA } from '../db/models';
+import { Script, Job, ReelDNA, IScript } from '../db/models';
+import { JobStatus } from '../db/models/Job';
 import { UserMemory } from '../db/models/UserMemory';
 
 // Queue
-import { addScriptJob, addCopyJob } from '../queue';
+import { addScriptJob, addCopyJob, findQueueJob, getQueuePosition, getUserLane, subscribeToJob, normalizeProgress, cancelJob, QueuePosition } from '../queue';
+
+// Revisions
+import {
+  resolveScriptForRevision,
+  queueSectionRegeneration,
+  queueRefinement,
+  getSectionRegenMessage,
+  REFINE_MESSAGE
+} from './scriptRevisions';
 
 // Metrics
 import { recordRequest, recordCacheResult, recordRequestDuration } from './metrics';
@@ -46,7 +61,7 @@ import { getUserRateLimitStatus } from '../middleware/userRateLimiter';
 // ═══════════════════════════════════════════════════════════════════════════
 
 type GenerationMode = 'full' | 'hook_only';
-type FlowType = 'instant' | 'guided' | 'redo' | 'prompt_idea';
+type FlowType = 'instant' | 'guided' | 'redo' | 'section_regen' | 'refine' | 'prompt_idea' | 'cancel';
 
 interface ProcessedRequest {
   flowType: FlowType;
@@ -61,6 +76,15 @@ interface ProcessedRequest {
   isCopyMode?: boolean; // When true, output transcript as-is formatted as script
   isSoftLimitReached?: boolean; // True when user has generated many variations
   totalVariations?: number; // Total number of variations for this reel+idea
+  sectionRegen?: {          // Set for section_regen flow
+    script: IScript;
+    section: SectionKind;
+    reason?: string;
+  };
+  refine?: {                // Set for refine flow
+    script: IScript;
+    instruction: string;
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -138,6 +162,86 @@ async function processRequest(
     logger.warn(`Failed to get user memory: ${e}`);
   }
   
+  // ─────────────────────────────────────────────────────────────────────────
+  // FLOW -1: CANCEL (stop, cancel, 🛑) - a message with a new reel is not a cancel
+  // ─────────────────────────────────────────────────────────────────────────
+  if (trigger.type === 'cancel' && !reelUrl) {
+    logger.info(`[${subscriberId}] CANCEL flow detected`);
+    
+    return {
+      flowType: 'cancel',
+      reelUrl: '',
+      userIdea: '',
+      mode: 'full',
+      variationIndex: 0,
+      isVariation: false,
+    };
+  }
+  
+  // ─────────────────────────────────────────────────────────────────────────
+  // FLOW 0: SECTION REGEN (redo the hook, new cta) - only right after a script
+  // was delivered, so an idea like "new intro about coffee" stays an idea
+  // ─────────────────────────────────────────────────────────────────────────
+  if (
+    trigger.type === 'section_regen' &&
+    trigger.targetSection &&
+    !hasReelInMessage &&
+    session.conversationState === 'awaiting_confirm' &&
+    session.lastScriptId
+  ) {
+    const script = await resolveScriptForRevision(subscriberId);
+    
+    if (script) {
+      logger.info(`[${subscriberId}] SECTION REGEN flow detected (${trigger.targetSection})`);
+      
+      return {
+        flowType: 'section_regen',
+        reelUrl: script.reelUrl,
+        userIdea: script.userIdea,
+        mode: 'full',
+        variationIndex: 0,
+        isVariation: false,
+        sectionRegen: {
+          script,
+          section: trigger.targetSection,
+          reason: trigger.regenerationReason,
+        },
+      };
+    }
+    
+    logger.info(`[${subscriberId}] Section regen requested but no previous script - falling through`);
+  }
+  
+  // ─────────────────────────────────────────────────────────────────────────
+  // FLOW 0.5: REFINE (shorter, in Hindi) - only right after a script was delivered
+  // ─────────────────────────────────────────────────────────────────────────
+  if (
+    trigger.type === 'refine' &&
+    trigger.refineInstruction &&
+    !hasReelInMessage &&
+    session.conversationState === 'awaiting_confirm' &&
+    session.lastScriptId
+  ) {
+    const script = await resolveScriptForRevision(subscriberId);
+    
+    if (script) {
+      logger.info(`[${subscriberId}] REFINE flow detected: "${trigger.refineInstruction}"`);
+      
+      return {
+        flowType: 'refine',
+        reelUrl: script.reelUrl,
+        userIdea: script.userIdea,
+        mode: 'full',
+        variationIndex: 0,
+        isVariation: false,
+        refine: {
+          script,
+          instruction: trigger.refineInstruction,
+        },
+      };
+    }
+  }
+  
   // ─────────────────────────────────────────────────────────────────────────
   // FLOW 1: REDO (another, again, 🔄)
   // ─────────────────────────────────────────────────────────────────────────
@@ -171,7 +275,7 @@ async function processRequest(
   if (trigger.isCopyFlow && reelUrl) {
     logger.info(`[${subscriberId}] COPY flow detected - will output transcript as script`);
     
-    const normalizedUrl = normalizeInstagramUrl(reelUrl);
+    const normalizedUrl = normalizeReelUrl(reelUrl);
     
     // Store in session
     await sessionManager.setReelUrl(subscriberId, normalizedUrl);
@@ -181,7 +285,7 @@ async function processRequest(
     return {
       flowType: 'instant',
       reelUrl: normalizedUrl,
-      userIdea: 'COPY_EXACT_TRANSCRIPT', // Special marker for copy mode
+      userIdea: COPY_MODE_IDEA, // Special marker for copy mode
       mode: 'full',
       variationIndex: 0,
       toneHint: trigger.detectedTone || toneHint || userMemory?.preferences?.preferredTone,
@@ -198,7 +302,7 @@ async function processRequest(
     logger.info(`[${subscriberId}] INSTANT flow detected`);
     
     // Normalize URL for caching
-    const normalizedUrl = normalizeInstagramUrl(reelUrl);
+    const normalizedUrl = normalizeReelUrl(reelUrl);
     
     // Try to detect niche from cached ReelDNA
     let detectedNiche: string | undefined;
@@ -248,7 +352,7 @@ async function processRequest(
   if (reelUrl && trigger.cleanedMessage && trigger.cleanedMessage.length > 3) {
     logger.info(`[${subscriberId}] GUIDED flow detected`);
     
-    const normalizedUrl = normalizeInstagramUrl(reelUrl);
+    const normalizedUrl = normalizeReelUrl(reelUrl);
     const userIdea = trigger.cleanedMessage;
     const detectedMode = detectMode(userIdea);
     const cleanedIdea = detectedMode === 'hook_only' ? cleanModeKeywords(userIdea) : userIdea;
@@ -284,7 +388,7 @@ async function processRequest(
   if (reelUrl) {
     logger.info(`[${subscriberId}] Reel received, prompting for idea`);
     
-    const normalizedUrl = normalizeInstagramUrl(reelUrl);
+    const normalizedUrl = normalizeReelUrl(reelUrl);
     
     // Store reel and set state to awaiting idea
     await sessionManager.setReelUrl(subscriberId, normalizedUrl);
@@ -390,7 +494,7 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
         try {
           await sendTextMessage(
             subscriber_id,
-            "👋 Hey! Send me an Instagram reel and I'll remix it into your style!\n\n" +
+            "👋 Hey! Send me a reel (Instagram, TikTok or YouTube Shorts) and I'll remix it into your style!\n\n" +
             "You can:\n" +
             "• Just send a reel link + \"generate\" for instant magic ✨\n" +
             "• Send a reel + your idea for custom scripts\n" +
@@ -428,6 +532,87 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
       });
     }
     
+    // 3.1. Cancel - stop the user's latest queued/running job
+    if (processed.flowType === 'cancel') {
+      const activeJob = await Job.findOne(
+        { subscriberId: subscriber_id, status: { $in: ['queued', 'processing'] } },
+        { jobId: 1 }
+      ).sort({ createdAt: -1 }).lean();
+      const outcome = activeJob ? await cancelJob(activeJob.jobId, subscriber_id) : null;
+      
+      let message: string;
+      if (outcome?.cancelled) {
+        message = "🛑 Stopped! That one won't count toward your limit.\n\nSend me a reel whenever you're ready 🎬";
+      } else if (outcome?.skipped === 'not_cancellable') {
+        message = "⏳ Too late to stop that one - it's almost done!";
+      } else {
+        message = "🤷 Nothing to stop right now - send me a reel to get started!";
+      }
+      
+      try {
+        await sendTextMessage(subscriber_id, message);
+      } catch (e) {
+        logger.warn('Failed to send cancel message', e);
+      }
+      
+      recordRequest({ flow: 'cancel', status: outcome?.cancelled ? 'cancelled' : 'nothing_to_cancel' });
+      return res.json({
+        status: 'success',
+        cancelled: Boolean(outcome?.cancelled),
+        jobId: activeJob?.jobId,
+        message
+      });
+    }
+    
+    // 3.2. Section regen - revise the last script instead of generating a new one
+    if (processed.flowType === 'section_regen' && processed.sectionRegen) {
+      const { script, section, reason } = processed.sectionRegen;
+      
+      await queueSectionRegeneration({
+        requestId,
+        subscriberId: subscriber_id,
+        script,
+        section,
+        reason
+      });
+      
+      recordRequest({ flow: 'section_regen', status: 'queued' });
+      recordRequestDuration(Date.now() - startTime, { endpoint: 'generate' });
+      
+      return res.json({
+        status: 'queued',
+        jobId: requestId,
+        flowType: processed.flowType,
+        section,
+        parentScriptId: String(script._id),
+        message: getSectionRegenMessage(section)
+      });
+    }
+    
+    // 3.3. Refine - edit the last script with the user's instruction
+    if (processed.flowType === 'refine' && processed.refine) {
+      const { script, instruction } = processed.refine;
+      
+      await queueRefinement({
+        requestId,
+        subscriberId: subscriber_id,
+        script,
+        instruction
+      });
+      
+      recordRequest({ flow: 'refine', status: 'queued' });
+      recordRequestDuration(Date.now() - startTime, { endpoint: 'generate' });
+      
+      return res.json({
+        status: 'queued',
+        jobId: requestId,
+        flowType: processed.flowType,
+        instruction,
+        parentScriptId: String(script._id),
+        message: REFINE_MESSAGE
+      });
+    }
+    
     // 3.5. Copy flow now routes through instant flow with isCopyMode flag
     // (handled in processRequest - no separate handler needed)
     
@@ -487,7 +672,8 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
       attempts: 0
     });
     
-    // 8. Add to queue
+    // 8. Add to the user's lane
+    const lane = await getUserLane(subscriber_id);
     await addScriptJob({
       requestId,
       requestHash,
@@ -497,10 +683,13 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
       toneHint: processed.toneHint as any,
       languageHint: processed.languageHint,
       mode: processed.mode,
-      isCopyMode: processed.isCopyMode || false
-    });
+      isCopyMode: processed.isCopyMode || false,
+      variationIndex: processed.variationIndex,
+      triggerType: toTriggerType(processed.flowType),
+      isDefaultIdea: isDefaultIdea(processed.userIdea)
+    }, lane);
     
-    logger.info(`[${requestId}] Job queued - flow: ${processed.flowType}, variation: ${processed.variationIndex}`);
+    logger.info(`[${requestId}] Job queued - flow: ${processed.flowType}, variation: ${processed.variationIndex}, lane: ${lane}`);
     
     // 9. Record metrics
     recordRequest({ flow: processed.flowType, status: 'queued' });
@@ -509,6 +698,14 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
     // 10. Get rate limit status for remaining quota
     const rateLimitStatus = await getUserRateLimitStatus(subscriber_id);
     
+    // 10.5. Where the job stands in its lane (non-critical)
+    let queuePosition: QueuePosition | null = null;
+    try {
+      queuePosition = await getQueuePosition(requestId, lane);
+    } catch (e: any) {
+      logger.warn(`[${requestId}] Non-critical: Failed to get queue position: ${e.message}`);
+    }
+    
     // 11. Build ordinal response message with variation info
     let responseMessage: string;
     const versionNum = processed.variationIndex + 1; // Convert 0-indexed to 1-indexed
@@ -537,6 +734,12 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
       responseMessage = "🎬 Got it! Creating your custom script...";
     }
     
+    // Tell the user about the wait when others are ahead of them
+    if (queuePosition && queuePosition.position > 1) {
+      const etaMinutes = Math.max(1, Math.round(queuePosition.etaSeconds / 60));
+      responseMessage += `\n\n⏳ You're #${queuePosition.position} in line - about ${etaMinutes} min.`;
+    }
+    
     // 12. Send response with remaining quota info
     res.json({
       status: 'queued',
@@ -546,6 +749,8 @@ export const generateScriptHandlerV2 = async (req: Request, res: Response) => {
       variationNumber: versionNum,
       totalVariations: processed.totalVariations || 1,
       message: responseMessage,
+      // Queue lane, position (1 = next) and rough time until the script is ready
+      queue: queuePosition || undefined,
       // Rate limit info for user awareness
       rateLimit: rateLimitStatus ? {
         remaining: rateLimitStatus.remaining,
@@ -613,3 +818,190 @@ export const getJobStatusHandler = async (req: Request, res: Response) => {
     });
   }
 };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB CANCELLATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * DELETE /api/v1/job/:jobId
+ * 
+ * Cancel a queued or running job. subscriber_id (body or query) must own it.
+ * Queued jobs are removed, running ones are aborted; the rate-limit slot is refunded.
+ */
+export const cancelJobHandler = async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  
+  const parseResult = jobCancelSchema.safeParse({ ...req.query, ...(req.body || {}) });
+  if (!parseResult.success) {
+    return res.status(400).json({
+      status: 'error',
+      code: 'INVALID_INPUT',
+      message: parseResult.error.issues.map((e: any) => e.message).join(', ')
+    });
+  }
+  
+  try {
+    const outcome = await cancelJob(jobId, parseResult.data.subscriber_id);
+    
+    if (!outcome.cancelled) {
+      const notFound = outcome.skipped === 'not_found';
+      return res.status(notFound ? 404 : 409).json({
+        status: 'error',
+        code: notFound ? 'NOT_FOUND' : 'CONFLICT',
+        message: outcome.error
+      });
+    }
+    
+    recordRequest({ flow: 'cancel', status: 'cancelled' });
+    res.json({
+      status: 'success',
+      job: {
+        id: jobId,
+        status: 'cancelled',
+        previousStatus: outcome.previousStatus
+      }
+    });
+    
+  } catch (error) {
+    logger.error(`Failed to cancel job ${jobId}:`, error);
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to cancel job'
+    });
+  }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB EVENTS (SSE)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Comment line that keeps proxies from closing an idle stream
+const SSE_HEARTBEAT_MS = 15000;
+// Streams are closed after this; clients reconnect or fall back to polling
+const SSE_MAX_DURATION_MS = 10 * 60 * 1000;
+
+/**
+ * BullMQ job state → Job.status ('unknown' = removed from Redis, use the DB record)
+ * A cancelled record wins: a cancelled running job is still active until it aborts.
+ */
+function toJobStatus(state: string, fallback: JobStatus): JobStatus {
+  if (fallback === 'cancelled') return fallback;
+  switch (state) {
+    case 'active':
+      return 'processing';
+    case 'completed':
+    case 'failed':
+      return state;
+    case 'waiting':
+    case 'delayed':
+    case 'prioritized':
+    case 'waiting-children':
+      return 'queued';
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * GET /api/v1/job/:jobId/events
+ * 
+ * Server-Sent Events stream of a job's progress:
+ * - status     current state on connect ({ status, progress? })
+ * - progress   { stage, percent } - stage is downloading, extracting,
+ *              analyzing, generating, rendering or delivering
+ * - completed / failed / cancelled   final event, the stream closes after it
+ */
+export const getJobEventsHandler = async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  let jobRecord;
+  try {
+    jobRecord = await Job.findOne({ jobId }).lean();
+  } catch (error) {
+    logger.error('Failed to load job for event stream:', error);
+    return res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to get job status'
+    });
+  }
+
+  if (!jobRecord) {
+    return res.status(404).json({
+      status: 'error',
+      code: 'NOT_FOUND',
+      message: 'Job not found'
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable nginx buffering
+  });
+
+  let closed = false;
+  const send = (event: string, data: object) => {
+    if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const sendFinal = (status: 'completed' | 'failed' | 'cancelled', error?: string) => {
+    send(status, { status, ...(error ? { error } : {}) });
+    close();
+  };
+
+  // Subscribe before reading the current state so no transition is missed
+  const unsubscribe = subscribeToJob(jobId, (event) => {
+    if (event.type === 'progress') {
+      send('progress', event.progress);
+    } else if (event.type === 'completed') {
+      sendFinal('completed');
+    } else if (event.type === 'cancelled') {
+      sendFinal('cancelled');
+    } else {
+      sendFinal('failed', event.reason);
+    }
+  });
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': ping\n\n');
+  }, SSE_HEARTBEAT_MS);
+  const maxDuration = setTimeout(() => {
+    send('timeout', { message: 'Stream closed, poll GET /api/v1/job/:jobId for the final status' });
+    close();
+  }, SSE_MAX_DURATION_MS);
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+    clearTimeout(maxDuration);
+    res.end();
+  }
+  req.on('close', close);
+
+  try {
+    const queueJob = await findQueueJob(jobId);
+    const status = queueJob ? toJobStatus(await queueJob.getState(), jobRecord.status) : jobRecord.status;
+
+    send('status', {
+      jobId,
+      status,
+      ...(queueJob ? { progress: normalizeProgress(queueJob.progress) } : {})
+    });
+
+    if (status === 'completed') {
+      sendFinal('completed');
+    } else if (status === 'failed') {
+      sendFinal('failed', queueJob?.failedReason || jobRecord.error);
+    } else if (status === 'cancelled') {
+      sendFinal('cancelled');
+    }
+  } catch (error: any) {
+    logger.error(`Failed to read job ${jobId} for event stream:`, error);
+    send('error', { message: 'Failed to get job status' });
+    close();
+  }
+};
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { isMongoConnected } from '../db';
-import { isRedisConnected, getQueueStats } from '../queue';
+import { isRedisConnected, getQueueStats, getDeadLetterCount, listWorkers, getLocalHeartbeat, workers } from '../queue';
 import { logger } from '../utils/logger';
 
 /**
@@ -21,11 +21,19 @@ export const detailedHealthHandler = async (req: Request, res: Response) => {
     
     let queueStats = null;
     try {
-      queueStats = await getQueueStats();
+      queueStats = { ...await getQueueStats(), deadLettered: await getDeadLetterCount() };
     } catch (err) {
       logger.warn('Could not fetch queue stats:', err);
     }
 
+    // Live workers from their Redis heartbeats (any process, see queue/heartbeat)
+    let liveWorkers = null;
+    try {
+      liveWorkers = await listWorkers();
+    } catch (err) {
+      logger.warn('Could not list workers:', err);
+    }
+
     const healthy = mongoStatus === 'connected' && redisStatus === 'connected';
 
     res.status(healthy ? 200 : 503).json({
@@ -36,6 +44,7 @@ export const detailedHealthHandler = async (req: Request, res: Response) => {
         redis: redisStatus
       },
       queue: queueStats,
+      workers: liveWorkers,
       uptime: process.uptime(),
       memory: {
         used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024) + ' MB',
@@ -50,3 +59,30 @@ export const detailedHealthHandler = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Worker node health check - served by worker-only processes (APP_ROLE=worker)
+ * Reports this process's workers and the jobs they are running
+ */
+export const workerHealthHandler = (req: Request, res: Response) => {
+  const mongoStatus = isMongoConnected() ? 'connected' : 'disconnected';
+  const redisStatus = isRedisConnected() ? 'connected' : 'disconnected';
+  const heartbeat = getLocalHeartbeat();
+
+  const healthy = mongoStatus === 'connected' && redisStatus === 'connected' && workers.length > 0;
+
+  res.status(healthy ? 200 : 503).json({
+    status: healthy ? 'healthy' : 'degraded',
+    timestamp: new Date().toISOString(),
+    services: {
+      mongodb: mongoStatus,
+      redis: redisStatus
+    },
+    worker: heartbeat,
+    uptime: process.uptime(),
+    memory: {
+      used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024) + ' MB',
+      total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024) + ' MB'
+    }
+  });
+};
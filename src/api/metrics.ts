@@ -13,6 +13,7 @@
 
 import { Router, Request, Response } from 'express';
 import { getQueueStats } from '../queue/scriptQueue';
+import { getDeadLetterCount } from '../queue/deadLetter';
 import { getAllCircuitStats, areCircuitsHealthy } from '../utils/circuitBreaker';
 import { getRedis } from '../queue/redis';
 import { logger } from '../utils/logger';
@@ -218,6 +219,10 @@ const METRIC_DEFINITIONS: Record<string, { help: string; type: MetricSample['typ
     help: 'Number of currently processing jobs',
     type: 'gauge',
   },
+  scriptflow_lane_queue_depth: {
+    help: 'Jobs waiting in each queue lane',
+    type: 'gauge',
+  },
   scriptflow_circuit_breaker_state: {
     help: 'Circuit breaker state (0=closed, 1=half-open, 2=open)',
     type: 'gauge',
@@ -226,6 +231,10 @@ const METRIC_DEFINITIONS: Record<string, { help: string; type: MetricSample['typ
     help: 'Number of active user sessions',
     type: 'gauge',
   },
+  scriptflow_dead_letter_jobs: {
+    help: 'Permanently failed jobs waiting in the dead-letter queue',
+    type: 'gauge',
+  },
   
   // Histograms
   scriptflow_request_duration_ms: {
@@ -290,8 +299,10 @@ function formatPrometheusMetrics(): string {
   for (const name of [
     'scriptflow_queue_depth',
     'scriptflow_active_jobs',
+    'scriptflow_lane_queue_depth',
     'scriptflow_circuit_breaker_state',
     'scriptflow_active_sessions',
+    'scriptflow_dead_letter_jobs',
   ]) {
     const def = METRIC_DEFINITIONS[name];
     const gauge = metrics.getGauge(name);
@@ -361,6 +372,10 @@ async function updateDynamicMetrics(): Promise<void> {
     const queueStats = await getQueueStats();
     metrics.setGauge('scriptflow_queue_depth', queueStats.waiting + queueStats.delayed);
     metrics.setGauge('scriptflow_active_jobs', queueStats.active);
+    for (const [lane, stats] of Object.entries(queueStats.lanes)) {
+      metrics.setGauge('scriptflow_lane_queue_depth', stats.waiting, { lane });
+    }
+    metrics.setGauge('scriptflow_dead_letter_jobs', await getDeadLetterCount());
     
     // Circuit breaker metrics
     const circuitStats = getAllCircuitStats();
@@ -422,7 +437,7 @@ router.get('/json', async (req: Request, res: Response) => {
           .map(name => [name, Object.fromEntries(metrics.getCounter(name))])
       ),
       gauges: Object.fromEntries(
-        ['scriptflow_queue_depth', 'scriptflow_active_jobs', 'scriptflow_active_sessions']
+        ['scriptflow_queue_depth', 'scriptflow_active_jobs', 'scriptflow_lane_queue_depth', 'scriptflow_active_sessions', 'scriptflow_dead_letter_jobs']
           .map(name => [name, Object.fromEntries(metrics.getGauge(name))])
       ),
     });
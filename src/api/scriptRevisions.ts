@@ -0,0 +1,299 @@
+/**
+ * Script Revisions API
+ *
+ * Revisions of an existing script:
+ * - Section regeneration ("redo just the hook")
+ * - Conversational refinement ("shorter", "funnier", "in Hindi")
+ *
+ * A revision never overwrites the original - the worker saves it as a new
+ * Script linked to its parent (parentScriptId + version).
+ *
+ * Endpoints:
+ * - POST /api/v2/script/section/regenerate → Rewrite one section (hook/body/cta)
+ * - POST /api/v2/script/refine             → Apply an edit instruction
+ *
+ * The DM triggers ("redo the hook", "make it shorter") in generateScriptV2
+ * queue through the same helpers.
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+
+// Validation
+import { sectionRegenerationSchema, refineSchema } from '../validators/requestValidator';
+
+// Utilities
+import { generateRevisionHash } from '../utils/hash';
+import { SectionKind } from '../utils/scriptParser';
+
+// Services
+import { sessionManager } from '../services/sessionManager';
+
+// Database
+import { Script, Job, IScript } from '../db/models';
+
+// Queue
+import { addSectionJob, addRefineJob } from '../queue';
+
+// Metrics
+import { recordRequest, recordRequestDuration } from './metrics';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Find the script a subscriber wants to revise.
+ *
+ * Lookup order: explicit ID (publicId or _id) → session's last script →
+ * subscriber's most recent script. Only the subscriber's own scripts match.
+ */
+export async function resolveScriptForRevision(
+  subscriberId: string,
+  scriptId?: string
+): Promise<IScript | null> {
+  if (scriptId) {
+    const byId = mongoose.isValidObjectId(scriptId)
+      ? { $or: [{ publicId: scriptId }, { _id: scriptId }] }
+      : { publicId: scriptId };
+    return Script.findOne({ ...byId, manychatUserId: subscriberId });
+  }
+
+  try {
+    const session = await sessionManager.getSession(subscriberId);
+    if (session.lastScriptId && mongoose.isValidObjectId(session.lastScriptId)) {
+      const fromSession = await Script.findOne({ _id: session.lastScriptId, manychatUserId: subscriberId });
+      if (fromSession) return fromSession;
+    }
+  } catch (error: any) {
+    logger.warn(`[${subscriberId}] Non-critical: Failed to read session: ${error.message}`);
+  }
+
+  return Script.findOne({ manychatUserId: subscriberId }).sort({ createdAt: -1 });
+}
+
+/**
+ * Create the Job record and queue a section regeneration
+ *
+ * @returns The job ID
+ */
+export async function queueSectionRegeneration(params: {
+  requestId: string;
+  subscriberId: string;
+  script: IScript;
+  section: SectionKind;
+  reason?: string;
+}): Promise<string> {
+  const { requestId, subscriberId, script, section, reason } = params;
+  const requestHash = generateRevisionHash(script.requestHash, `section_regen:${section}`, requestId);
+
+  await Job.create({
+    jobId: requestId,
+    subscriberId,
+    status: 'queued',
+    reelUrl: script.reelUrl,
+    userIdea: script.userIdea,
+    requestHash,
+    attempts: 0
+  });
+
+  await addSectionJob({
+    requestId,
+    requestHash,
+    subscriberId,
+    scriptId: String(script._id),
+    section,
+    reason
+  });
+
+  logger.info(`[${requestId}] Section regen queued - ${section} of script ${script._id}`);
+  return requestId;
+}
+
+/**
+ * Create the Job record and queue a refinement
+ *
+ * @returns The job ID
+ */
+export async function queueRefinement(params: {
+  requestId: string;
+  subscriberId: string;
+  script: IScript;
+  instruction: string;
+}): Promise<string> {
+  const { requestId, subscriberId, script, instruction } = params;
+  const requestHash = generateRevisionHash(script.requestHash, `refine:${instruction.toLowerCase()}`, requestId);
+
+  await Job.create({
+    jobId: requestId,
+    subscriberId,
+    status: 'queued',
+    reelUrl: script.reelUrl,
+    userIdea: script.userIdea,
+    requestHash,
+    attempts: 0
+  });
+
+  await addRefineJob({
+    requestId,
+    requestHash,
+    subscriberId,
+    scriptId: String(script._id),
+    instruction
+  });
+
+  logger.info(`[${requestId}] Refinement queued - "${instruction.slice(0, 50)}" on script ${script._id}`);
+  return requestId;
+}
+
+/**
+ * User-facing message while a section is being rewritten
+ */
+export function getSectionRegenMessage(section: SectionKind): string {
+  const labels: Record<SectionKind, string> = {
+    hook: '🎣 Rewriting just the hook',
+    body: '📝 Rewriting just the body',
+    cta: '📣 Rewriting just the CTA',
+  };
+  return `${labels[section]} - the rest of your script stays the same ✨`;
+}
+
+/**
+ * User-facing message while a refinement runs
+ */
+export const REFINE_MESSAGE = '✏️ On it - tweaking your script...';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SECTION REGENERATION HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const regenerateSectionHandler = async (req: Request, res: Response) => {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  try {
+    // 1. Validate request
+    const parseResult = sectionRegenerationSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      logger.warn('Validation failed', parseResult.error);
+      return res.status(400).json({
+        status: 'error',
+        code: 'INVALID_INPUT',
+        message: parseResult.error.issues.map((e: any) => e.message).join(', ')
+      });
+    }
+
+    const { subscriber_id, script_id, section, reason } = parseResult.data;
+
+    // 2. Find the script to revise
+    const script = await resolveScriptForRevision(subscriber_id, script_id);
+    if (!script) {
+      return res.status(404).json({
+        status: 'error',
+        code: 'SCRIPT_NOT_FOUND',
+        message: 'No script found to revise'
+      });
+    }
+
+    // 3. Queue
+    await queueSectionRegeneration({
+      requestId,
+      subscriberId: subscriber_id,
+      script,
+      section,
+      reason
+    });
+
+    recordRequest({ flow: 'section_regen', status: 'queued' });
+    recordRequestDuration(Date.now() - startTime, { endpoint: 'section_regen' });
+
+    res.json({
+      status: 'queued',
+      jobId: requestId,
+      flowType: 'section_regen',
+      section,
+      parentScriptId: String(script._id),
+      parentVersion: script.version || 1,
+      message: getSectionRegenMessage(section)
+    });
+
+  } catch (error: any) {
+    logger.error(`[${requestId}] Section regen handler error:`, error);
+    recordRequest({ flow: 'section_regen', status: 'error' });
+    recordRequestDuration(Date.now() - startTime, { endpoint: 'section_regen' });
+
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Something went wrong. Please try again!'
+    });
+  }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REFINEMENT HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const refineScriptHandler = async (req: Request, res: Response) => {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  try {
+    // 1. Validate request
+    const parseResult = refineSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      logger.warn('Validation failed', parseResult.error);
+      return res.status(400).json({
+        status: 'error',
+        code: 'INVALID_INPUT',
+        message: parseResult.error.issues.map((e: any) => e.message).join(', ')
+      });
+    }
+
+    const { subscriber_id, script_id, instruction } = parseResult.data;
+
+    // 2. Find the script to refine
+    const script = await resolveScriptForRevision(subscriber_id, script_id);
+    if (!script) {
+      return res.status(404).json({
+        status: 'error',
+        code: 'SCRIPT_NOT_FOUND',
+        message: 'No script found to refine'
+      });
+    }
+
+    // 3. Queue
+    await queueRefinement({
+      requestId,
+      subscriberId: subscriber_id,
+      script,
+      instruction
+    });
+
+    recordRequest({ flow: 'refine', status: 'queued' });
+    recordRequestDuration(Date.now() - startTime, { endpoint: 'refine' });
+
+    res.json({
+      status: 'queued',
+      jobId: requestId,
+      flowType: 'refine',
+      instruction,
+      parentScriptId: String(script._id),
+      parentVersion: script.version || 1,
+      message: REFINE_MESSAGE
+    });
+
+  } catch (error: any) {
+    logger.error(`[${requestId}] Refine handler error:`, error);
+    recordRequest({ flow: 'refine', status: 'error' });
+    recordRequestDuration(Date.now() - startTime, { endpoint: 'refine' });
+
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Something went wrong. Please try again!'
+    });
+  }
+};
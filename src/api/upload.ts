@@ -0,0 +1,177 @@
+/**
+ * Video Upload API
+ *
+ * Alternative to sending a reel URL: the creator uploads the video itself
+ * (an unreleased clip, or a reel the downloader can't fetch).
+ *
+ * Endpoint:
+ * - POST /api/v2/upload?subscriber_id=<id> (multipart/form-data)
+ *     video          - the file (mp4 / mov / webm)
+ *     subscriber_id  - ManyChat subscriber (query string or X-Subscriber-Id
+ *                      header, checked before the upload; form field optional)
+ *     user_idea      - optional; a default idea is used when missing
+ *     tone_hint, language_hint, mode - same as /api/v2/script/generate
+ *
+ * The file is stored under its content hash and queued as an ordinary
+ * generation job with reelUrl `upload://<sha256>`. The worker skips the
+ * download step and caches the analysis in ReelDNA under the content hash.
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+
+// Validation
+import { videoUploadSchema } from '../validators/requestValidator';
+
+// Utilities
+import { generateRequestHashV2 } from '../utils/hash';
+import { getDefaultIdea } from '../utils/defaultIdeas';
+
+// Services
+import { storeUpload, UploadRejectedError } from '../services/videoUpload';
+import { sessionManager } from '../services/sessionManager';
+
+// Database
+import { Script, Job } from '../db/models';
+
+// Queue
+import { addScriptJob } from '../queue';
+
+// Metrics
+import { recordRequest, recordCacheResult, recordRequestDuration } from './metrics';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UPLOAD HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const uploadVideoHandler = async (req: Request, res: Response) => {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  try {
+    // 1. Validate fields
+    const parseResult = videoUploadSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      logger.warn('Validation failed', parseResult.error);
+      return res.status(400).json({
+        status: 'error',
+        code: 'INVALID_INPUT',
+        message: parseResult.error.issues.map((e: any) => e.message).join(', ')
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'NO_FILE',
+        message: 'Attach your video in the "video" field'
+      });
+    }
+
+    const { subscriber_id, user_idea, tone_hint, language_hint, mode } = parseResult.data;
+
+    // 2. Check limits (ffprobe) and store under the content hash
+    const upload = await storeUpload(req.file.path, requestId);
+    const userIdea = user_idea || getDefaultIdea().idea;
+
+    // 3. Variation + session (so "another" / "shorter" work on the upload too)
+    const variationResult = await sessionManager.getAndIncrementVariation(
+      subscriber_id,
+      upload.reelUrl,
+      userIdea
+    );
+    await sessionManager.setReelUrl(subscriber_id, upload.reelUrl);
+    await sessionManager.setUserIdea(subscriber_id, userIdea);
+
+    const requestHash = generateRequestHashV2(
+      subscriber_id,
+      upload.reelUrl,
+      userIdea,
+      variationResult.variationIndex,
+      mode
+    );
+
+    // 4. Check cache (same file + idea uploaded before)
+    if (variationResult.variationIndex === 0) {
+      const cachedScript = await Script.findOne({ requestHash }).lean();
+      if (cachedScript) {
+        logger.info(`[${requestId}] Cache HIT: ${requestHash}`);
+        recordCacheResult(true, 'script');
+        recordRequest({ flow: 'upload', status: 'cached' });
+        recordRequestDuration(Date.now() - startTime, { endpoint: 'upload' });
+
+        return res.json({
+          status: 'success',
+          cached: true,
+          message: 'Found your script instantly! ⚡',
+          script: cachedScript.scriptText,
+          imageUrl: cachedScript.imageUrl || null,
+          scriptUrl: cachedScript.scriptUrl || null
+        });
+      }
+      recordCacheResult(false, 'script');
+    }
+
+    // 5. Create job record + queue
+    await Job.create({
+      jobId: requestId,
+      subscriberId: subscriber_id,
+      status: 'queued',
+      reelUrl: upload.reelUrl,
+      userIdea,
+      requestHash,
+      attempts: 0
+    });
+
+    await addScriptJob({
+      requestId,
+      requestHash,
+      subscriberId: subscriber_id,
+      reelUrl: upload.reelUrl,
+      userIdea,
+      toneHint: tone_hint,
+      languageHint: language_hint,
+      mode,
+      variationIndex: variationResult.variationIndex,
+      triggerType: variationResult.variationIndex > 0 ? 'redo' : 'guided',
+      isDefaultIdea: !user_idea
+    });
+
+    logger.info(`[${requestId}] Upload job queued - ${upload.contentHash}, variation: ${variationResult.variationIndex}`);
+
+    recordRequest({ flow: 'upload', status: 'queued' });
+    recordRequestDuration(Date.now() - startTime, { endpoint: 'upload' });
+
+    res.json({
+      status: 'queued',
+      jobId: requestId,
+      flowType: 'upload',
+      contentHash: upload.contentHash,
+      durationSec: Math.round(upload.durationSec * 10) / 10,
+      variationIndex: variationResult.variationIndex,
+      message: '🎬 Got your video! Creating your script...'
+    });
+
+  } catch (error: any) {
+    if (error instanceof UploadRejectedError) {
+      logger.warn(`[${requestId}] Upload rejected: ${error.code}`);
+      recordRequest({ flow: 'upload', status: 'rejected' });
+      return res.status(error.code === 'FILE_TOO_LARGE' ? 413 : 422).json({
+        status: 'error',
+        code: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error(`[${requestId}] Upload handler error:`, error);
+    recordRequest({ flow: 'upload', status: 'error' });
+    recordRequestDuration(Date.now() - startTime, { endpoint: 'upload' });
+
+    res.status(500).json({
+      status: 'error',
+      code: 'INTERNAL_ERROR',
+      message: 'Something went wrong. Please try again!'
+    });
+  }
+};
@@ -3,6 +3,7 @@ import crypto from 'crypto';
 import { Script } from '../db/models';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { parseScript, getSectionTexts } from '../utils/scriptParser';
 
 /**
  * Generate a short, URL-safe ID (8 chars for better collision resistance)
@@ -97,34 +98,13 @@ function escapeHtml(text: string): string {
     .replace(/'/g, '&#039;');
 }
 
-/**
- * Parse script into sections
- */
-function parseScriptSections(scriptText: string): { hook: string; body: string; cta: string } {
-  const sections = { hook: '', body: '', cta: '' };
-  
-  // Split by section headers
-  const parts = scriptText.split(/\[(HOOK|BODY|CTA)\]/i);
-  
-  for (let i = 1; i < parts.length; i += 2) {
-    const header = parts[i]?.toUpperCase();
-    const content = parts[i + 1]?.trim() || '';
-    
-    if (header === 'HOOK') sections.hook = content;
-    else if (header === 'BODY') sections.body = content;
-    else if (header === 'CTA') sections.cta = content;
-  }
-  
-  return sections;
-}
-
 /**
  * Generate the HTML page for viewing and copying the script
  * ENHANCED: Section-specific copy, better visual hierarchy, polished design
  */
 function generateScriptPage(scriptText: string, userIdea: string): string {
   const escapedIdea = escapeHtml(userIdea);
-  const sections = parseScriptSections(scriptText);
+  const sections = getSectionTexts(parseScript(scriptText));
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -0,0 +1,94 @@
+/**
+ * Backfill DatasetEntryV2 from legacy DatasetEntry rows
+ *
+ * Converts every V1 entry that has no V2 counterpart (matched on
+ * input.requestHash) so training exports and feedback stats cover the whole
+ * history. Safe to re-run: converted rows are skipped.
+ *
+ * Usage:
+ *   npm run backfill:dataset-v2 -- [--dry-run] [--limit N]
+ */
+
+import { connectDB, disconnectDB, DatasetEntry, DatasetEntryV2, Script } from '../db';
+import { convertV1Entry } from '../services/datasetV2';
+import { logger } from '../utils/logger';
+
+interface BackfillOptions {
+  dryRun: boolean;
+  limit: number;
+}
+
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = { dryRun: false, limit: 0 };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--dry-run') {
+      options.dryRun = true;
+    } else if (argv[i] === '--limit') {
+      options.limit = parseInt(argv[++i], 10);
+      if (!Number.isInteger(options.limit) || options.limit < 0) {
+        throw new Error('--limit expects a non-negative number');
+      }
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  return options;
+}
+
+async function backfill(options: BackfillOptions): Promise<void> {
+  const counts = { scanned: 0, converted: 0, skipped: 0, failed: 0 };
+
+  const query = DatasetEntry.find().sort({ createdAt: 1 });
+  if (options.limit > 0) query.limit(options.limit);
+
+  for await (const entry of query.cursor()) {
+    counts.scanned++;
+    const requestHash = entry.input?.requestHash;
+
+    try {
+      if (!requestHash || await DatasetEntryV2.exists({ 'input.requestHash': requestHash })) {
+        counts.skipped++;
+        continue;
+      }
+
+      // V1 never stored the subscriber - recover it from the delivered script
+      const script = await Script.findOne({ requestHash }).select('manychatUserId').lean();
+      const doc = convertV1Entry(entry, script?.manychatUserId || 'unknown');
+
+      if (!options.dryRun) {
+        // Keep the original createdAt/updatedAt
+        await new DatasetEntryV2(doc).save({ timestamps: false });
+      }
+      counts.converted++;
+    } catch (error: any) {
+      counts.failed++;
+      logger.warn(`Backfill: failed to convert ${requestHash || entry._id}: ${error.message}`);
+    }
+
+    if (counts.scanned % 500 === 0) {
+      logger.info(`Backfill: ${counts.scanned} scanned, ${counts.converted} converted`);
+    }
+  }
+
+  logger.info(
+    `✅ Backfill ${options.dryRun ? '(dry run) ' : ''}done: ${counts.scanned} scanned, ` +
+    `${counts.converted} converted, ${counts.skipped} skipped, ${counts.failed} failed`
+  );
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  await connectDB();
+  try {
+    await backfill(options);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+main().catch((error) => {
+  logger.error('❌ Backfill failed:', error);
+  process.exit(1);
+});
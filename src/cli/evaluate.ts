@@ -0,0 +1,242 @@
+/**
+ * Offline evaluation of the script generator
+ *
+ * Commands:
+ *   run       Generate + score every golden case, write eval-runs/<runId>.json
+ *             --label <name>            Run label (default: prompt variant ID)
+ *             --golden <file.jsonl>     Custom golden set (default: src/eval/goldenSet)
+ *             --provider <name>         vertex | openai | fake (default: LLM_PROVIDER)
+ *             --prompt-variant <id>     Prompt variant (default: PROMPT_VARIANT)
+ *             --temperature <n>         Sampling temperature
+ *             --judge                   Also score hookStrength/pacing with the LLM judge
+ *             --baseline <run.json>     Compare against a previous run when done
+ *   compare   <base.json> <candidate.json>: JSON + HTML report, exit 1 on regression
+ *             --max-avg-drop <n>        Allowed drop of the average overall score (default 2)
+ *             --max-case-drop <n>       Per-case drop that fails the comparison (default 10)
+ *   snapshot  Write recent ReelDNA analyses as a golden JSONL file (PII redacted)
+ *             --limit <n>               Analyses to take (default 20)
+ *
+ * All commands accept --out <dir> (default eval-runs/).
+ *
+ * Usage:
+ *   npm run eval -- run --provider fake --label baseline
+ *   npm run eval -- compare eval-runs/a.json eval-runs/b.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { connectDB, disconnectDB, ReelDNA } from '../db';
+import { GOLDEN_SET, GoldenCase } from '../eval/goldenSet';
+import { runEvaluation, compareRuns, EvalRun, EvalComparison } from '../services/evaluation';
+import { renderComparisonHtml } from '../services/evalReport';
+import { getPromptVariant } from '../services/promptRegistry';
+import { createLLMProvider, setLLMProvider, LLMProviderName } from '../services/llm';
+import { getDefaultIdea } from '../utils/defaultIdeas';
+import { redactPII } from '../utils/pii';
+import { logger } from '../utils/logger';
+
+const DEFAULT_OUT_DIR = 'eval-runs';
+const PROVIDERS: LLMProviderName[] = ['vertex', 'openai', 'fake'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ARGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ParsedArgs {
+  command: string;
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+const BOOLEAN_FLAGS = new Set(['judge']);
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command = '', ...rest] = argv;
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags[name] = true;
+    } else if (i + 1 < rest.length) {
+      flags[name] = rest[++i];
+    } else {
+      throw new Error(`--${name} expects a value`);
+    }
+  }
+
+  return { command, positional, flags };
+}
+
+function stringFlag(flags: ParsedArgs['flags'], name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberFlag(flags: ParsedArgs['flags'], name: string): number | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`--${name} expects a number`);
+  return parsed;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FILES
+// ═══════════════════════════════════════════════════════════════════════════
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  logger.info(`Wrote ${filePath}`);
+}
+
+function readRun(filePath: string): EvalRun {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as EvalRun;
+}
+
+function loadGoldenSet(filePath: string): GoldenCase[] {
+  return fs.readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, i) => {
+      const goldenCase = JSON.parse(line) as GoldenCase;
+      if (!goldenCase.id || !goldenCase.userIdea || !goldenCase.analysis) {
+        throw new Error(`${filePath}:${i + 1} needs id, userIdea and analysis`);
+      }
+      return goldenCase;
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMMANDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function writeComparison(comparison: EvalComparison, base: EvalRun, candidate: EvalRun, outDir: string): void {
+  const name = `compare-${base.id}-vs-${candidate.id}`;
+  writeFile(path.join(outDir, `${name}.json`), JSON.stringify(comparison, null, 2));
+  writeFile(path.join(outDir, `${name}.html`), renderComparisonHtml(comparison, base, candidate));
+
+  const { deltas } = comparison;
+  logger.info(
+    `${comparison.passed ? '✅ PASS' : '❌ FAIL'}: overall ${deltas.avgOverall >= 0 ? '+' : ''}${deltas.avgOverall}, ` +
+    `quality pass rate ${deltas.qualityPassRate >= 0 ? '+' : ''}${deltas.qualityPassRate}%, ` +
+    `${comparison.regressions.length} regressed case(s)${comparison.regressions.length > 0 ? `: ${comparison.regressions.join(', ')}` : ''}`
+  );
+}
+
+async function runCommand(args: ParsedArgs, outDir: string): Promise<number> {
+  const { flags } = args;
+
+  const provider = stringFlag(flags, 'provider') as LLMProviderName | undefined;
+  if (provider) {
+    if (!PROVIDERS.includes(provider)) throw new Error(`--provider must be one of ${PROVIDERS.join(', ')}`);
+    setLLMProvider(createLLMProvider(provider));
+  }
+
+  const promptVariant = getPromptVariant(stringFlag(flags, 'prompt-variant'));
+  const goldenPath = stringFlag(flags, 'golden');
+  const cases = goldenPath ? loadGoldenSet(goldenPath) : GOLDEN_SET;
+
+  const run = await runEvaluation(cases, {
+    label: stringFlag(flags, 'label') || promptVariant.id,
+    judge: flags.judge === true,
+    promptVariant,
+    temperature: numberFlag(flags, 'temperature'),
+  });
+  writeFile(path.join(outDir, `${run.id}.json`), JSON.stringify(run, null, 2));
+
+  const { summary } = run;
+  logger.info(
+    `Run ${run.id}: ${summary.cases} cases, ${summary.errors} errors, overall ${summary.avgOverall}, ` +
+    `quality pass rate ${summary.qualityPassRate}%`
+  );
+
+  const baselinePath = stringFlag(flags, 'baseline');
+  if (!baselinePath) return 0;
+
+  const base = readRun(baselinePath);
+  const comparison = compareRuns(base, run);
+  writeComparison(comparison, base, run, outDir);
+  return comparison.passed ? 0 : 1;
+}
+
+function compareCommand(args: ParsedArgs, outDir: string): number {
+  const [basePath, candidatePath] = args.positional;
+  if (!basePath || !candidatePath) throw new Error('compare needs <base.json> <candidate.json>');
+
+  const base = readRun(basePath);
+  const candidate = readRun(candidatePath);
+  const comparison = compareRuns(base, candidate, {
+    maxAvgDrop: numberFlag(args.flags, 'max-avg-drop'),
+    maxCaseDrop: numberFlag(args.flags, 'max-case-drop'),
+  });
+  writeComparison(comparison, base, candidate, outDir);
+  return comparison.passed ? 0 : 1;
+}
+
+async function snapshotCommand(args: ParsedArgs, outDir: string): Promise<number> {
+  const limit = numberFlag(args.flags, 'limit') ?? 20;
+
+  await connectDB();
+  try {
+    const entries = await ReelDNA.find().sort({ createdAt: -1 }).limit(limit).lean();
+
+    const cases: GoldenCase[] = entries.map(entry => {
+      const transcript = entry.analysis.transcript ? redactPII(entry.analysis.transcript) : null;
+      return {
+        id: `reel-${entry.reelUrlHash.slice(0, 12)}`,
+        userIdea: getDefaultIdea({ hookType: entry.analysis.hookType, tone: entry.analysis.tone }, transcript || undefined).idea,
+        analysis: {
+          transcript,
+          visualCues: entry.analysis.visualCues || [],
+          hookType: entry.analysis.hookType,
+          tone: entry.analysis.tone,
+          sceneDescriptions: entry.analysis.sceneDescriptions || [],
+          shots: entry.analysis.shots,
+        },
+      };
+    });
+
+    writeFile(path.join(outDir, 'golden.jsonl'), cases.map(c => JSON.stringify(c)).join('\n') + '\n');
+    logger.info(`Snapshot: ${cases.length} golden case(s)`);
+    return 0;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const outDir = stringFlag(args.flags, 'out') || DEFAULT_OUT_DIR;
+
+  switch (args.command) {
+    case 'run':
+      return runCommand(args, outDir);
+    case 'compare':
+      return compareCommand(args, outDir);
+    case 'snapshot':
+      return snapshotCommand(args, outDir);
+    default:
+      throw new Error(`Unknown command "${args.command}" (expected run, compare or snapshot)`);
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error) => {
+    logger.error('❌ Evaluation failed:', error);
+    process.exit(2);
+  });
@@ -1,4 +1,4 @@
-import { cleanEnv, str, port, num } from 'envalid';
+import { cleanEnv, str, port, num, bool } from 'envalid';
 import dotenv from 'dotenv';
 const ffmpegPath = require('ffmpeg-static');
 const ffprobePath = require('ffprobe-static').path;
@@ -10,6 +10,7 @@ export const config = cleanEnv(process.env, {
   // Server
   PORT: port({ default: 3000 }),
   NODE_ENV: str({ choices: ['development', 'test', 'production'], default: 'development' }),
+  APP_ROLE: str({ choices: ['both', 'api', 'worker'], default: 'both', desc: 'api = HTTP only, worker = queue workers only (health server on PORT), both = one process' }),
   
   // Database
   MONGODB_URI: str({ desc: 'MongoDB connection string (Atlas or local)' }),
@@ -18,15 +19,37 @@ export const config = cleanEnv(process.env, {
   REDIS_URL: str({ desc: 'Redis connection URL', default: 'redis://localhost:6379' }),
   
   // Queue
-  QUEUE_CONCURRENCY: num({ desc: 'Number of concurrent job workers', default: 5 }),
+  QUEUE_CONCURRENCY: num({ desc: 'Number of concurrent job workers (shared by every lane without its own limits)', default: 5 }),
+  QUEUE_RATE_LIMIT: num({ desc: 'Max jobs started per minute across the shared queue', default: 10 }),
+  LANE_CONCURRENCY: str({ desc: 'Opt-in: own worker concurrency for listed queue lanes (lane:n, comma-separated; see queue/lanes)', default: '' }),
+  LANE_RATE_LIMITS: str({ desc: 'Opt-in: own max jobs started per minute for listed queue lanes (lane:n, comma-separated)', default: '' }),
+  REEL_ANALYSIS_WAIT_MS: num({ desc: 'Max time a job waits for another job analyzing the same reel before analyzing it itself (also capped by the generate stage timeout)', default: 180000 }),
   
   // Rate Limiting
   RATE_LIMIT_MAX: num({ desc: 'Max requests per 15min window (IP-based)', default: 100 }),
   USER_RATE_LIMIT: num({ desc: 'Max requests per hour per ManyChat user', default: 10 }),
   MAX_BETA_USERS: num({ desc: 'Max users with access (others go to waitlist)', default: 100 }),
   
+  // AI Services (LLM provider selection)
+  LLM_PROVIDER: str({ choices: ['vertex', 'openai', 'fake'], default: 'vertex' }),
+  LLM_TEXT_MODELS: str({ desc: 'Comma-separated text model fallback order', default: 'gemini-2.5-flash,gemini-2.0-flash-001' }),
+  LLM_MULTIMODAL_MODELS: str({ desc: 'Comma-separated multimodal model fallback order', default: 'gemini-2.5-flash,gemini-2.0-flash-001' }),
+  LLM_BASE_URL: str({ desc: 'Base URL for OpenAI-compatible provider', default: 'https://api.openai.com/v1' }),
+  LLM_API_KEY: str({ desc: 'API key for OpenAI-compatible provider', default: '' }),
+  LLM_TIMEOUT_MS: num({ desc: 'HTTP timeout for OpenAI-compatible provider', default: 120000 }),
+  PROMPT_VARIANT: str({ desc: 'Prompt variant used when no experiment is active (see services/promptRegistry)', default: 'steal-artist-one-shot-v1.0' }),
+  PROMPT_EXPERIMENT: str({ desc: 'Active prompt A/B experiment ID (empty = off)', default: '' }),
+  PROMPT_BANDIT: bool({ desc: 'Pick the experiment arm per job by Thompson sampling on feedback (instead of the fixed split)', default: false }),
+  QUALITY_GATE_CHECKS: str({ desc: 'Comma-separated quality checks before delivery (empty = off)', default: 'sections,pairing,markdown,romanization,duration,banned_phrases' }),
+  QUALITY_GATE_MAX_RETRIES: num({ desc: 'Targeted regenerations when a script fails the quality gate', default: 1 }),
+  QUALITY_MIN_SPOKEN_SEC: num({ desc: 'Min estimated spoken duration (full scripts)', default: 10 }),
+  QUALITY_MAX_SPOKEN_SEC: num({ desc: 'Max estimated spoken duration', default: 75 }),
+  QUALITY_BANNED_PHRASES: str({ desc: 'Comma-separated phrases that fail the gate (case-insensitive)', default: 'as an ai,in this video,smash that like button,without further ado,let\'s dive in' }),
+  SCRIPT_CANDIDATES: num({ desc: 'Scripts generated per request; >1 ranks them with the judge and delivers the best (max 5)', default: 1 }),
+  QUALITY_SCORING: bool({ desc: 'Score delivered scripts with the LLM judge rubric (async \'score\' job into DatasetV2 qualityMetrics; one extra LLM call per script)', default: false }),
+
   // AI Services (Vertex AI)
-  GCP_PROJECT_ID: str({ desc: 'Google Cloud Project ID' }),
+  GCP_PROJECT_ID: str({ desc: 'Google Cloud Project ID (required when LLM_PROVIDER=vertex)', default: '' }),
   GCP_LOCATION: str({ desc: 'Vertex AI region', default: 'us-central1' }),
   GOOGLE_APPLICATION_CREDENTIALS: str({ desc: 'Path to GCP service account JSON', default: '' }),
   
@@ -43,12 +66,16 @@ export const config = cleanEnv(process.env, {
   
   // Security (optional)
   ADMIN_API_KEY: str({ desc: 'API key for admin endpoints', default: '' }),
+  PII_HASH_SALT: str({ desc: 'Secret for subscriber pseudonyms in dataset exports (empty = random per process)', default: '' }),
+  PII_SALT_ROTATION_DAYS: num({ desc: 'Days before export pseudonyms change (0 = never)', default: 30 }),
   
   // Public URLs
   BASE_URL: str({ desc: 'Base URL for public links (e.g., https://yourapp.onrender.com)', default: '' }),
   
   // Analysis
   ANALYSIS_MODE: str({ choices: ['audio', 'frames', 'hybrid'], default: 'hybrid' }),
+  FRAME_EXTRACTION_MODE: str({ choices: ['fixed', 'scene'], default: 'fixed', desc: 'fixed = fps sampling, scene = one frame per detected shot (opt-in: changes frame counts and Gemini cost)' }),
+  SCENE_CHANGE_THRESHOLD: num({ desc: 'ffmpeg scene score (0-1) that counts as a cut', default: 0.3 }),
   // AWS Configuration (for S3 and Hosting)
   AWS_REGION: str({ desc: 'AWS Region', default: 'ap-south-1' }),
   AWS_ACCESS_KEY_ID: str({ desc: 'AWS Access Key ID', default: '' }),
@@ -58,6 +85,11 @@ export const config = cleanEnv(process.env, {
   // Image Provider Selection
   IMAGE_PROVIDER: str({ choices: ['s3', 'imgbb'], default: 'imgbb' }),
   
+  // Direct video uploads
+  UPLOAD_DIR: str({ desc: 'Directory for uploaded videos (must be shared by API and worker nodes when APP_ROLE splits them)', default: 'data/uploads' }),
+  UPLOAD_MAX_BYTES: num({ desc: 'Max upload size in bytes', default: 50 * 1024 * 1024 }),
+  UPLOAD_MAX_DURATION_SEC: num({ desc: 'Max uploaded video duration in seconds', default: 300 }),
+  
   // Instagram Cookies Path
   INSTAGRAM_COOKIES_PATH: str({ desc: 'Path to Instagram cookies file', default: '/app/secrets/instagram_cookies.txt' }),
 });
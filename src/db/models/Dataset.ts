@@ -1,4 +1,12 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import {
+  parseScript,
+  getSectionTexts,
+  getVisualLines,
+  getDialogueLines,
+  estimateDurationSeconds
+} from '../../utils/scriptParser';
+import { VideoSource, VIDEO_SOURCES } from '../../utils/platforms';
 
 /**
  * Enhanced Dataset Entry Interface
@@ -40,6 +48,7 @@ export interface IDatasetEntry extends Document {
   input: {
     // Original request
     videoUrl: string;
+    platform?: VideoSource;
     userIdea: string;
     requestHash: string;           // For linking feedback
     
@@ -169,6 +178,7 @@ const DatasetEntrySchema = new Schema<IDatasetEntry>({
   // INPUT
   input: {
     videoUrl: { type: String, required: true },
+    platform: { type: String, enum: VIDEO_SOURCES, default: 'instagram' },
     userIdea: { type: String, required: true },
     requestHash: { type: String, required: true, index: true },
     
@@ -302,52 +312,31 @@ export function computeQualityScore(entry: IDatasetEntry): number {
 // ============================================
 
 /**
- * Parse script into structured sections
+ * Parse script into section texts (via the canonical script parser)
  */
 export function parseScriptSections(scriptText: string): { hook?: string; body?: string; cta?: string } {
-  const sections: { hook?: string; body?: string; cta?: string } = {};
-  
-  const parts = scriptText.split(/\[(HOOK|BODY|CTA)\]/i);
-  
-  for (let i = 1; i < parts.length; i += 2) {
-    const header = parts[i]?.toUpperCase();
-    const content = parts[i + 1]?.trim() || '';
-    
-    if (header === 'HOOK') sections.hook = content;
-    else if (header === 'BODY') sections.body = content;
-    else if (header === 'CTA') sections.cta = content;
-  }
-  
-  return sections;
+  return getSectionTexts(parseScript(scriptText));
 }
 
 /**
  * Extract all VISUAL lines from script
  */
 export function extractVisualLines(scriptText: string): string[] {
-  const lines = scriptText.split('\n');
-  return lines
-    .filter(line => line.includes('🎬') || line.toLowerCase().includes('visual:'))
-    .map(line => line.replace(/^🎬\s*VISUAL:\s*/i, '').replace(/^VISUAL:\s*/i, '').trim());
+  return getVisualLines(parseScript(scriptText));
 }
 
 /**
  * Extract all SAY lines from script
  */
 export function extractDialogueLines(scriptText: string): string[] {
-  const lines = scriptText.split('\n');
-  return lines
-    .filter(line => line.includes('💬') || line.toLowerCase().includes('say:'))
-    .map(line => line.replace(/^💬\s*SAY:\s*/i, '').replace(/^SAY:\s*/i, '').trim());
+  return getDialogueLines(parseScript(scriptText));
 }
 
 /**
  * Estimate spoken duration (words / 150 WPM)
  */
 export function estimateSpokenDuration(scriptText: string): number {
-  const dialogueLines = extractDialogueLines(scriptText);
-  const wordCount = dialogueLines.join(' ').split(/\s+/).length;
-  return Math.round((wordCount / 150) * 60); // seconds
+  return estimateDurationSeconds(parseScript(scriptText));
 }
 
 /**
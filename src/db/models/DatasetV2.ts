@@ -15,6 +15,8 @@
  */
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { VideoSource, VIDEO_SOURCES } from '../../utils/platforms';
+import { UserTier } from './User';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPE DEFINITIONS
@@ -24,7 +26,15 @@ export type ToneHint = 'professional' | 'funny' | 'provocative' | 'educational'
 export type GenerationMode = 'full' | 'hook_only';
 export type TriggerType = 'guided' | 'instant' | 'redo';
 export type ContentType = 'educational' | 'promotional' | 'entertainment' | 'storytelling' | 'motivational' | 'other';
-export type UserTier = 'free' | 'beta' | 'premium' | 'enterprise';
+export type { UserTier };
+export type FailureReason =
+  | 'timeout'
+  | 'content_filter'
+  | 'api_error'
+  | 'quality_gate'
+  | 'user_rejected'
+  | 'analysis_repair'     // Analysis JSON failed validation, model re-prompted
+  | 'analysis_fallback';  // Repair exhausted, salvaged/default analysis used
 
 // ═══════════════════════════════════════════════════════════════════════════
 // INTERFACES
@@ -64,6 +74,7 @@ export interface IDatasetEntryV2 extends Document {
   // ─────────────────────────────────────────────────────────────────────────
   input: {
     videoUrl: string;
+    platform: VideoSource;
     userIdea: string;
     isDefaultIdea: boolean;
     requestHash: string;
@@ -83,6 +94,7 @@ export interface IDatasetEntryV2 extends Document {
     sceneDescriptions: string[];
     videoDurationSeconds?: number;
     frameCount?: number;
+    shotCount?: number;
   };
   
   // ─────────────────────────────────────────────────────────────────────────
@@ -128,6 +140,8 @@ export interface IDatasetEntryV2 extends Document {
   // ─────────────────────────────────────────────────────────────────────────
   experiment: {
     promptVariantId: string;
+    /** Prompt experiment the variant was assigned by (absent = no experiment) */
+    experimentId?: string;
     systemPromptHash: string;
     temperature: number;
     topP?: number;
@@ -142,6 +156,15 @@ export interface IDatasetEntryV2 extends Document {
     candidateScripts: string[];
     selectedIndex?: number;
     rejectionReasons?: string[];
+    candidateScores?: Array<{     // Rubric scores, same order as candidateScripts
+      hookStrength?: number;
+      pacing?: number;
+      formatCompliance: number;
+      romanization: number;
+      overall: number;
+      notes?: string;
+    }>;
+    judgeModel?: string;
   };
   
   // ─────────────────────────────────────────────────────────────────────────
@@ -149,6 +172,8 @@ export interface IDatasetEntryV2 extends Document {
   // ─────────────────────────────────────────────────────────────────────────
   feedback: {
     overallRating?: number;
+    sentimentLabel?: 'positive' | 'neutral' | 'negative';
+    collectedAt?: Date;
     wasAccepted: boolean;
     acceptedAt?: Date;
     
@@ -171,6 +196,7 @@ export interface IDatasetEntryV2 extends Document {
     // Implicit signals (NEW in V2)
     implicit: {
       timeToFirstInteraction?: number;
+      quickFeedback?: string;
       didCopy: boolean;
       copyCount: number;
       didRedo: boolean;
@@ -195,8 +221,9 @@ export interface IDatasetEntryV2 extends Document {
     failedAttempts: Array<{
       attemptNumber: number;
       script?: string;
-      failureReason: 'timeout' | 'content_filter' | 'api_error' | 'quality_gate' | 'user_rejected';
+      failureReason: FailureReason;
       errorMessage?: string;
+      rawOutput?: string;
       timestamp: Date;
     }>;
   };
@@ -212,6 +239,18 @@ export interface IDatasetEntryV2 extends Document {
     originalityScore?: number;
     grammarScore?: number;
     predictedEngagement?: number;
+    /** Set with the rubric fields above by the post-delivery 'score' job (LLM judge) */
+    judgeModel?: string;
+    scoredAt?: Date;
+    /**
+     * Winner's scores from the candidate judge (multi-candidate generation,
+     * see alternatives.candidateScores), kept apart from the rubric
+     */
+    candidateJudge?: {
+      overall?: number;
+      hookStrength?: number;
+      pacing?: number;
+    };
   };
   
   // ─────────────────────────────────────────────────────────────────────────
@@ -247,6 +286,9 @@ export interface IDatasetEntryV2 extends Document {
   
   createdAt: Date;
   updatedAt: Date;
+  
+  /** 0-100 from feedback, judge rubric and input richness (schema method below) */
+  calculateQualityScore(): number;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -279,6 +321,7 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
     // Input Features
     input: {
       videoUrl: { type: String, required: true },
+      platform: { type: String, enum: VIDEO_SOURCES, default: 'instagram' },
       userIdea: { type: String, required: true },
       isDefaultIdea: { type: Boolean, default: false },
       requestHash: { type: String, required: true, index: true },
@@ -294,6 +337,7 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
       sceneDescriptions: [{ type: String }],
       videoDurationSeconds: { type: Number },
       frameCount: { type: Number },
+      shotCount: { type: Number },
     },
     
     // Classification
@@ -335,6 +379,7 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
     // Experiment Tracking
     experiment: {
       promptVariantId: { type: String, default: 'default' },
+      experimentId: { type: String },
       systemPromptHash: { type: String },
       temperature: { type: Number, default: 0.7 },
       topP: { type: Number },
@@ -347,11 +392,23 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
       candidateScripts: [{ type: String }],
       selectedIndex: { type: Number },
       rejectionReasons: [{ type: String }],
+      candidateScores: [{
+        _id: false,
+        hookStrength: { type: Number, min: 0, max: 100 },
+        pacing: { type: Number, min: 0, max: 100 },
+        formatCompliance: { type: Number, min: 0, max: 100 },
+        romanization: { type: Number, min: 0, max: 100 },
+        overall: { type: Number, min: 0, max: 100 },
+        notes: { type: String },
+      }],
+      judgeModel: { type: String },
     },
     
     // Feedback
     feedback: {
       overallRating: { type: Number, min: 1, max: 5 },
+      sentimentLabel: { type: String, enum: ['positive', 'neutral', 'negative'] },
+      collectedAt: { type: Date },
       wasAccepted: { type: Boolean, default: false },
       acceptedAt: { type: Date },
       sectionFeedback: {
@@ -381,6 +438,7 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
       },
       implicit: {
         timeToFirstInteraction: { type: Number },
+        quickFeedback: { type: String },
         didCopy: { type: Boolean, default: false },
         copyCount: { type: Number, default: 0 },
         didRedo: { type: Boolean, default: false },
@@ -403,9 +461,10 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
         script: { type: String },
         failureReason: { 
           type: String, 
-          enum: ['timeout', 'content_filter', 'api_error', 'quality_gate', 'user_rejected'] 
+          enum: ['timeout', 'content_filter', 'api_error', 'quality_gate', 'user_rejected', 'analysis_repair', 'analysis_fallback'] 
         },
         errorMessage: { type: String },
+        rawOutput: { type: String },
         timestamp: { type: Date },
       }],
     },
@@ -419,6 +478,13 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
       originalityScore: { type: Number, min: 0, max: 100 },
       grammarScore: { type: Number, min: 0, max: 100 },
       predictedEngagement: { type: Number, min: 0, max: 100 },
+      judgeModel: { type: String },
+      scoredAt: { type: Date },
+      candidateJudge: {
+        overall: { type: Number, min: 0, max: 100 },
+        hookStrength: { type: Number, min: 0, max: 100 },
+        pacing: { type: Number, min: 0, max: 100 },
+      },
     },
     
     // Generation Metadata
@@ -442,7 +508,7 @@ const DatasetEntryV2Schema = new Schema<IDatasetEntryV2>(
       qualityScore: { type: Number, default: 50 },
       includedInTraining: { type: Boolean, default: false },
       trainingBatch: { type: String },
-      datasetVersion: { type: String, default: '2.0' },
+      datasetVersion: { type: String, default: '2.0.0' },
       exportedAt: { type: Date },
     },
   },
@@ -479,6 +545,9 @@ DatasetEntryV2Schema.index({
 DatasetEntryV2Schema.index({ 'feedback.overallRating': 1 });
 DatasetEntryV2Schema.index({ 'feedback.wasAccepted': 1 });
 
+// Prompt A/B comparison
+DatasetEntryV2Schema.index({ 'experiment.promptVariantId': 1, createdAt: -1 });
+
 // ═══════════════════════════════════════════════════════════════════════════
 // QUALITY SCORE CALCULATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -520,6 +589,18 @@ DatasetEntryV2Schema.methods.calculateQualityScore = function(): number {
   if (perf.views && perf.views > 10000) score += 10;
   if (perf.likes && perf.views && (perf.likes / perf.views) > 0.1) score += 10;
   
+  // LLM judge rubric (+/- 15 points around a neutral 50)
+  const metrics = this.qualityMetrics || {};
+  if (metrics.scoredAt) {
+    const { hookStrength, ctaClarity, pacing, originalityScore, predictedEngagement } = metrics;
+    const rubric = [hookStrength, ctaClarity, pacing, originalityScore, predictedEngagement]
+      .filter((value): value is number => typeof value === 'number');
+    if (rubric.length > 0) {
+      const average = rubric.reduce((sum, value) => sum + value, 0) / rubric.length;
+      score += Math.round((average - 50) * 0.3);
+    }
+  }
+  
   // Input richness
   if (this.input.transcript) score += 5;
   if ((this.input.visualCues?.length || 0) > 3) score += 5;
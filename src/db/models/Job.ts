@@ -3,7 +3,27 @@ import mongoose, { Schema, Document } from 'mongoose';
 /**
  * Job Status Enum
  */
-export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Completed pipeline stage (see queue/pipeline.ts)
+ */
+export interface IJobStageRecord {
+  name: string;
+  completedAt: Date;
+  durationMs: number;
+  attempts: number;
+}
+
+/**
+ * One failed attempt (classified by queue/deadLetter.ts)
+ */
+export interface IJobAttemptRecord {
+  attempt: number;
+  errorType: string;
+  error: string;
+  failedAt: Date;
+}
 
 /**
  * Job Document Interface
@@ -25,6 +45,14 @@ export interface IJob extends Document {
   error?: string;
   errorStack?: string;
   attempts: number;
+  attemptHistory?: IJobAttemptRecord[];
+  // Pipeline checkpoints - retries resume after the last completed stage
+  pipeline?: {
+    stages: IJobStageRecord[];
+    outputs: Record<string, unknown>;
+    /** Set when persist starts - from then on the job can't be cancelled */
+    committedAt?: Date;
+  };
   // Timestamps
   createdAt: Date;
   startedAt?: Date;
@@ -46,7 +74,7 @@ const JobSchema = new Schema<IJob>({
   },
   status: { 
     type: String, 
-    enum: ['queued', 'processing', 'completed', 'failed'],
+    enum: ['queued', 'processing', 'completed', 'failed', 'cancelled'],
     default: 'queued',
     index: true
   },
@@ -73,6 +101,22 @@ const JobSchema = new Schema<IJob>({
     type: Number, 
     default: 0 
   },
+  attemptHistory: [{
+    attempt: Number,
+    errorType: String,
+    error: String,
+    failedAt: Date
+  }],
+  pipeline: {
+    stages: [{
+      name: String,
+      completedAt: Date,
+      durationMs: Number,
+      attempts: Number
+    }],
+    outputs: { type: Schema.Types.Mixed, default: {} },
+    committedAt: Date
+  },
   startedAt: Date,
   completedAt: Date,
   processingTimeMs: Number
@@ -1,15 +1,18 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { VideoAnalysis } from '../../services/videoAnalyzer';
+import { VideoAnalysis, AnalysisFailure } from '../../services/videoAnalyzer';
+import { VideoSource, VIDEO_SOURCES } from '../../utils/platforms';
 
 /**
  * ReelDNA Document Interface
  * Tier 1 Cache: Stores video analysis results for reuse with different user ideas
  */
 export interface IReelDNA extends Document {
-  reelUrlHash: string;       // SHA-256 of the reel URL (unique key)
+  reelUrlHash: string;       // SHA-256 of the reel URL, or of the file for uploads (unique key)
   reelUrl: string;           // Original URL for reference
+  platform: VideoSource;     // Source platform (instagram, tiktok, youtube) or upload
   videoUrl?: string;         // S3 URL of the downloaded video (if uploaded)
   analysis: VideoAnalysis;   // The cached video analysis
+  analysisFailures: AnalysisFailure[]; // Repairs/fallbacks it took (copy jobs have no DatasetEntryV2 row)
   createdAt: Date;
   expiresAt: Date;           // Cache expiration (e.g., 7 days)
 }
@@ -25,17 +28,32 @@ const ReelDNASchema = new Schema<IReelDNA>({
     type: String, 
     required: true 
   },
+  platform: {
+    type: String,
+    enum: VIDEO_SOURCES,
+    default: 'instagram'
+  },
   videoUrl: {
     type: String,
     default: null
   },
   analysis: {
     transcript: { type: String, default: null },
+    transcriptSegments: [{ _id: false, text: { type: String }, startSec: { type: Number }, endSec: { type: Number } }],
     visualCues: [{ type: String }],
     hookType: { type: String },
     tone: { type: String },
-    sceneDescriptions: [{ type: String }]
+    sceneDescriptions: [{ type: String }],
+    shots: [{ _id: false, startSec: { type: Number }, endSec: { type: Number } }]
   },
+  analysisFailures: [{
+    _id: false,
+    kind: { type: String, enum: ['repair', 'fallback'] },
+    attemptNumber: { type: Number },
+    errorMessage: { type: String },
+    rawOutput: { type: String },
+    timestamp: { type: Date }
+  }],
   expiresAt: {
     type: Date,
     default: () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
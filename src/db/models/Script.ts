@@ -1,4 +1,18 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { StructuredScript, SectionKind } from '../../utils/scriptParser';
+import { VideoSource, VIDEO_SOURCES } from '../../utils/platforms';
+
+/**
+ * How a script version was derived from its parent
+ */
+export type RevisionType = 'section_regen' | 'refine';
+
+export interface ScriptRevision {
+  type: RevisionType;
+  section?: SectionKind;  // section_regen: section that was regenerated
+  reason?: string;        // section_regen: user's reason, if given
+  instruction?: string;   // refine: user's edit instruction ("shorter", "in Hindi")
+}
 
 /**
  * Script Document Interface
@@ -9,10 +23,16 @@ export interface IScript extends Document {
   publicId: string;         // Short ID for shareable link (e.g., "XyZ123")
   manychatUserId: string;
   reelUrl: string;
+  platform: VideoSource;    // Source platform of the reel (or upload)
   userIdea: string;
   scriptText: string;
+  structuredScript?: StructuredScript;  // Parsed form of scriptText (sections → beats)
   imageUrl?: string;        // Generated script image URL
   scriptUrl?: string;       // Public URL for copy-friendly text view
+  // Version chain (revisions are saved as new documents, never in place)
+  parentScriptId?: string;  // _id of the script this version was derived from
+  version: number;          // 1 for original generations, parent.version + 1 for revisions
+  revision?: ScriptRevision;
   // ML-relevant metadata
   modelVersion?: string;
   generationTimeMs?: number;
@@ -21,6 +41,24 @@ export interface IScript extends Document {
   updatedAt: Date;
 }
 
+const TimingSchema = new Schema({
+  startSec: { type: Number, required: true },
+  endSec: { type: Number, required: true }
+}, { _id: false });
+
+const ScriptBeatSchema = new Schema({
+  visual: { type: String, default: null },
+  say: { type: String, default: null },
+  note: { type: String },
+  timing: { type: TimingSchema }
+}, { _id: false });
+
+const ScriptSectionSchema = new Schema({
+  kind: { type: String, enum: ['hook', 'body', 'cta'], required: true },
+  beats: { type: [ScriptBeatSchema], default: [] },
+  timing: { type: TimingSchema }
+}, { _id: false });
+
 const ScriptSchema = new Schema<IScript>({
   requestHash: { 
     type: String, 
@@ -44,6 +82,11 @@ const ScriptSchema = new Schema<IScript>({
     required: true,
     index: true 
   },
+  platform: {
+    type: String,
+    enum: VIDEO_SOURCES,
+    default: 'instagram'
+  },
   userIdea: { 
     type: String, 
     required: true 
@@ -52,12 +95,32 @@ const ScriptSchema = new Schema<IScript>({
     type: String, 
     required: true 
   },
+  structuredScript: {
+    sections: { type: [ScriptSectionSchema], default: undefined }
+  },
   imageUrl: {
     type: String
   },
   scriptUrl: {
     type: String
   },
+  parentScriptId: {
+    type: String,
+    index: true
+  },
+  version: {
+    type: Number,
+    default: 1
+  },
+  revision: {
+    type: {
+      type: String,
+      enum: ['section_regen', 'refine']
+    },
+    section: { type: String, enum: ['hook', 'body', 'cta'] },
+    reason: { type: String },
+    instruction: { type: String }
+  },
   modelVersion: { 
     type: String, 
     default: 'gemini-2.5-flash' 
@@ -5,6 +5,11 @@ import mongoose, { Schema, Document } from 'mongoose';
  */
 export type UserAccessStatus = 'active' | 'waitlist' | 'blocked';
 
+/**
+ * User Tier (queue lane, dataset user context)
+ */
+export type UserTier = 'free' | 'beta' | 'premium' | 'enterprise';
+
 /**
  * User Document Interface
  * Tracks registered users and their access status
@@ -12,6 +17,7 @@ export type UserAccessStatus = 'active' | 'waitlist' | 'blocked';
 export interface IUser extends Document {
   subscriberId: string;        // ManyChat subscriber_id
   accessStatus: UserAccessStatus;
+  tier?: UserTier;             // Paid tier; unset = derived from accessStatus
   registrationNumber: number;  // What number user they are (1-100 = active)
   email?: string;              // Optional for waitlist notifications
   name?: string;               // From ManyChat if available
@@ -34,6 +40,10 @@ const UserSchema = new Schema<IUser>({
     default: 'waitlist',
     index: true
   },
+  tier: {
+    type: String,
+    enum: ['free', 'beta', 'premium', 'enterprise']
+  },
   registrationNumber: {
     type: Number,
     index: true
@@ -53,3 +63,11 @@ const UserSchema = new Schema<IUser>({
 UserSchema.index({ subscriberId: 1, accessStatus: 1 });
 
 export const User = mongoose.model<IUser>('User', UserSchema);
+
+/**
+ * Effective tier: the stored tier, else every admitted user is a beta user
+ */
+export function resolveUserTier(user?: Pick<IUser, 'tier' | 'accessStatus'> | null): UserTier {
+  if (user?.tier) return user.tier;
+  return user?.accessStatus === 'active' ? 'beta' : 'free';
+}
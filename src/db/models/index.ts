@@ -1,8 +1,8 @@
 // Export all models
-export { Script, IScript } from './Script';
+export { Script, IScript, RevisionType, ScriptRevision } from './Script';
 export { Job, IJob, JobStatus } from './Job';
 export { DatasetEntry, IDatasetEntry } from './Dataset';
-export { User, IUser, UserAccessStatus } from './User';
+export { User, IUser, UserAccessStatus, UserTier, resolveUserTier } from './User';
 export { ReelDNA, IReelDNA } from './ReelDNA';
 
 // V2 Enhanced Models
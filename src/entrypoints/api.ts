@@ -0,0 +1,7 @@
+import { bootstrap } from './bootstrap';
+
+/**
+ * API node entrypoint - HTTP server only, jobs run on worker nodes
+ * (same as index.ts with APP_ROLE=api)
+ */
+bootstrap('api');
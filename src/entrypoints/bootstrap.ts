@@ -0,0 +1,187 @@
+import { Server } from 'http';
+import fs from 'fs';
+import path from 'path';
+import { createServer, createWorkerHealthServer } from '../server';
+import { connectDB, disconnectDB } from '../db';
+import { connectRedis, disconnectRedis, closeQueue, closeDeadLetterQueue, startWorker, stopWorker, initializeQueue, LANE_POOLS, WORKER_ID } from '../queue';
+import { initRateLimiter } from '../middleware';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * Application Bootstrap
+ *
+ * One codebase, three process roles (APP_ROLE):
+ * - api:    HTTP API only - enqueues jobs, never runs them
+ * - worker: BullMQ workers only (ffmpeg + Gemini), plus a health server on PORT
+ * - both:   API and workers in one process (default, single-node deployments)
+ *
+ * API and worker nodes share MongoDB and Redis, so they scale independently.
+ */
+
+export type AppRole = 'api' | 'worker' | 'both';
+
+const runsApi = (role: AppRole) => role === 'api' || role === 'both';
+const runsWorkers = (role: AppRole) => role === 'worker' || role === 'both';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENVIRONMENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+function prepareTempDir(): void {
+  const tempDir = path.join(process.cwd(), 'temp');
+  if (!fs.existsSync(tempDir)) {
+    fs.mkdirSync(tempDir);
+  }
+}
+
+/**
+ * Initialize Instagram cookies from environment variable (for Docker deployments)
+ * Only workers download reels
+ */
+function prepareCookies(): void {
+  const COOKIES_PATH = config.INSTAGRAM_COOKIES_PATH;
+  if (process.env.INSTAGRAM_COOKIES) {
+    try {
+      // Ensure cookies directory exists
+      const cookiesDir = path.dirname(COOKIES_PATH);
+      if (!fs.existsSync(cookiesDir)) {
+        fs.mkdirSync(cookiesDir, { recursive: true });
+      }
+      fs.writeFileSync(COOKIES_PATH, process.env.INSTAGRAM_COOKIES, 'utf-8');
+      logger.info('Successfully initialized cookies from ENV');
+      logger.info(`Instagram cookies initialized at ${COOKIES_PATH}`);
+    } catch (err) {
+      logger.error('Failed to write Instagram cookies from ENV:', err);
+    }
+  } else {
+    logger.info(`Using cookies path from config: ${COOKIES_PATH}`);
+    if (!fs.existsSync(COOKIES_PATH)) {
+      logger.warn(`Instagram cookies file not found at ${COOKIES_PATH} - Instagram downloads may fail`);
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BOOTSTRAP
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Initialize the services a role needs, in order, and handle graceful shutdown
+ */
+export async function bootstrap(role: AppRole): Promise<void> {
+  try {
+    logger.info(`Starting ScriptFlow (role: ${role})...`);
+
+    // 0. Local filesystem (temp dir for uploads and downloads)
+    prepareTempDir();
+    if (runsWorkers(role)) {
+      prepareCookies();
+    }
+
+    // 1. Connect to MongoDB
+    logger.info('Connecting to MongoDB...');
+    await connectDB();
+
+    // 2. Connect to Redis
+    logger.info('Connecting to Redis...');
+    await connectRedis();
+
+    // 2.5 Initialize rate limiter (after Redis is ready)
+    if (runsApi(role)) {
+      logger.info('Initializing rate limiter...');
+      initRateLimiter();
+    }
+
+    // 3. Initialize BullMQ Queue (after Redis is connected)
+    // Workers need it too: they enqueue follow-up jobs (quality scoring)
+    logger.info('Initializing job queue...');
+    initializeQueue();
+
+    // 4. Start BullMQ Workers
+    if (runsWorkers(role)) {
+      logger.info('Starting job workers...');
+      startWorker(role);
+    }
+
+    // 5. Create and start the HTTP server (API, or health checks on worker nodes)
+    const app = runsApi(role) ? createServer() : createWorkerHealthServer();
+    const PORT = config.PORT;
+
+    const server: Server = app.listen(PORT, () => {
+      if (runsApi(role)) {
+        logger.info(`✅ Server listening on port ${PORT}`);
+      } else {
+        logger.info(`✅ Worker health server listening on port ${PORT}`);
+      }
+      logger.info(`✅ Environment: ${config.NODE_ENV}`);
+      if (runsWorkers(role)) {
+        logger.info(`✅ Worker ID: ${WORKER_ID}`);
+        logger.info(`✅ Queue lanes: ${LANE_POOLS.map(pool => `${pool.lanes.join('/')} x${pool.policy.concurrency} (${pool.policy.maxPerMinute}/min)`).join(', ')}`);
+      }
+      if (runsApi(role)) {
+        logger.info(`✅ Rate limit: ${config.RATE_LIMIT_MAX} requests / 15 min`);
+      }
+    });
+
+    // 6. Graceful Shutdown Handler
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      logger.info(`${signal} received. Starting graceful shutdown...`);
+
+      // Stop accepting new connections
+      server.close(() => {
+        logger.info('HTTP server closed');
+      });
+
+      try {
+        // Stop the workers (finish current jobs, drop the heartbeat)
+        if (runsWorkers(role)) {
+          logger.info('Stopping workers...');
+          await stopWorker();
+        }
+
+        // Close queue connections
+        logger.info('Closing queue...');
+        await closeQueue();
+        await closeDeadLetterQueue();
+
+        // Disconnect Redis
+        logger.info('Disconnecting Redis...');
+        await disconnectRedis();
+
+        // Disconnect MongoDB
+        logger.info('Disconnecting MongoDB...');
+        await disconnectDB();
+
+        logger.info('✅ Graceful shutdown completed');
+        process.exit(0);
+
+      } catch (err) {
+        logger.error('Error during shutdown:', err);
+        process.exit(1);
+      }
+    };
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
+
+    // Handle uncaught errors
+    process.on('uncaughtException', (err) => {
+      logger.error('Uncaught Exception:', err);
+      shutdown('UNCAUGHT_EXCEPTION');
+    });
+
+    process.on('unhandledRejection', (reason, promise) => {
+      logger.error('Unhandled Rejection at promise:', { reason: String(reason) });
+      // Don't shutdown on unhandled rejection - just log it
+      // Node.js 15+ will crash by default anyway if --unhandled-rejections=strict
+    });
+
+  } catch (error) {
+    logger.error('Failed to start application:', error);
+    process.exit(1);
+  }
+}
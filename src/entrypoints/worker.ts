@@ -0,0 +1,7 @@
+import { bootstrap } from './bootstrap';
+
+/**
+ * Worker node entrypoint - BullMQ workers plus a health server on PORT
+ * (same as index.ts with APP_ROLE=worker)
+ */
+bootstrap('worker');
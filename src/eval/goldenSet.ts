@@ -0,0 +1,105 @@
+/**
+ * Golden set - fixed reel analyses + ideas for offline evaluation
+ *
+ * Each case is a ReelDNA-shaped analysis (what the worker would have cached)
+ * plus the request a user sent. Cases cover the main niches, tone and
+ * language hints and hook-only mode. Never edit a case in place: reports
+ * compare runs per case ID, so change the ID when the inputs change.
+ *
+ * A larger set can be snapshotted from the ReelDNA cache:
+ *   npm run eval -- snapshot --limit 25   (→ eval-runs/golden.jsonl)
+ */
+
+import type { VideoAnalysis } from '../services/videoAnalyzer';
+import type { GenerationMode, ToneHint } from '../services/scriptGenerator';
+
+export interface GoldenCase {
+  id: string;
+  userIdea: string;
+  analysis: VideoAnalysis;
+  toneHint?: ToneHint;
+  languageHint?: string;
+  mode?: GenerationMode;
+}
+
+export const GOLDEN_SET: GoldenCase[] = [
+  {
+    id: 'fitness-mistakes-v1',
+    userIdea: '3 mistakes beginners make when meal prepping',
+    analysis: {
+      transcript: 'Stop doing crunches. Seriously. If you want abs, crunches are the least efficient thing you can do. Here are three moves that actually work. One, dead bugs. Two, hanging knee raises. Three, walking. Yes, walking. Follow for the full routine.',
+      visualCues: ['Trainer points at camera', 'Text overlay: STOP', 'Gym floor demo of each move', 'Counting on fingers'],
+      hookType: 'Negative command',
+      tone: 'High Energy',
+      sceneDescriptions: ['Close-up, trainer shakes head', 'Wide shot demonstrating dead bugs', 'Hanging bar demo', 'Outdoor walking clip', 'Close-up CTA'],
+      shots: [
+        { startSec: 0, endSec: 2.1 },
+        { startSec: 2.1, endSec: 6.4 },
+        { startSec: 6.4, endSec: 10.2 },
+        { startSec: 10.2, endSec: 14.8 },
+        { startSec: 14.8, endSec: 17.5 },
+      ],
+    },
+  },
+  {
+    id: 'finance-story-v1',
+    userIdea: 'How I saved my first 1 lakh rupees on a fresher salary',
+    analysis: {
+      transcript: 'At 22 I had zero savings and a credit card bill I was scared to open. Two years later I have six months of expenses in the bank. The only thing that changed was this rule: pay yourself first, the day salary lands.',
+      visualCues: ['Person holding phone with banking app', 'Text overlay: 0 → 6 MONTHS', 'Handwritten budget on notebook'],
+      hookType: 'Personal story',
+      tone: 'Conversational',
+      sceneDescriptions: ['Talking head in bedroom', 'B-roll of notebook budget', 'Phone screen recording', 'Talking head close-up'],
+    },
+    toneHint: 'educational',
+  },
+  {
+    id: 'food-hinglish-v1',
+    userIdea: 'Street style maggi at home in 5 minutes',
+    analysis: {
+      transcript: 'Bhai ye maggi ka hack aapko kisi ne nahi bataya hoga. Bas ek chamach butter aur thoda sa chaat masala, and boom, street wali taste ghar pe.',
+      visualCues: ['Overhead pan shot', 'Butter melting close-up', 'Text overlay: SECRET HACK', 'Steam rising from bowl'],
+      hookType: 'Secret reveal',
+      tone: 'Casual',
+      sceneDescriptions: ['Overhead kitchen setup', 'Close-up of butter in pan', 'Adding masala', 'Final bowl hero shot'],
+    },
+    languageHint: 'Hinglish',
+  },
+  {
+    id: 'tech-question-v1',
+    userIdea: 'Why your phone battery dies so fast',
+    analysis: {
+      transcript: 'Why does your phone die by 3pm? It is not the battery. It is these two settings Apple turns on by default. Turn them off and you get back almost two hours.',
+      visualCues: ['Phone showing 5% battery', 'Settings screen recording', 'Text overlay: 2 SETTINGS'],
+      hookType: 'Question',
+      tone: 'Educational',
+      sceneDescriptions: ['Hand holding phone at low battery', 'Screen recording of settings menu', 'Talking head reaction'],
+    },
+  },
+  {
+    id: 'business-hook-only-v1',
+    userIdea: 'The cold email template that got me 10 clients',
+    analysis: {
+      transcript: 'This four line email got me ten clients in one month. No portfolio, no referrals. Just this.',
+      visualCues: ['Laptop screen with email draft', 'Text overlay: 4 LINES = 10 CLIENTS'],
+      hookType: 'Result first',
+      tone: 'Provocative',
+      sceneDescriptions: ['Screen recording of email', 'Talking head with laptop'],
+    },
+    mode: 'hook_only',
+  },
+  {
+    id: 'no-transcript-visual-v1',
+    userIdea: 'Morning routine for people who hate mornings',
+    analysis: {
+      transcript: null,
+      visualCues: ['Alarm clock snoozed repeatedly', 'Text overlay: ME AT 6AM', 'Fast cuts of coffee, shower, stretching'],
+      hookType: 'Relatable humor',
+      tone: 'Funny',
+      sceneDescriptions: ['Dark bedroom, alarm ringing', 'Hand slamming snooze', 'Quick montage of routine', 'Person smiling at window'],
+    },
+    toneHint: 'funny',
+  },
+];
+
+export default GOLDEN_SET;
@@ -18,6 +18,7 @@ export {
   checkUserBlocked,
   createUserRateLimiter,
   getUserRateLimitStatus,
+  refundUserRateLimit,
   blockUser,
   unblockUser,
   isUserBlocked
@@ -31,3 +32,5 @@ export {
   getWaitlist,
   promoteNextFromWaitlist
 } from './betaAccess';
+
+export { videoUploadMiddleware, uploadSubscriberPrecheck } from './upload';
@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Multipart Video Upload
+ *
+ * Receives a single `video` file into temp/ and populates req.body with the
+ * text fields.
+ *
+ * Access checks (beta access, blocking, user rate limit) must run BEFORE the
+ * file is streamed to disk, but multipart fields only arrive with it - so
+ * callers also send subscriber_id in the query string or X-Subscriber-Id
+ * header, and uploadSubscriberPrecheck puts it on req.body for those checks.
+ *
+ * The temp file is removed when the response finishes or the connection
+ * closes - handlers that keep the video move it out of temp/ first
+ * (see services/videoUpload).
+ */
+
+const ACCEPTED_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/webm', 'video/x-m4v'];
+
+const videoUpload = multer({
+  dest: path.join(process.cwd(), 'temp', 'uploads'),
+  limits: {
+    fileSize: config.UPLOAD_MAX_BYTES,
+    files: 1,
+    fields: 10,
+  },
+  fileFilter: (req, file, cb) => {
+    if (ACCEPTED_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+    }
+  },
+}).single('video');
+
+/**
+ * Runs before the access middleware: subscriber_id from the query string or
+ * X-Subscriber-Id header, so rejected callers never upload anything
+ */
+export const uploadSubscriberPrecheck = (req: Request, res: Response, next: NextFunction) => {
+  const raw = req.query.subscriber_id ?? req.header('x-subscriber-id');
+  const subscriberId = typeof raw === 'string' ? raw.trim() : '';
+
+  if (!/^[0-9]{1,50}$/.test(subscriberId)) {
+    return res.status(400).json({
+      status: 'error',
+      code: 'MISSING_SUBSCRIBER_ID',
+      message: 'A numeric subscriber_id is required in the query string or X-Subscriber-Id header'
+    });
+  }
+
+  req.body = { subscriber_id: subscriberId };
+  res.locals.uploadSubscriberId = subscriberId;
+  next();
+};
+
+export const videoUploadMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  // Always drop the temp file, whatever the outcome (incl. aborted requests)
+  let cleaned = false;
+  const cleanup = () => {
+    if (cleaned) return;
+    cleaned = true;
+    if (req.file?.path) {
+      fs.promises.unlink(req.file.path).catch(() => {});
+    }
+  };
+  res.on('finish', cleanup);
+  res.on('close', cleanup);
+
+  videoUpload(req, res, (err: any) => {
+    if (!err) {
+      // Multer replaced req.body: keep the subscriber the access checks ran for
+      const checked = res.locals.uploadSubscriberId as string | undefined;
+      if (checked) {
+        if (req.body.subscriber_id && String(req.body.subscriber_id) !== checked) {
+          return res.status(400).json({
+            status: 'error',
+            code: 'SUBSCRIBER_MISMATCH',
+            message: 'subscriber_id in the form does not match the query string / header'
+          });
+        }
+        req.body.subscriber_id = checked;
+      }
+      return next();
+    }
+
+    if (err instanceof multer.MulterError) {
+      logger.warn(`Upload rejected (${err.code}) from ${req.ip}`);
+
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+          status: 'error',
+          code: 'FILE_TOO_LARGE',
+          message: `Video is too large (max ${Math.round(config.UPLOAD_MAX_BYTES / 1024 / 1024)}MB)`
+        });
+      }
+
+      if (err.code === 'LIMIT_UNEXPECTED_FILE') {
+        return res.status(415).json({
+          status: 'error',
+          code: 'UNSUPPORTED_FILE',
+          message: 'Upload one video file (mp4, mov or webm) in the "video" field'
+        });
+      }
+
+      return res.status(400).json({
+        status: 'error',
+        code: 'INVALID_UPLOAD',
+        message: err.message
+      });
+    }
+
+    next(err);
+  });
+};
@@ -136,6 +136,31 @@ export async function getUserRateLimitStatus(subscriberId: string, config: Parti
   }
 }
 
+// Decrement only while the counter is above zero (DECR keeps the window TTL)
+const REFUND_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count > 0 then
+  return redis.call('DECR', KEYS[1])
+end
+return -1
+`;
+
+/**
+ * Give a request back to the user (e.g. they cancelled the job it paid for)
+ * Returns false when there was nothing to refund (window already expired)
+ */
+export async function refundUserRateLimit(subscriberId: string, config: Partial<UserRateLimitConfig> = {}): Promise<boolean> {
+  const { keyPrefix } = { ...DEFAULT_CONFIG, ...config };
+  const key = `${keyPrefix}${subscriberId}`;
+  const redis = getRedis();
+
+  const remaining = await redis.eval(REFUND_SCRIPT, 1, key) as number;
+  if (remaining < 0) return false;
+
+  logger.info(`Rate limit slot refunded: ${subscriberId} (now ${remaining})`);
+  return true;
+}
+
 /**
  * Manually block a specific user
  */
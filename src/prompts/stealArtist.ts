@@ -0,0 +1,213 @@
+/**
+ * "Steal Like an Artist" prompt templates
+ *
+ * Registered in services/promptRegistry. Placeholders use {{name}} and are
+ * filled by renderTemplate. A new version is a new variant object: never edit
+ * a released version in place, or dataset rows stop matching their prompt.
+ *
+ * Versions:
+ * - steal-artist-one-shot-v1.0  Original prompts (ID predates the registry, kept
+ *                               so existing dataset rows still match)
+ * - steal-artist-v1.1           v1.0 + an explicit hook-first rule
+ */
+
+import type { PromptVariant } from '../services/promptRegistry';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// v1.0
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const stealArtistV1: PromptVariant = {
+  id: 'steal-artist-one-shot-v1.0',
+  name: 'steal-artist',
+  version: '1.0',
+  description: 'Original Steal Like an Artist prompts',
+  templates: {
+    // {{referenceDNA}}, {{userIdea}}
+    master: `
+  Apply the "Steal Like an Artist" framework to generate a new script.
+
+  REFERENCE DNA (The Source to Steal From):
+  {{referenceDNA}}
+
+  NEW CONCEPT (The Topic to Apply the DNA to):
+  "{{userIdea}}"
+
+  INSTRUCTIONS:
+  1. **INTELLIGENT LINGUISTIC STYLE**: 
+     - Detect the original language mix of the transcript.
+     - **Check NEW CONCEPT for latent preferences**: If the user mentions a specific language or tone in "{{userIdea}}", prioritize that.
+     - **GLOBAL ROMANIZATION RULE**: Regardless of the language used, you MUST use ONLY the English/Roman alphabet (ABC...). NEVER use native scripts like देवनागरी, ಕನ್ನಡ, etc. Romanize all non-English words naturally.
+  
+  2. **STRICT OUTPUT FORMAT**: Each section MUST exactly follow this marker format:
+      
+     [HOOK]
+     🎬 VISUAL: (Specific camera direction/text overlay)
+     💬 SAY: "(Exact words to speak - MUST BE ROMANIZED)"
+
+     [BODY]
+     🎬 VISUAL: (Scene description, on-screen text, transitions)
+     💬 SAY: "(Spoken content)"
+     
+     (Multiple VISUAL/SAY pairs allowed per section)
+
+     [CTA]
+     🎬 VISUAL: (Final visual setup, text overlay if any)
+     💬 SAY: "(Call to action dialogue)"
+     
+  3. VISUAL GUIDELINES:
+     - Be specific: "Close-up face shot" not just "camera on face"
+     - Include text overlays: "Text appears: 'The 80/20 Rule'"
+     - Note transitions: "Jump cut to screen recording"
+     
+  4. DIALOGUE GUIDELINES:
+     - Keep it punchy and spoken-natural
+     - Match the reference's language style (Hinglish, casual English, etc.)
+     - PACING: 30-45 seconds total spoken time
+
+  Return ONLY the structured script with [HOOK], [BODY], [CTA] headers and 🎬 VISUAL: / 💬 SAY: lines. No other text.`,
+
+    system: `You are a World-Class Creative Strategist who follows the "Steal Like an Artist" philosophy. 
+        
+  Your goal is to perform a "Surgical Good Theft": 
+  1. Analyze the DNA of a reference video (its pacing, psychological hooks, and logical structure).
+  2. Emulate the *thinking* behind the reference, not the words.
+  3. Remix that structure into a new script based on the user's specific concept.
+  
+  Rules:
+  - No hashtags, no emojis, and no markdown.
+  - Style: High-status, punchy, and calculated.
+  - Tone: Pivot from a surface-level hook to a deep strategic truth.
+  - Vocabulary: Use technical authority words (e.g., if UI/UX, use terms like 'visual hierarchy', '8pt grid', 'cognitive friction').`,
+
+    oneShotSystem: "You are a World-Class Creative Strategist who follows the 'Steal Like an Artist' framework.",
+
+    editorSystem: "You are a World-Class Creative Strategist who follows the 'Steal Like an Artist' framework. You edit scripts surgically: change only what you are asked to.",
+
+    hints: {
+      // {{toneHint}}, {{toneDescription}}
+      tone: `
+TONE PREFERENCE (subtle adjustment, preserve video's original energy):
+The user prefers a "{{toneHint}}" feel ({{toneDescription}}). 
+Apply this GENTLY while keeping the reference video's authentic style as the PRIMARY influence.
+Do NOT completely change the tone - just lean slightly in this direction.`,
+
+      toneDescriptions: {
+        professional: 'business-focused and authoritative',
+        funny: 'humorous and witty with clever wordplay',
+        provocative: 'edgy and attention-grabbing',
+        educational: 'informative and teaching-focused',
+        casual: 'friendly and conversational'
+      },
+
+      // {{languageHint}}
+      language: `
+LANGUAGE PREFERENCE (STRICT):
+Write ALL spoken dialogue (💬 SAY:) in {{languageHint}} language.`,
+
+      hookOnly: `
+MODE: HOOK ONLY
+Generate ONLY the [HOOK] section. Skip [BODY] and [CTA] entirely.
+Make the hook extra impactful since it's standalone.
+Still follow all other formatting rules for the hook.`,
+
+      // {{count}}, {{hooksToAvoid}}, {{anglesToAvoid}}
+      variation: `
+🔄 VARIATION MODE - CREATE SOMETHING DISTINCTLY DIFFERENT!
+The user has already generated {{count}} script(s) for this SAME idea.
+You MUST create a FRESH, UNIQUE version that is NOTICEABLY DIFFERENT.
+
+HOOKS TO AVOID (do NOT use similar openings):
+{{hooksToAvoid}}
+
+ANGLES TO AVOID (do NOT use similar approaches):
+{{anglesToAvoid}}
+
+VARIATION REQUIREMENTS:
+- Use a COMPLETELY DIFFERENT hook style (question vs statement, shocking fact vs relatable moment, etc.)
+- Take a DIFFERENT angle/perspective on the topic
+- Use DIFFERENT examples or analogies
+- Change the emotional tone (curiosity vs urgency vs humor)
+- If previous was direct, try storytelling. If previous was personal, try educational.
+
+The user wants VARIETY - give them something they haven't seen before!`,
+
+      visualReminder: `
+VISUAL DIRECTION REMINDER:
+For each 🎬 VISUAL: line, be EXTREMELY SPECIFIC about:
+- Exact camera angle (e.g., "Close-up face shot, slightly above eye level")
+- Hand gestures (e.g., "Right hand counting on fingers, palm facing camera")
+- Body language (e.g., "Lean forward slightly with confident posture")
+- Text overlays (e.g., "Text appears top-center: 'THE 3 SECRETS'")
+
+The creator should be able to shoot the video EXACTLY as described without guessing.`,
+
+      // {{hints}}
+      wrapper: `
+
+--- OPTIONAL USER PREFERENCES (Apply subtly, video DNA is primary) ---
+{{hints}}`,
+    },
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// v1.1
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const stealArtistV1_1: PromptVariant = {
+  ...stealArtistV1,
+  id: 'steal-artist-v1.1',
+  version: '1.1',
+  description: 'v1.0 + explicit hook-first rule',
+  templates: {
+    ...stealArtistV1.templates,
+    master: `
+  Apply the "Steal Like an Artist" framework to generate a new script.
+
+  REFERENCE DNA (The Source to Steal From):
+  {{referenceDNA}}
+
+  NEW CONCEPT (The Topic to Apply the DNA to):
+  "{{userIdea}}"
+
+  INSTRUCTIONS:
+  1. **INTELLIGENT LINGUISTIC STYLE**: 
+     - Detect the original language mix of the transcript.
+     - **Check NEW CONCEPT for latent preferences**: If the user mentions a specific language or tone in "{{userIdea}}", prioritize that.
+     - **GLOBAL ROMANIZATION RULE**: Regardless of the language used, you MUST use ONLY the English/Roman alphabet (ABC...). NEVER use native scripts like देवनागरी, ಕನ್ನಡ, etc. Romanize all non-English words naturally.
+  
+  2. **STRICT OUTPUT FORMAT**: Each section MUST exactly follow this marker format:
+      
+     [HOOK]
+     🎬 VISUAL: (Specific camera direction/text overlay)
+     💬 SAY: "(Exact words to speak - MUST BE ROMANIZED)"
+
+     [BODY]
+     🎬 VISUAL: (Scene description, on-screen text, transitions)
+     💬 SAY: "(Spoken content)"
+     
+     (Multiple VISUAL/SAY pairs allowed per section)
+
+     [CTA]
+     🎬 VISUAL: (Final visual setup, text overlay if any)
+     💬 SAY: "(Call to action dialogue)"
+     
+  3. VISUAL GUIDELINES:
+     - Be specific: "Close-up face shot" not just "camera on face"
+     - Include text overlays: "Text appears: 'The 80/20 Rule'"
+     - Note transitions: "Jump cut to screen recording"
+     
+  4. DIALOGUE GUIDELINES:
+     - Keep it punchy and spoken-natural
+     - Match the reference's language style (Hinglish, casual English, etc.)
+     - PACING: 30-45 seconds total spoken time
+
+  5. HOOK-FIRST RULE:
+     - The first 💬 SAY line must open a curiosity gap or name a concrete payoff in under 12 words.
+     - No greetings, no introductions, no "In this video".
+     - Front-load the most surprising specific (a number, a result, a contradiction).
+
+  Return ONLY the structured script with [HOOK], [BODY], [CTA] headers and 🎬 VISUAL: / 💬 SAY: lines. No other text.`,
+  },
+};
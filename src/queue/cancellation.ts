@@ -0,0 +1,190 @@
+import { UnrecoverableError } from 'bullmq';
+import { Redis } from 'ioredis';
+import { getRedis } from './redis';
+import { findQueueJob } from './scriptQueue';
+import { Job } from '../db/models';
+import { JobStatus } from '../db/models/Job';
+import { refundUserRateLimit } from '../middleware/userRateLimiter';
+import { logger } from '../utils/logger';
+
+/**
+ * User-initiated job cancellation
+ *
+ * - Waiting jobs are removed from BullMQ before a worker picks them up.
+ * - Running generation jobs are signalled over a Redis pub/sub channel: every
+ *   worker process listens, and the one running the job aborts its
+ *   AbortController, so the current pipeline stage stops and no later stage runs.
+ *
+ * Either way the Job record becomes 'cancelled' and the user gets the
+ * rate-limit slot back. Cancelled jobs are never retried or dead-lettered.
+ *
+ * Once a generation job commits (persist starts, see commitJob) it can no
+ * longer be cancelled: the script is saved and about to be delivered.
+ */
+
+export const CANCEL_CHANNEL = 'scriptflow:job-cancel';
+
+// failedReason of a job aborted by the user (QueueEvents → SSE stream)
+export const CANCELLED_REASON = 'Cancelled by user';
+
+// BullMQ states of jobs no worker has picked up yet
+const PENDING_STATES = ['waiting', 'delayed', 'prioritized', 'waiting-children'];
+
+/**
+ * Abort reason of a cancelled job. Unrecoverable, so BullMQ does not retry it.
+ */
+export class JobCancelledError extends UnrecoverableError {
+  public readonly jobId: string;
+
+  constructor(jobId: string) {
+    super(CANCELLED_REASON);
+    this.name = 'JobCancelledError';
+    this.jobId = jobId;
+  }
+}
+
+export interface CancelOutcome {
+  jobId: string;
+  cancelled: boolean;
+  /** Status before cancelling: queued jobs were removed, processing ones signalled */
+  previousStatus?: JobStatus;
+  /** Why it was not cancelled */
+  skipped?: 'not_found' | 'finished' | 'not_cancellable';
+  error?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WORKER SIDE
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Jobs running in this process
+const runningJobs = new Map<string, AbortController>();
+let subscriber: Redis | null = null;
+
+/**
+ * Track a job this process started; its signal aborts on cancellation
+ */
+export function registerRunningJob(jobId: string): AbortController {
+  const controller = new AbortController();
+  runningJobs.set(jobId, controller);
+  return controller;
+}
+
+export function unregisterRunningJob(jobId: string): void {
+  runningJobs.delete(jobId);
+}
+
+/**
+ * Subscribe to cancel requests (call when the worker starts).
+ * Needs its own connection - a subscribed Redis client can't run commands.
+ */
+export async function startCancelListener(): Promise<void> {
+  if (subscriber) return;
+
+  subscriber = getRedis().duplicate();
+  subscriber.on('message', (channel: string, jobId: string) => {
+    if (channel !== CANCEL_CHANNEL) return;
+
+    const controller = runningJobs.get(jobId);
+    if (controller && !controller.signal.aborted) {
+      logger.info(`[${jobId}] Cancel requested, aborting`);
+      controller.abort(new JobCancelledError(jobId));
+    }
+  });
+  subscriber.on('error', (error: Error) => {
+    logger.error('Cancel listener Redis error:', error.message);
+  });
+
+  await subscriber.subscribe(CANCEL_CHANNEL);
+  logger.info('✅ Job cancel listener subscribed');
+}
+
+export async function stopCancelListener(): Promise<void> {
+  if (subscriber) {
+    await subscriber.quit();
+    subscriber = null;
+  }
+}
+
+/**
+ * Point of no return for a generation job (call before persist).
+ * Throws JobCancelledError when the job was cancelled first; after this,
+ * cancelJob answers not_cancellable.
+ */
+export async function commitJob(jobId: string): Promise<void> {
+  const committed = await Job.updateOne(
+    { jobId, status: 'processing' },
+    { $set: { 'pipeline.committedAt': new Date() } }
+  );
+  if (committed.matchedCount === 0 && await Job.exists({ jobId, status: 'cancelled' })) {
+    throw new JobCancelledError(jobId);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CANCEL
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Cancel a queued or processing job.
+ * With subscriberId, only that user's job can be cancelled (others read as not found).
+ */
+export async function cancelJob(jobId: string, subscriberId?: string): Promise<CancelOutcome> {
+  const record = await Job.findOne({ jobId }, { subscriberId: 1, status: 1, 'pipeline.committedAt': 1 }).lean();
+  if (!record || (subscriberId && record.subscriberId !== subscriberId)) {
+    return { jobId, cancelled: false, skipped: 'not_found', error: 'Job not found' };
+  }
+  if (record.status !== 'queued' && record.status !== 'processing') {
+    return { jobId, cancelled: false, skipped: 'finished', error: `Job is already ${record.status}` };
+  }
+
+  if (record.pipeline?.committedAt) {
+    return { jobId, cancelled: false, skipped: 'not_cancellable', error: 'Script is already being delivered' };
+  }
+
+  const queueJob = await findQueueJob(jobId);
+  const state = queueJob ? await queueJob.getState() : 'unknown';
+  if (state === 'completed' || state === 'failed') {
+    return { jobId, cancelled: false, skipped: 'finished', error: `Job is already ${state}` };
+  }
+  // Only generation jobs check for cancellation while running
+  if (state === 'active' && queueJob?.name !== 'generate') {
+    return { jobId, cancelled: false, skipped: 'not_cancellable', error: 'Job is already running and cannot be stopped' };
+  }
+
+  // Claim first: a worker that picks the job up from here on sees 'cancelled'
+  const claimed = await Job.updateOne(
+    { jobId, status: { $in: ['queued', 'processing'] }, 'pipeline.committedAt': { $exists: false } },
+    { $set: { status: 'cancelled', completedAt: new Date() } }
+  );
+  if (claimed.modifiedCount === 0) {
+    const current = await Job.findOne({ jobId }, { status: 1, 'pipeline.committedAt': 1 }).lean();
+    if (current?.status === 'processing' && current.pipeline?.committedAt) {
+      return { jobId, cancelled: false, skipped: 'not_cancellable', error: 'Script is already being delivered' };
+    }
+    return { jobId, cancelled: false, skipped: 'finished', error: 'Job already finished' };
+  }
+
+  let removed = false;
+  if (queueJob && PENDING_STATES.includes(state)) {
+    try {
+      await queueJob.remove();
+      removed = true;
+    } catch (error: any) {
+      // Picked up in the meantime (locked by a worker) - signal it instead
+      logger.warn(`[${jobId}] Could not remove queued job, signalling instead: ${error.message}`);
+    }
+  }
+  if (!removed) {
+    await getRedis().publish(CANCEL_CHANNEL, jobId);
+  }
+
+  try {
+    await refundUserRateLimit(record.subscriberId);
+  } catch (error: any) {
+    logger.warn(`[${jobId}] Non-critical: Failed to refund rate limit: ${error.message}`);
+  }
+
+  logger.info(`[${jobId}] Job cancelled (${removed ? 'removed from queue' : 'running job signalled'})`);
+  return { jobId, cancelled: true, previousStatus: record.status };
+}
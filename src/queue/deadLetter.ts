@@ -0,0 +1,255 @@
+import { Queue, Job as BullJob } from 'bullmq';
+import { getRedis } from './redis';
+import { getQueue, laneForQueueName, QUEUE_NAME } from './scriptQueue';
+import { StageTimeoutError } from './pipeline';
+import { Job } from '../db/models';
+import { IJobAttemptRecord } from '../db/models/Job';
+import { CircuitOpenError } from '../utils/circuitBreaker';
+import { logger } from '../utils/logger';
+
+/**
+ * Dead-letter queue for permanently failed jobs
+ *
+ * When a job fails its last attempt, the worker copies it here with its full
+ * job data, error classification and attempt history. Nothing consumes this
+ * queue: entries wait until an admin replays them (e.g. after an open Gemini
+ * circuit or expired Instagram cookies) via api/deadLetter.ts.
+ *
+ * Replay re-adds the job under its original ID, so the Job record, status
+ * polling and pipeline checkpoints (a generation job resumes after its last
+ * completed stage) all carry over.
+ */
+
+export const DLQ_NAME = `${QUEUE_NAME}-dlq`;
+
+export const JOB_ERROR_TYPES = ['timeout', 'circuit_open', 'download', 'api', 'unknown'] as const;
+export type JobErrorType = typeof JOB_ERROR_TYPES[number];
+
+/**
+ * Dead-letter entry (job data of the DLQ job, whose ID is the original job ID)
+ */
+export interface DeadLetterData {
+  jobId: string;
+  jobName: string;
+  queueName: string;
+  data: Record<string, any>;
+  /** Original priority (score jobs run at low priority) */
+  priority?: number;
+  errorType: JobErrorType;
+  /** Circuit breaker service for circuit_open errors */
+  service?: string;
+  failedReason: string;
+  attemptsMade: number;
+  attemptHistory: IJobAttemptRecord[];
+  failedAt: string;
+}
+
+export interface DeadLetterFilters {
+  errorType?: JobErrorType;
+  jobName?: string;
+  service?: string;
+  /** Only entries that failed at or after this date */
+  since?: Date;
+}
+
+export interface ReplayOutcome {
+  id: string;
+  replayed: boolean;
+  /** Why it was not replayed: no such entry, or the job is queued/running again */
+  skipped?: 'not_found' | 'in_progress';
+  error?: string;
+}
+
+// Entries scanned per list/bulk call (filters run in memory)
+const SCAN_LIMIT = 1000;
+
+let deadLetterQueue: Queue<DeadLetterData> | null = null;
+
+/**
+ * Get the dead-letter queue (no worker - a store for failed jobs)
+ */
+export function getDeadLetterQueue(): Queue<DeadLetterData> {
+  if (!deadLetterQueue) {
+    deadLetterQueue = new Queue<DeadLetterData>(DLQ_NAME, { connection: getRedis() });
+  }
+  return deadLetterQueue;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLASSIFICATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function classifyJobError(error: any): JobErrorType {
+  if (error instanceof StageTimeoutError) return 'timeout';
+  if (error instanceof CircuitOpenError) return 'circuit_open';
+  if (error?.message?.includes('download')) return 'download';
+  if (error?.message?.includes('Gemini') || error?.message?.includes('API')) return 'api';
+  return 'unknown';
+}
+
+/**
+ * True once BullMQ will not retry the job again
+ * (called from the worker 'failed' event, after attemptsMade was incremented)
+ */
+export function isFinalFailure(job: BullJob): boolean {
+  return job.attemptsMade >= (job.opts.attempts ?? 1) || Boolean(job.finishedOn);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Append one failed attempt to the Job record
+ */
+export async function recordFailedAttempt(job: BullJob, error: Error): Promise<void> {
+  const record: IJobAttemptRecord = {
+    attempt: job.attemptsMade,
+    errorType: classifyJobError(error),
+    error: error.message,
+    failedAt: new Date(),
+  };
+  await Job.updateOne({ jobId: job.id }, { $push: { attemptHistory: record } });
+}
+
+/**
+ * Copy a permanently failed job to the dead-letter queue
+ */
+export async function moveToDeadLetter(job: BullJob, error: Error): Promise<void> {
+  const record = await Job.findOne({ jobId: job.id }, { attemptHistory: 1 }).lean();
+  // Jobs without a Job record (copy, score) - rebuild from BullMQ's stack traces
+  const attemptHistory = record?.attemptHistory?.length
+    ? record.attemptHistory
+    : job.stacktrace.map((stack, i) => ({
+      attempt: i + 1,
+      errorType: classifyJobError(error),
+      error: stack.split('\n')[0],
+      failedAt: new Date(job.finishedOn || Date.now()),
+    }));
+
+  const entry: DeadLetterData = {
+    jobId: job.id!,
+    jobName: job.name,
+    queueName: job.queueName,
+    data: job.data,
+    priority: job.opts.priority,
+    errorType: classifyJobError(error),
+    service: error instanceof CircuitOpenError ? error.serviceName : undefined,
+    failedReason: error.message,
+    attemptsMade: job.attemptsMade,
+    attemptHistory,
+    failedAt: new Date().toISOString(),
+  };
+
+  await getDeadLetterQueue().add(job.name, entry, { jobId: job.id });
+  logger.warn(`Job ${job.id} (${job.name}) moved to dead-letter queue [${entry.errorType}]`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INSPECTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function matchesFilters(entry: DeadLetterData, filters: DeadLetterFilters): boolean {
+  if (filters.errorType && entry.errorType !== filters.errorType) return false;
+  if (filters.jobName && entry.jobName !== filters.jobName) return false;
+  if (filters.service && entry.service !== filters.service) return false;
+  if (filters.since && new Date(entry.failedAt) < filters.since) return false;
+  return true;
+}
+
+/**
+ * Newest entries first, filtered, then paginated
+ */
+export async function listDeadLetters(
+  filters: DeadLetterFilters = {},
+  offset: number = 0,
+  limit: number = 50
+): Promise<{ total: number; matched: number; entries: DeadLetterData[] }> {
+  const dlq = getDeadLetterQueue();
+  const [total, jobs] = await Promise.all([
+    dlq.getWaitingCount(),
+    dlq.getJobs(['waiting'], 0, SCAN_LIMIT - 1),
+  ]);
+
+  const matched = jobs
+    .filter((job): job is BullJob<DeadLetterData> => Boolean(job?.data))
+    .map(job => job.data)
+    .filter(entry => matchesFilters(entry, filters));
+
+  return { total, matched: matched.length, entries: matched.slice(offset, offset + limit) };
+}
+
+export async function getDeadLetterCount(): Promise<number> {
+  return getDeadLetterQueue().getWaitingCount();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPLAY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Re-queue one dead-lettered job under its original ID and drop the entry
+ */
+export async function replayDeadLetter(id: string): Promise<ReplayOutcome> {
+  const entry = await getDeadLetterQueue().getJob(id);
+  if (!entry) {
+    return { id, replayed: false, skipped: 'not_found', error: 'Not in the dead-letter queue' };
+  }
+
+  // Back to the lane it failed in (entries from before lanes existed: the free lane)
+  const { jobName, data, priority, queueName } = entry.data;
+  const queue = getQueue(laneForQueueName(queueName) ?? 'free') as Queue<any, any>;
+  const previous = await queue.getJob(id);
+  if (previous) {
+    const state = await previous.getState();
+    if (state !== 'failed' && state !== 'completed') {
+      return { id, replayed: false, skipped: 'in_progress', error: `Job is already ${state}` };
+    }
+    // Free the ID (failed jobs are kept, see removeOnFail)
+    await previous.remove();
+  }
+
+  await queue.add(jobName, data, { jobId: id, ...(priority ? { priority } : {}) });
+  await Job.updateOne(
+    { jobId: id },
+    { $set: { status: 'queued' }, $unset: { error: 1, errorStack: 1, completedAt: 1 } }
+  );
+  await entry.remove();
+
+  logger.info(`Dead-lettered job ${id} (${jobName}) replayed`);
+  return { id, replayed: true };
+}
+
+/**
+ * Replay the given IDs, or every entry matching the filters (up to limit)
+ */
+export async function replayDeadLetters(
+  selection: { ids?: string[]; filters?: DeadLetterFilters },
+  limit: number
+): Promise<ReplayOutcome[]> {
+  const ids = selection.ids
+    ? selection.ids.slice(0, limit)
+    : (await listDeadLetters(selection.filters, 0, limit)).entries.map(entry => entry.jobId);
+
+  // Sequential: keeps the burst on the main queue and Redis predictable
+  const outcomes: ReplayOutcome[] = [];
+  for (const id of ids) {
+    try {
+      outcomes.push(await replayDeadLetter(id));
+    } catch (error: any) {
+      logger.error(`Failed to replay dead-lettered job ${id}:`, error);
+      outcomes.push({ id, replayed: false, error: error.message });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Close the dead-letter queue connection
+ */
+export async function closeDeadLetterQueue(): Promise<void> {
+  if (deadLetterQueue) {
+    await deadLetterQueue.close();
+    deadLetterQueue = null;
+  }
+}
@@ -0,0 +1,171 @@
+import os from 'os';
+import { Job as BullJob } from 'bullmq';
+import { getRedis } from './redis';
+import { normalizeProgress } from './jobEvents';
+import { QueueLane, LANE_POOLS } from './lanes';
+import { logger } from '../utils/logger';
+
+/**
+ * Worker heartbeats
+ *
+ * Every process running BullMQ workers writes a short-lived Redis key
+ * (worker_heartbeat:<workerId>) with its worker pools and the jobs it is running,
+ * refreshed every HEARTBEAT_INTERVAL_MS. A worker that stops or crashes
+ * drops out once the key expires, so the API (GET /health/detailed) can
+ * list live workers without them sharing a process.
+ */
+
+const HEARTBEAT_PREFIX = 'worker_heartbeat:';
+const HEARTBEAT_INTERVAL_MS = 10000;
+// Three missed beats and the worker counts as gone
+const HEARTBEAT_TTL_MS = 30000;
+
+export interface ActiveJobInfo {
+  jobId: string;
+  name: string;
+  lane: QueueLane;
+  startedAt: string;
+  stage?: string;
+  percent?: number;
+}
+
+export interface WorkerHeartbeat {
+  workerId: string;
+  hostname: string;
+  pid: number;
+  role: string;
+  pools: { lanes: QueueLane[]; concurrency: number }[];
+  startedAt: string;
+  lastSeen: string;
+  activeJobs: ActiveJobInfo[];
+}
+
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// Jobs running in this process
+const activeJobs = new Map<string, ActiveJobInfo>();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let startedAt: Date | null = null;
+let workerRole = 'worker';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACTIVE JOB TRACKING (worker events)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function trackJobStarted(job: BullJob, lane: QueueLane): void {
+  if (!job.id) return;
+  activeJobs.set(job.id, {
+    jobId: job.id,
+    name: job.name,
+    lane,
+    startedAt: new Date().toISOString()
+  });
+}
+
+export function trackJobProgress(job: BullJob, progress: unknown): void {
+  const info = job.id ? activeJobs.get(job.id) : undefined;
+  if (!info) return;
+
+  const { stage, percent } = normalizeProgress(progress);
+  info.stage = stage;
+  info.percent = percent;
+}
+
+export function trackJobFinished(jobId: string | undefined): void {
+  if (jobId) activeJobs.delete(jobId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HEARTBEAT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * This process's heartbeat (null when no workers run here)
+ */
+export function getLocalHeartbeat(): WorkerHeartbeat | null {
+  if (!startedAt) return null;
+
+  return {
+    workerId: WORKER_ID,
+    hostname: os.hostname(),
+    pid: process.pid,
+    role: workerRole,
+    pools: LANE_POOLS.map(pool => ({ lanes: pool.lanes, concurrency: pool.policy.concurrency })),
+    startedAt: startedAt.toISOString(),
+    lastSeen: new Date().toISOString(),
+    activeJobs: [...activeJobs.values()]
+  };
+}
+
+async function beat(): Promise<void> {
+  const heartbeat = getLocalHeartbeat();
+  if (!heartbeat) return;
+
+  try {
+    await getRedis().set(`${HEARTBEAT_PREFIX}${WORKER_ID}`, JSON.stringify(heartbeat), 'PX', HEARTBEAT_TTL_MS);
+  } catch (error: any) {
+    logger.warn(`Non-critical: Failed to write worker heartbeat: ${error.message}`);
+  }
+}
+
+/**
+ * Start publishing heartbeats (call when the workers start)
+ */
+export function startHeartbeat(role: string = 'worker'): void {
+  if (heartbeatTimer) return;
+
+  workerRole = role;
+  startedAt = new Date();
+  beat();
+  heartbeatTimer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  logger.info(`✅ Worker heartbeat started (${WORKER_ID})`);
+}
+
+/**
+ * Stop publishing and remove the key, so the worker disappears right away
+ */
+export async function stopHeartbeat(): Promise<void> {
+  if (!heartbeatTimer) return;
+
+  clearInterval(heartbeatTimer);
+  heartbeatTimer = null;
+  startedAt = null;
+  activeJobs.clear();
+
+  try {
+    await getRedis().del(`${HEARTBEAT_PREFIX}${WORKER_ID}`);
+  } catch (error: any) {
+    // Expires on its own
+    logger.warn(`Non-critical: Failed to remove worker heartbeat: ${error.message}`);
+  }
+}
+
+/**
+ * Live workers across all processes, oldest first
+ */
+export async function listWorkers(): Promise<WorkerHeartbeat[]> {
+  const redis = getRedis();
+  const keys: string[] = [];
+  let cursor = '0';
+
+  do {
+    const [next, batch] = await redis.scan(cursor, 'MATCH', `${HEARTBEAT_PREFIX}*`, 'COUNT', 100);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== '0');
+
+  if (keys.length === 0) return [];
+
+  const values = await redis.mget(...keys);
+  const heartbeats: WorkerHeartbeat[] = [];
+  for (const value of values) {
+    if (!value) continue; // Expired between SCAN and MGET
+    try {
+      heartbeats.push(JSON.parse(value));
+    } catch {
+      // Skip malformed entries
+    }
+  }
+
+  return heartbeats.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
@@ -1,4 +1,9 @@
 // Queue exports
 export { getRedis, connectRedis, disconnectRedis, isRedisConnected } from './redis';
-export { scriptQueue, addScriptJob, addCopyJob, getQueueStats, closeQueue, initializeQueue, getQueue, QUEUE_NAME, ScriptJobData, ScriptJobResult, CopyJobData, CopyJobResult } from './scriptQueue';
-export { startWorker, stopWorker, worker } from './worker';
+export { addScriptJob, addCopyJob, addSectionJob, addRefineJob, getQueueStats, closeQueue, initializeQueue, getQueue, getQueueEvents, findQueueJob, getQueuePosition, laneQueueName, QUEUE_NAME, QueuePosition, ScriptJobData, ScriptJobResult, CopyJobData, CopyJobResult, SectionJobData, RefineJobData, JobStage, JobProgress } from './scriptQueue';
+export { QueueLane, QUEUE_LANES, LANE_POOLS, getUserLane } from './lanes';
+export { subscribeToJob, normalizeProgress, JobEvent } from './jobEvents';
+export { getDeadLetterCount, closeDeadLetterQueue, DLQ_NAME } from './deadLetter';
+export { cancelJob, JobCancelledError, CancelOutcome } from './cancellation';
+export { listWorkers, getLocalHeartbeat, WorkerHeartbeat, ActiveJobInfo, WORKER_ID } from './heartbeat';
+export { startWorker, stopWorker, workers } from './worker';
@@ -0,0 +1,106 @@
+import { getAllQueueEvents, JobProgress } from './scriptQueue';
+import { CANCELLED_REASON } from './cancellation';
+import { Job } from '../db/models';
+import { logger } from '../utils/logger';
+
+/**
+ * Per-job fan-out of BullMQ QueueEvents (for the SSE progress stream)
+ *
+ * One set of listeners on each queue's shared QueueEvents instance dispatches to the
+ * subscribers of each job ID, so open streams don't pile listeners onto the
+ * emitter. Events come through Redis, so this works when the worker runs in
+ * another process.
+ *
+ * Cancelled jobs show up as 'removed' (still queued) or as a failure with the
+ * cancellation reason (running); both are dispatched as 'cancelled'. Jobs are
+ * also removed for other reasons (a dead-letter replay re-adds the job under
+ * the same ID), so a removal only counts when the Job record says cancelled.
+ */
+
+export type JobEvent =
+  | { type: 'progress'; progress: Partial<JobProgress> & { percent: number } }
+  | { type: 'completed'; result: unknown }
+  | { type: 'failed'; reason: string }
+  | { type: 'cancelled' };
+
+type JobEventListener = (event: JobEvent) => void;
+
+const subscribers = new Map<string, Set<JobEventListener>>();
+let attached = false;
+
+/**
+ * Progress is { stage, percent } from the worker; plain numbers are
+ * accepted for jobs that still report a bare percentage
+ */
+export function normalizeProgress(data: unknown): Partial<JobProgress> & { percent: number } {
+  if (typeof data === 'number') return { percent: data };
+  if (data && typeof data === 'object' && typeof (data as JobProgress).percent === 'number') {
+    return data as JobProgress;
+  }
+  return { percent: 0 };
+}
+
+function dispatch(jobId: string, event: JobEvent): void {
+  const listeners = subscribers.get(jobId);
+  if (!listeners) return;
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error: any) {
+      logger.warn(`Job event listener for ${jobId} threw: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * 'cancelled' for a removed job, unless it was removed for another reason
+ */
+async function dispatchIfCancelled(jobId: string): Promise<void> {
+  if (!subscribers.has(jobId)) return;
+
+  const record = await Job.findOne({ jobId }).select('status').lean();
+  if (record?.status === 'cancelled') {
+    dispatch(jobId, { type: 'cancelled' });
+  }
+}
+
+function attachListeners(): void {
+  if (attached) return;
+  attached = true;
+
+  for (const queueEvents of getAllQueueEvents()) {
+    queueEvents.on('progress', ({ jobId, data }) => {
+      dispatch(jobId, { type: 'progress', progress: normalizeProgress(data) });
+    });
+    queueEvents.on('completed', ({ jobId, returnvalue }) => {
+      dispatch(jobId, { type: 'completed', result: returnvalue });
+    });
+    queueEvents.on('failed', ({ jobId, failedReason }) => {
+      dispatch(jobId, failedReason === CANCELLED_REASON
+        ? { type: 'cancelled' }
+        : { type: 'failed', reason: failedReason });
+    });
+    queueEvents.on('removed', ({ jobId }) => {
+      dispatchIfCancelled(jobId).catch((error: any) => {
+        logger.warn(`Non-critical: Failed to check removed job ${jobId}: ${error.message}`);
+      });
+    });
+  }
+}
+
+/**
+ * Listen to one job's events. Returns the unsubscribe function.
+ */
+export function subscribeToJob(jobId: string, listener: JobEventListener): () => void {
+  attachListeners();
+
+  const listeners = subscribers.get(jobId) || new Set<JobEventListener>();
+  listeners.add(listener);
+  subscribers.set(jobId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) subscribers.delete(jobId);
+  };
+}
@@ -0,0 +1,137 @@
+import { User, resolveUserTier, UserTier } from '../db/models';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Queue lanes - one per user tier, in priority order
+ *
+ * By default every lane shares one BullMQ queue and one worker pool at the
+ * old single-queue limits (QUEUE_CONCURRENCY jobs per process, QUEUE_RATE_LIMIT
+ * jobs/min overall) that keep us inside the Gemini quota. Jobs carry their
+ * lane's BullMQ priority, so premium jobs start first, background work
+ * (quality scoring) only runs when nothing else is waiting, and capacity a
+ * lane isn't using goes to the others.
+ *
+ * Hard isolation is opt-in: a lane listed in LANE_CONCURRENCY or
+ * LANE_RATE_LIMITS ("premium:2,...") gets its own queue and worker with those
+ * caps (the other setting falls back to the shared value). Dedicated lanes
+ * come on top of the shared pool - lower QUEUE_CONCURRENCY/QUEUE_RATE_LIMIT
+ * to stay inside the quota.
+ */
+
+export type QueueLane = 'premium' | 'beta' | 'free' | 'background';
+
+// Highest priority first
+export const QUEUE_LANES: QueueLane[] = ['premium', 'beta', 'free', 'background'];
+
+// BullMQ job priority per lane (lower runs first)
+export const LANE_PRIORITY: Record<QueueLane, number> = {
+  premium: 1,
+  beta: 2,
+  free: 3,
+  background: 4,
+};
+
+export interface LanePolicy {
+  /** Jobs one worker process runs at once */
+  concurrency: number;
+  /** Jobs started per minute (across all workers) */
+  maxPerMinute: number;
+}
+
+/**
+ * A worker pool: one BullMQ queue and worker serving one or more lanes
+ */
+export interface LanePool {
+  lanes: QueueLane[];
+  policy: LanePolicy;
+  /** Lane with its own queue (LANE_CONCURRENCY/LANE_RATE_LIMITS) */
+  dedicated: boolean;
+}
+
+/**
+ * "premium:4,free:2" → { premium: 4, free: 2 } (unknown lanes and bad numbers are ignored)
+ */
+function parseLaneNumbers(value: string): Partial<Record<QueueLane, number>> {
+  const result: Partial<Record<QueueLane, number>> = {};
+  for (const entry of value.split(',')) {
+    const [lane, raw] = entry.split(':').map(part => part.trim());
+    const parsed = parseInt(raw, 10);
+    if (QUEUE_LANES.includes(lane as QueueLane) && parsed > 0) {
+      result[lane as QueueLane] = parsed;
+    }
+  }
+  return result;
+}
+
+function buildPools(): LanePool[] {
+  const shared: LanePolicy = {
+    concurrency: config.QUEUE_CONCURRENCY,
+    maxPerMinute: config.QUEUE_RATE_LIMIT,
+  };
+  const concurrency = parseLaneNumbers(config.LANE_CONCURRENCY);
+  const rateLimits = parseLaneNumbers(config.LANE_RATE_LIMITS);
+
+  const isDedicated = (lane: QueueLane) => concurrency[lane] !== undefined || rateLimits[lane] !== undefined;
+  const sharedLanes = QUEUE_LANES.filter(lane => !isDedicated(lane));
+
+  const pools: LanePool[] = sharedLanes.length > 0
+    ? [{ lanes: sharedLanes, policy: shared, dedicated: false }]
+    : [];
+  for (const lane of QUEUE_LANES.filter(isDedicated)) {
+    pools.push({
+      lanes: [lane],
+      policy: {
+        concurrency: concurrency[lane] ?? shared.concurrency,
+        maxPerMinute: rateLimits[lane] ?? shared.maxPerMinute,
+      },
+      dedicated: true,
+    });
+  }
+  return pools;
+}
+
+// Shared pool first (when any lane uses it), then one pool per dedicated lane
+export const LANE_POOLS: LanePool[] = buildPools();
+
+/**
+ * The pool that runs a lane's jobs
+ */
+export function poolForLane(lane: QueueLane): LanePool {
+  return LANE_POOLS.find(pool => pool.lanes.includes(lane))!;
+}
+
+/**
+ * Lane of a job from its BullMQ priority (jobs without one count as free)
+ */
+export function laneForPriority(priority: number | undefined): QueueLane {
+  return QUEUE_LANES.find(lane => LANE_PRIORITY[lane] === priority) ?? 'free';
+}
+
+/**
+ * Lane for a user tier (enterprise shares the premium lane)
+ */
+export function laneForTier(tier: UserTier): QueueLane {
+  switch (tier) {
+    case 'premium':
+    case 'enterprise':
+      return 'premium';
+    case 'beta':
+      return 'beta';
+    default:
+      return 'free';
+  }
+}
+
+/**
+ * Lane for a subscriber's jobs. Never throws - unknown users go to the free lane.
+ */
+export async function getUserLane(subscriberId: string): Promise<QueueLane> {
+  try {
+    const user = await User.findOne({ subscriberId }).select('tier accessStatus').lean();
+    return laneForTier(resolveUserTier(user));
+  } catch (error: any) {
+    logger.warn(`[${subscriberId}] Non-critical: Failed to resolve queue lane: ${error.message}`);
+    return 'free';
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Pipeline - Checkpointed stages for script generation jobs
+ *
+ * A generation job runs four stages in order:
+ * - generate   download → extract → analyze → generate → quality gate
+ * - render     script image
+ * - persist    Script, dataset entries, score job
+ * - deliver    ManyChat + session
+ *
+ * Each finished stage stores its output on the Job record (Job.pipeline), so
+ * when BullMQ retries the job it resumes after the last completed stage: a
+ * ManyChat failure no longer re-runs the Gemini chain. Outputs must be plain
+ * JSON/BSON values.
+ *
+ * Each stage has its own timeout and in-process retry policy. The generate
+ * stage is not retried in-process (expensive; BullMQ retries the job).
+ * A timed-out attempt is aborted and awaited before the next one starts, and
+ * stages with side effects that can't be repeated safely (deliver sends DMs)
+ * are not retried in-process after a timeout at all.
+ * The job's own signal (user cancellation) aborts the running stage and
+ * stops the pipeline without retries.
+ */
+
+import { Job } from '../db/models';
+import { logger } from '../utils/logger';
+import { CircuitOpenError } from '../utils/circuitBreaker';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type PipelineStage = 'generate' | 'render' | 'persist' | 'deliver';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['generate', 'render', 'persist', 'deliver'];
+
+export interface StagePolicy {
+  /** Abort the stage after this long */
+  timeoutMs: number;
+  /** In-process retries before the error goes to BullMQ */
+  retries: number;
+  /** Delay before the first retry, doubled for each further one */
+  backoffMs: number;
+  /** Retry in-process after a timeout (only for stages that are safe to repeat) */
+  retryOnTimeout: boolean;
+}
+
+export interface PipelineContext {
+  jobId: string;
+  requestId: string;
+  /** Outputs of stages completed by earlier attempts */
+  outputs: Partial<Record<PipelineStage, unknown>>;
+  /** Aborted when the job is cancelled (see queue/cancellation.ts) */
+  signal?: AbortSignal;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POLICIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const GENERATE_TIMEOUT_MS = parseInt(process.env.JOB_TIMEOUT_MS || '300000', 10);
+
+// sendToManyChat makes up to 4 calls with a 30s timeout each (services/manychat)
+const DELIVER_TIMEOUT_MS = 4 * 30000 + 30000;
+
+export const STAGE_POLICIES: Record<PipelineStage, StagePolicy> = {
+  generate: { timeoutMs: GENERATE_TIMEOUT_MS, retries: 0, backoffMs: 0, retryOnTimeout: false },
+  render: { timeoutMs: 60000, retries: 2, backoffMs: 2000, retryOnTimeout: true },
+  // Idempotent: reuses the Script/publicId and dataset rows of an earlier attempt
+  persist: { timeoutMs: 30000, retries: 2, backoffMs: 1000, retryOnTimeout: true },
+  // A timed-out send may still reach the user - don't DM them twice
+  deliver: { timeoutMs: DELIVER_TIMEOUT_MS, retries: 3, backoffMs: 3000, retryOnTimeout: false },
+};
+
+/**
+ * Thrown (and used as the abort reason) when a stage exceeds its timeout
+ */
+export class StageTimeoutError extends Error {
+  public readonly stage: PipelineStage;
+  /** The aborted run finished within the grace period (nothing left in flight) */
+  public settled = false;
+
+  constructor(stage: PipelineStage, timeoutMs: number) {
+    super(`Stage ${stage} timed out after ${timeoutMs}ms`);
+    this.name = 'StageTimeoutError';
+    this.stage = stage;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKPOINTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Stage outputs saved by previous attempts of this job
+ */
+export async function loadPipelineContext(jobId: string, requestId: string, signal?: AbortSignal): Promise<PipelineContext> {
+  const record = await Job.findOne({ jobId }, { pipeline: 1 }).lean();
+  const outputs = (record?.pipeline?.outputs || {}) as PipelineContext['outputs'];
+
+  const completed = PIPELINE_STAGES.filter(stage => stage in outputs);
+  if (completed.length > 0) {
+    logger.info(`[${requestId}] Resuming pipeline after: ${completed.join(', ')}`);
+  }
+  return { jobId, requestId, outputs, signal };
+}
+
+async function saveCheckpoint(
+  context: PipelineContext,
+  stage: PipelineStage,
+  output: unknown,
+  durationMs: number,
+  attempts: number
+): Promise<void> {
+  context.outputs[stage] = output;
+  try {
+    await Job.updateOne(
+      { jobId: context.jobId },
+      {
+        $set: { [`pipeline.outputs.${stage}`]: output },
+        $push: { 'pipeline.stages': { name: stage, completedAt: new Date(), durationMs, attempts } },
+      }
+    );
+  } catch (error: any) {
+    // The job goes on; a retry would just redo this stage
+    logger.warn(`[${context.requestId}] Non-critical: Failed to checkpoint stage ${stage}: ${error.message}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXECUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Job aborted');
+  }
+}
+
+async function runWithTimeout<T>(
+  stage: PipelineStage,
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<T>,
+  jobSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId: NodeJS.Timeout | undefined;
+  let onJobAbort: (() => void) | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = new StageTimeoutError(stage, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+
+    // Cancellation: stop the stage now, with the job's abort reason
+    onJobAbort = () => {
+      controller.abort(jobSignal!.reason);
+      reject(jobSignal!.reason);
+    };
+    jobSignal?.addEventListener('abort', onJobAbort, { once: true });
+  });
+
+  const running = run(controller.signal);
+  try {
+    return await Promise.race([running, timeout]);
+  } catch (error) {
+    // Promise.race stops waiting but not the work: give the aborted run up to
+    // another timeout to finish before anyone starts the stage again
+    if (error instanceof StageTimeoutError) {
+      error.settled = await Promise.race([
+        running.then(() => true, () => true),
+        sleep(timeoutMs).then(() => false)
+      ]);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    if (onJobAbort) jobSignal?.removeEventListener('abort', onJobAbort);
+  }
+}
+
+/**
+ * Run one stage: skipped (returns the saved output) when an earlier attempt
+ * completed it, otherwise run with the stage's timeout and retries and
+ * checkpoint the result.
+ */
+export async function runStage<T>(
+  context: PipelineContext,
+  stage: PipelineStage,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (stage in context.outputs) {
+    logger.info(`[${context.requestId}] Stage ${stage} already completed, skipping`);
+    return context.outputs[stage] as T;
+  }
+
+  const policy = STAGE_POLICIES[stage];
+  const startTime = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      throwIfAborted(context.signal);
+      const output = await runWithTimeout(stage, policy.timeoutMs, run, context.signal);
+      await saveCheckpoint(context, stage, output, Date.now() - startTime, attempt + 1);
+      return output;
+    } catch (error: any) {
+      // An open circuit fails fast - retrying in-process would only hit it again.
+      // A cancelled job is not retried at all, and a timed-out stage only when
+      // it is safe to repeat and the aborted run has finished.
+      const retryable = !(error instanceof StageTimeoutError) || (policy.retryOnTimeout && error.settled);
+      if (attempt >= policy.retries || !retryable || error instanceof CircuitOpenError || context.signal?.aborted) {
+        logger.error(`[${context.requestId}] Stage ${stage} failed after ${attempt + 1} attempt(s): ${error.message}`);
+        throw error;
+      }
+
+      const delay = policy.backoffMs * 2 ** attempt;
+      logger.warn(`[${context.requestId}] Stage ${stage} attempt ${attempt + 1} failed, retrying in ${delay}ms: ${error.message}`);
+      await sleep(delay);
+    }
+  }
+}
+
+export default {
+  loadPipelineContext,
+  runStage,
+  STAGE_POLICIES,
+};
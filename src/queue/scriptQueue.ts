@@ -1,5 +1,7 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Queue, QueueEvents, Job as BullJob } from 'bullmq';
 import { getRedis } from './redis';
+import { QueueLane, LanePool, QUEUE_LANES, LANE_POOLS, LANE_PRIORITY, poolForLane, getUserLane } from './lanes';
+import { Job } from '../db/models';
 import { logger } from '../utils/logger';
 
 /**
@@ -19,6 +21,11 @@ export interface ScriptJobData {
   
   // Copy mode: output transcript as-is formatted as script
   isCopyMode?: boolean;
+  
+  // Dataset context (DatasetEntryV2.variation / input.isDefaultIdea)
+  variationIndex?: number;
+  triggerType?: 'guided' | 'instant' | 'redo';
+  isDefaultIdea?: boolean;
 }
 
 /**
@@ -30,6 +37,47 @@ export interface CopyJobData {
   reelUrl: string;
 }
 
+/**
+ * Job data interface for section regeneration ("redo just the hook")
+ */
+export interface SectionJobData {
+  requestId: string;
+  requestHash: string;      // Hash of the NEW version (see generateRevisionHash)
+  subscriberId: string;
+  scriptId: string;         // _id of the script being revised
+  section: 'hook' | 'body' | 'cta';
+  reason?: string;
+}
+
+/**
+ * Job data interface for conversational refinement ("shorter", "in Hindi")
+ */
+export interface RefineJobData {
+  requestId: string;
+  requestHash: string;      // Hash of the NEW version (see generateRevisionHash)
+  subscriberId: string;
+  scriptId: string;         // _id of the script being refined
+  instruction: string;
+}
+
+/**
+ * Job data interface for post-delivery quality scoring (LLM judge rubric)
+ */
+export interface ScoreJobData {
+  requestId: string;
+  requestHash: string;      // DatasetEntryV2.input.requestHash of the delivered script
+}
+
+/**
+ * Pipeline stages reported through job.updateProgress (streamed over SSE)
+ */
+export type JobStage = 'downloading' | 'extracting' | 'analyzing' | 'generating' | 'rendering' | 'delivering';
+
+export interface JobProgress {
+  stage: JobStage;
+  percent: number;
+}
+
 /**
  * Job result interface
  */
@@ -50,120 +98,308 @@ export interface CopyJobResult {
   error?: string;
 }
 
-// Queue name
+// Queue name of the shared pool (see queue/lanes.ts)
 export const QUEUE_NAME = 'script-generation';
 
-// Lazy-initialized queue instances
-let scriptQueue: Queue<ScriptJobData, ScriptJobResult> | null = null;
-let queueEvents: QueueEvents | null = null;
+/**
+ * BullMQ queue name of a worker pool (dedicated lanes get their own queue)
+ */
+export function poolQueueName(pool: LanePool): string {
+  return pool.dedicated ? `${QUEUE_NAME}-${pool.lanes[0]}` : QUEUE_NAME;
+}
 
 /**
- * Initialize the queue (call after Redis is connected)
+ * BullMQ queue name of a lane
  */
-export function initializeQueue(): Queue<ScriptJobData, ScriptJobResult> {
-  if (scriptQueue) {
-    return scriptQueue;
-  }
+export function laneQueueName(lane: QueueLane): string {
+  return poolQueueName(poolForLane(lane));
+}
+
+/**
+ * Lane of a BullMQ queue name (undefined for other queues, e.g. the DLQ;
+ * for the shared queue, any lane it serves)
+ */
+export function laneForQueueName(queueName: string): QueueLane | undefined {
+  return QUEUE_LANES.find(lane => laneQueueName(lane) === queueName);
+}
+
+// Lazy-initialized queue instances, one per pool (keyed by queue name)
+const queues = new Map<string, Queue<any, any>>();
+const queueEvents = new Map<string, QueueEvents>();
 
-  scriptQueue = new Queue<ScriptJobData, ScriptJobResult>(QUEUE_NAME, {
-    connection: getRedis(),
-    defaultJobOptions: {
-      attempts: 2, // Reduced from 3 - circuit breaker handles failure protection
-      backoff: {
-        type: 'exponential',
-        delay: 3000 // Increased from 2000 to give more breathing room
-      },
-      removeOnComplete: {
-        count: 100
-      },
-      removeOnFail: {
-        count: 50
+/**
+ * Initialize the pool queues (call after Redis is connected)
+ */
+export function initializeQueue(): void {
+  for (const pool of LANE_POOLS) {
+    const name = poolQueueName(pool);
+    if (queues.has(name)) continue;
+
+    queues.set(name, new Queue(name, {
+      connection: getRedis(),
+      defaultJobOptions: {
+        attempts: 2, // Reduced from 3 - circuit breaker handles failure protection
+        backoff: {
+          type: 'exponential',
+          delay: 3000 // Increased from 2000 to give more breathing room
+        },
+        removeOnComplete: {
+          count: 100
+        },
+        removeOnFail: {
+          count: 50
+        }
       }
-    }
-  });
+    }));
 
-  // Initialize queue events for logging
-  queueEvents = new QueueEvents(QUEUE_NAME, { connection: getRedis() });
+    // Initialize queue events for logging
+    const events = new QueueEvents(name, { connection: getRedis() });
 
-  queueEvents.on('completed', ({ jobId }) => {
-    logger.info(`Job ${jobId} completed`);
-  });
+    events.on('completed', ({ jobId }) => {
+      logger.info(`Job ${jobId} completed [${name}]`);
+    });
 
-  queueEvents.on('failed', ({ jobId, failedReason }) => {
-    logger.error(`Job ${jobId} failed: ${failedReason}`);
-  });
+    events.on('failed', ({ jobId, failedReason }) => {
+      logger.error(`Job ${jobId} failed [${name}]: ${failedReason}`);
+    });
 
-  queueEvents.on('stalled', ({ jobId }) => {
-    logger.warn(`Job ${jobId} stalled, will be retried`);
-  });
+    events.on('stalled', ({ jobId }) => {
+      logger.warn(`Job ${jobId} stalled [${name}], will be retried`);
+    });
+
+    queueEvents.set(name, events);
+  }
+
+  logger.info(`✅ BullMQ queues initialized (${[...queues.keys()].join(', ')})`);
+}
+
+/**
+ * Get a lane's queue (initializes if needed)
+ */
+export function getQueue(lane: QueueLane = 'free'): Queue<ScriptJobData, ScriptJobResult> {
+  const name = laneQueueName(lane);
+  if (!queues.has(name)) {
+    initializeQueue();
+  }
+  return queues.get(name)!;
+}
 
-  logger.info('✅ BullMQ queue initialized');
-  return scriptQueue;
+/**
+ * Get a lane's queue events stream (initializes the queues if needed)
+ */
+export function getQueueEvents(lane: QueueLane = 'free'): QueueEvents {
+  const name = laneQueueName(lane);
+  if (!queueEvents.has(name)) {
+    initializeQueue();
+  }
+  return queueEvents.get(name)!;
 }
 
 /**
- * Get the queue instance (initializes if needed)
+ * Every pool's queue events stream (initializes the queues if needed)
  */
-export function getQueue(): Queue<ScriptJobData, ScriptJobResult> {
-  if (!scriptQueue) {
-    return initializeQueue();
+export function getAllQueueEvents(): QueueEvents[] {
+  if (queueEvents.size === 0) {
+    initializeQueue();
   }
-  return scriptQueue;
+  return [...queueEvents.values()];
+}
+
+/**
+ * Find a job in whichever queue holds it (job IDs are unique across queues)
+ */
+export async function findQueueJob(jobId: string): Promise<BullJob | undefined> {
+  const jobs = await Promise.all(LANE_POOLS.map(pool => getQueue(pool.lanes[0]).getJob(jobId)));
+  return jobs.find((job): job is BullJob => Boolean(job));
 }
 
 /**
  * Add a script generation job to the queue
+ * (lane defaults to the subscriber's tier)
  */
-export async function addScriptJob(data: ScriptJobData): Promise<string> {
-  const queue = getQueue();
+export async function addScriptJob(data: ScriptJobData, lane?: QueueLane): Promise<string> {
+  const jobLane = lane ?? await getUserLane(data.subscriberId);
+  const queue = getQueue(jobLane);
   const job = await queue.add('generate', data, {
     jobId: data.requestId,
+    priority: LANE_PRIORITY[jobLane],
   });
   
-  logger.info(`Job ${job.id} added to queue for user ${data.subscriberId}`);
+  logger.info(`Job ${job.id} added to ${jobLane} lane for user ${data.subscriberId}`);
   return job.id!;
 }
 
 /**
  * Add a copy/download job to the queue
  */
-export async function addCopyJob(data: CopyJobData): Promise<string> {
-  const queue = getQueue() as Queue<any, any>;
+export async function addCopyJob(data: CopyJobData, lane?: QueueLane): Promise<string> {
+  const jobLane = lane ?? await getUserLane(data.subscriberId);
+  const queue = getQueue(jobLane) as Queue<any, any>;
   const job = await queue.add('copy', data, {
     jobId: data.requestId,
+    priority: LANE_PRIORITY[jobLane],
+  });
+  
+  logger.info(`Copy job ${job.id} added to ${jobLane} lane for user ${data.subscriberId}`);
+  return job.id!;
+}
+
+/**
+ * Add a section regeneration job to the queue
+ */
+export async function addSectionJob(data: SectionJobData, lane?: QueueLane): Promise<string> {
+  const jobLane = lane ?? await getUserLane(data.subscriberId);
+  const queue = getQueue(jobLane) as Queue<any, any>;
+  const job = await queue.add('regenerate_section', data, {
+    jobId: data.requestId,
+    priority: LANE_PRIORITY[jobLane],
   });
   
-  logger.info(`Copy job ${job.id} added to queue for user ${data.subscriberId}`);
+  logger.info(`Section job ${job.id} (${data.section}) added to ${jobLane} lane for user ${data.subscriberId}`);
   return job.id!;
 }
 
 /**
- * Get queue statistics for health endpoint
+ * Add a refinement job to the queue
+ */
+export async function addRefineJob(data: RefineJobData, lane?: QueueLane): Promise<string> {
+  const jobLane = lane ?? await getUserLane(data.subscriberId);
+  const queue = getQueue(jobLane) as Queue<any, any>;
+  const job = await queue.add('refine', data, {
+    jobId: data.requestId,
+    priority: LANE_PRIORITY[jobLane],
+  });
+  
+  logger.info(`Refine job ${job.id} added to ${jobLane} lane for user ${data.subscriberId}`);
+  return job.id!;
+}
+
+/**
+ * Add a quality scoring job to the queue
+ * Background lane (lowest priority) so it never delays user-facing jobs; one job per request hash
+ */
+export async function addScoreJob(data: ScoreJobData): Promise<string> {
+  const queue = getQueue('background') as Queue<any, any>;
+  const job = await queue.add('score', data, {
+    jobId: `score-${data.requestHash}`,
+    priority: LANE_PRIORITY.background,
+  });
+  
+  logger.info(`Score job ${job.id} added to queue for request ${data.requestId}`);
+  return job.id!;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUEUE POSITION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface QueuePosition {
+  lane: QueueLane;
+  /** 1 = next to start, 0 = no longer waiting (running or finished) */
+  position: number;
+  /** Rough time until the script is ready */
+  etaSeconds: number;
+}
+
+// Used until there are completed jobs to average
+const DEFAULT_JOB_DURATION_MS = 45000;
+const DURATION_SAMPLE_SIZE = 50;
+const DURATION_CACHE_MS = 60000;
+
+let durationCache: { value: number; expiresAt: number } | null = null;
+
+/**
+ * Mean processing time of recently completed jobs (cached for a minute)
+ */
+async function getAverageJobDurationMs(): Promise<number> {
+  if (durationCache && durationCache.expiresAt > Date.now()) {
+    return durationCache.value;
+  }
+
+  const recent = await Job.find({ status: 'completed', processingTimeMs: { $gt: 0 } })
+    .sort({ completedAt: -1 })
+    .limit(DURATION_SAMPLE_SIZE)
+    .select('processingTimeMs')
+    .lean();
+
+  const value = recent.length > 0
+    ? recent.reduce((sum, job) => sum + (job.processingTimeMs || 0), 0) / recent.length
+    : DEFAULT_JOB_DURATION_MS;
+  durationCache = { value, expiresAt: Date.now() + DURATION_CACHE_MS };
+  return value;
+}
+
+/**
+ * Where a job stands in its queue and roughly when it will be done
+ */
+export async function getQueuePosition(jobId: string, lane: QueueLane): Promise<QueuePosition> {
+  // The order workers take them in: unprioritized (older) jobs, then by priority, oldest first
+  const waitingIds = await getQueue(lane).getRanges(['waiting', 'prioritized'], 0, -1, true);
+  const position = waitingIds.indexOf(jobId) + 1;
+
+  const { concurrency, maxPerMinute } = poolForLane(lane).policy;
+  const avgDurationMs = await getAverageJobDurationMs();
+
+  // Jobs start `concurrency` at a time, and no faster than the queue's rate limit
+  const byConcurrency = Math.ceil(Math.max(position, 1) / concurrency) * avgDurationMs;
+  const byRateLimit = (Math.max(position - 1, 0) / maxPerMinute) * 60000 + avgDurationMs;
+
+  return {
+    lane,
+    position,
+    etaSeconds: Math.ceil(Math.max(byConcurrency, byRateLimit) / 1000)
+  };
+}
+
+/**
+ * Get queue statistics for health endpoint (totals + jobs waiting per lane)
  */
 export async function getQueueStats() {
-  const queue = getQueue();
-  const [waiting, active, completed, failed, delayed] = await Promise.all([
-    queue.getWaitingCount(),
-    queue.getActiveCount(),
-    queue.getCompletedCount(),
-    queue.getFailedCount(),
-    queue.getDelayedCount()
-  ]);
+  const perQueue = await Promise.all(LANE_POOLS.map(async (pool) => {
+    const queue = getQueue(pool.lanes[0]);
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      queue.getJobCountByTypes('waiting', 'prioritized'),
+      queue.getActiveCount(),
+      queue.getCompletedCount(),
+      queue.getFailedCount(),
+      queue.getDelayedCount()
+    ]);
+    return { waiting, active, completed, failed, delayed };
+  }));
+
+  const totals = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+  for (const stats of perQueue) {
+    totals.waiting += stats.waiting;
+    totals.active += stats.active;
+    totals.completed += stats.completed;
+    totals.failed += stats.failed;
+    totals.delayed += stats.delayed;
+  }
+
+  // Lanes share a queue, so only waiting jobs (by priority) split per lane
+  const perLane = await Promise.all(QUEUE_LANES.map(async (lane) => {
+    const priority = LANE_PRIORITY[lane];
+    const counts = await getQueue(lane).getCountsPerPriority([priority]);
+    return [lane, { waiting: counts[priority] || 0 }] as const;
+  }));
 
-  return { waiting, active, completed, failed, delayed };
+  return {
+    ...totals,
+    lanes: Object.fromEntries(perLane) as Record<QueueLane, { waiting: number }>
+  };
 }
 
 /**
  * Close queue connections
  */
 export async function closeQueue(): Promise<void> {
-  if (queueEvents) {
-    await queueEvents.close();
+  for (const events of queueEvents.values()) {
+    await events.close();
   }
-  if (scriptQueue) {
-    await scriptQueue.close();
+  for (const queue of queues.values()) {
+    await queue.close();
   }
-  logger.info('BullMQ queue closed');
+  queueEvents.clear();
+  queues.clear();
+  logger.info('BullMQ queues closed');
 }
-
-export { scriptQueue };
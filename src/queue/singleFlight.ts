@@ -0,0 +1,109 @@
+import { getRedis } from './redis';
+import { STAGE_POLICIES } from './pipeline';
+import { ReelDNA } from '../db/models';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Single-flight reel analysis
+ *
+ * When several jobs miss the ReelDNA cache for the same reel at once, only the
+ * one holding the Redis lock (keyed by generateReelHash) downloads and analyzes
+ * the video. The others poll for the ReelDNA it saves and then take the Tier 1
+ * text path, so Gemini sees the video once.
+ *
+ * The lock expires with the generate stage timeout, so a crashed worker never
+ * blocks a reel for longer than one stage. If the holder fails (lock released,
+ * no ReelDNA), the next waiter takes the lock over. A waiter that runs out of
+ * time analyzes the reel itself: it waits at most REEL_ANALYSIS_WAIT_MS, and
+ * never so long that its own analysis no longer fits in the generate stage.
+ */
+
+const LOCK_PREFIX = 'reel_analysis_lock:';
+const POLL_INTERVAL_MS = 1000;
+// Rough time a job needs to download, generate and analyze a reel itself
+const SELF_ANALYSIS_ESTIMATE_MS = 150000;
+
+// Delete only our own lock (it may have expired and been taken by another job)
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export type CachedReelDNA = Awaited<ReturnType<typeof findReelDNA>>;
+
+export interface AnalysisFlight {
+  /** ReelDNA saved by the job that held the lock (null: analyze the reel yourself) */
+  cachedDNA: CachedReelDNA;
+  /** Release the lock once the analysis is saved or failed (no-op when not held) */
+  release: () => Promise<void>;
+}
+
+function findReelDNA(reelHash: string) {
+  return ReelDNA.findOne({ reelUrlHash: reelHash }).lean();
+}
+
+const noop = async () => {};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function tryAcquire(key: string, owner: string): Promise<boolean> {
+  const result = await getRedis().set(key, owner, 'PX', STAGE_POLICIES.generate.timeoutMs, 'NX');
+  return result === 'OK';
+}
+
+/**
+ * Call after a ReelDNA cache miss: either take the lock (analyze, then
+ * release) or wait for the job that holds it and use its ReelDNA.
+ * stageStartedAt is when the generate stage began (its timeout bounds the wait).
+ */
+export async function joinReelAnalysis(
+  reelHash: string,
+  requestId: string,
+  signal: AbortSignal,
+  stageStartedAt: number
+): Promise<AnalysisFlight> {
+  const key = `${LOCK_PREFIX}${reelHash}`;
+  const release = async () => {
+    try {
+      await getRedis().eval(RELEASE_SCRIPT, 1, key, requestId);
+    } catch (error: any) {
+      // Expires on its own
+      logger.warn(`[${requestId}] Non-critical: Failed to release reel analysis lock: ${error.message}`);
+    }
+  };
+
+  if (await tryAcquire(key, requestId)) {
+    return { cachedDNA: null, release };
+  }
+
+  // Leave enough of the stage to analyze the reel here if the holder is too slow
+  const stageDeadline = stageStartedAt + STAGE_POLICIES.generate.timeoutMs;
+  const waitMs = Math.max(0, Math.min(config.REEL_ANALYSIS_WAIT_MS, stageDeadline - SELF_ANALYSIS_ESTIMATE_MS - Date.now()));
+  logger.info(`[${requestId}] Reel is being analyzed by another job, waiting up to ${waitMs}ms...`);
+  const deadline = Date.now() + waitMs;
+
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+    if (signal.aborted) {
+      throw signal.reason instanceof Error ? signal.reason : new Error('Stage aborted');
+    }
+
+    const cachedDNA = await findReelDNA(reelHash);
+    if (cachedDNA) {
+      logger.info(`[${requestId}] ✅ Reel analysis shared by another job`);
+      return { cachedDNA, release: noop };
+    }
+
+    // Holder failed or its lock expired - analyze it ourselves
+    if (await tryAcquire(key, requestId)) {
+      logger.warn(`[${requestId}] ⚠️ Previous reel analysis did not finish, taking over`);
+      return { cachedDNA: null, release };
+    }
+  }
+
+  logger.warn(`[${requestId}] ⚠️ Waited ${waitMs}ms for reel analysis, analyzing it here`);
+  return { cachedDNA: null, release: noop };
+}
@@ -1,20 +1,38 @@
 import { Worker, Job as BullJob } from 'bullmq';
 import path from 'path';
 import { getRedis } from './redis';
-import { ScriptJobData, ScriptJobResult, CopyJobData, CopyJobResult, QUEUE_NAME } from './scriptQueue';
+import { normalizeProgress } from './jobEvents';
+import { loadPipelineContext, runStage } from './pipeline';
+import { classifyJobError, recordFailedAttempt, moveToDeadLetter, isFinalFailure } from './deadLetter';
+import { JobCancelledError, registerRunningJob, unregisterRunningJob, startCancelListener, stopCancelListener, commitJob } from './cancellation';
+import { joinReelAnalysis } from './singleFlight';
+import { startHeartbeat, stopHeartbeat, trackJobStarted, trackJobProgress, trackJobFinished } from './heartbeat';
+import { ScriptJobData, ScriptJobResult, CopyJobData, CopyJobResult, SectionJobData, RefineJobData, ScoreJobData, JobStage, JobProgress, poolQueueName, addScoreJob } from './scriptQueue';
+import { LanePool, LANE_POOLS, laneForPriority } from './lanes';
 import { logger } from '../utils/logger';
+import { config } from '../config';
 
 // Services
 import { downloadReel } from '../services/reelDownloader';
+import { copyUploadToTemp } from '../services/videoUpload';
 import { extractAudio } from '../services/audioExtractor';
 import { extractFrames, cleanupFrames } from '../services/frameExtractor';
-import { analyzeVideo, VideoAnalysis } from '../services/videoAnalyzer';
-import { generateScript, generateScriptFromVideo } from '../services/scriptGenerator';
+import { analyzeVideo, normalizeVideoAnalysis, VideoAnalysis, AnalysisFailure, TranscriptSegment } from '../services/videoAnalyzer';
+import { generateScript, generateScriptFromVideo, regenerateSection, refineScript, repairScript } from '../services/scriptGenerator';
+import { generateRankedCandidates, scoreQualityRubric, CandidateRanking } from '../services/scriptJudge';
+import { enforceQualityGate, QualityGateFailure } from '../services/qualityGate';
+import { assignPromptVariant, getPromptVariant, getSystemPromptHash } from '../services/promptRegistry';
+import { selectPromptVariant } from '../services/promptBandit';
+import { getUserContext, DATASET_VERSION } from '../services/datasetV2';
+import { getLLMProvider } from '../services/llm';
 import { cleanupFiles } from '../services/cleanup';
 import { sendToManyChat, sendTextMessage } from '../services/manychat';
+import { sessionManager } from '../services/sessionManager';
 import { generateScriptImage } from '../utils/imageGenerator';
+import { parseScript, serializeScript, getSection, SECTION_ORDER, ScriptSection, StructuredScript, SectionKind, ScriptTiming } from '../utils/scriptParser';
 import { generateUniquePublicId, buildScriptUrl } from '../api/viewScript';
-import { generateReelHash, normalizeInstagramUrl } from '../utils/hash';
+import { generateReelHash, normalizeReelUrl } from '../utils/hash';
+import { detectVideoSource, isUploadUrl } from '../utils/platforms';
 import { uploadVideoToS3 } from '../services/s3Service';
 
 // Production hardening
@@ -22,7 +40,7 @@ import { withCircuitBreaker, CircuitOpenError } from '../utils/circuitBreaker';
 import { recordJobDuration, recordError, recordGeminiDuration, recordVideoAnalysisDuration } from '../api/metrics';
 
 // Database
-import { Script, Job, ReelDNA } from '../db/models';
+import { Script, Job, ReelDNA, DatasetEntryV2, ScriptRevision } from '../db/models';
 import { 
   DatasetEntry, 
   parseScriptSections, 
@@ -36,60 +54,139 @@ import {
 type AnalysisMode = 'audio' | 'frames' | 'hybrid';
 const ANALYSIS_MODE: AnalysisMode = (process.env.ANALYSIS_MODE as AnalysisMode) || 'hybrid';
 
-// Job timeout configuration (5 minutes default)
-const JOB_TIMEOUT_MS = parseInt(process.env.JOB_TIMEOUT_MS || '300000', 10);
-
-let worker: Worker<any, any> | null = null;
+let workers: Worker<any, any>[] = [];
 
 /**
- * Helper to check if operation should be aborted
+ * Helper to check if the current stage should be aborted (stage timeout or cancellation)
  */
 function checkAborted(signal: AbortSignal, requestId: string): void {
   if (signal.aborted) {
-    logger.warn(`[${requestId}] Job timed out after ${JOB_TIMEOUT_MS}ms`);
-    throw new JobTimeoutError(requestId, JOB_TIMEOUT_MS);
+    const reason = signal.reason instanceof Error ? signal.reason : new Error('Stage aborted');
+    logger.warn(`[${requestId}] ${reason.message}`);
+    throw reason;
   }
 }
 
 /**
- * Custom error for job timeout
+ * Report the stage the job is in (QueueEvents → SSE stream)
  */
-class JobTimeoutError extends Error {
-  constructor(requestId: string, timeoutMs: number) {
-    super(`Job ${requestId} timed out after ${timeoutMs}ms`);
-    this.name = 'JobTimeoutError';
-  }
+async function reportProgress(job: BullJob, stage: JobStage, percent: number): Promise<void> {
+  const progress: JobProgress = { stage, percent };
+  await job.updateProgress(progress);
 }
 
 /**
- * Format a transcript as a structured script (for COPY mode)
- * This takes the exact words from the video and formats them in our script structure
+ * Local copy of the job's video: uploads are already stored (no download),
+ * everything else goes through the platform downloader.
+ * Either way the returned file is a temp file the job cleans up.
  */
-function formatTranscriptAsScript(transcript: string | null, analysis: VideoAnalysis | null): string {
-  if (!transcript || transcript.trim() === '') {
-    // No speech detected - create a visual-only script
-    const visualCues = analysis?.visualCues || [];
-    const sceneDescriptions = analysis?.sceneDescriptions || [];
-    
-    return `[HOOK]
-🎬 VISUAL: ${sceneDescriptions[0] || visualCues[0] || 'Opening shot as shown in video'}
-💬 SAY: (No speech - this is a visual-only reel)
+async function acquireVideo(reelUrl: string, requestId: string): Promise<string> {
+  return isUploadUrl(reelUrl)
+    ? copyUploadToTemp(reelUrl, requestId)
+    : downloadReel(reelUrl, requestId);
+}
 
-[BODY]
-🎬 VISUAL: ${sceneDescriptions.slice(1, 3).join(' → ') || visualCues.slice(1, 3).join(', ') || 'Main content visuals as shown'}
-💬 SAY: (No speech detected in original)
+/**
+ * DatasetV2 fields for a multi-candidate generation: every candidate with
+ * its judge scores, and the winner's in qualityMetrics.candidateJudge
+ * (the rubric fields are the post-delivery 'score' job's)
+ */
+function buildCandidateFields(ranking: CandidateRanking) {
+  const selected = ranking.scores[ranking.selectedIndex];
+  return {
+    alternatives: {
+      candidateScripts: ranking.candidates,
+      selectedIndex: ranking.selectedIndex,
+      candidateScores: ranking.scores,
+      rejectionReasons: ranking.scores
+        .map((score, i) => ({ score, i }))
+        .filter(({ i }) => i !== ranking.selectedIndex)
+        .map(({ score, i }) => `candidate ${i + 1}: overall ${score.overall} < ${selected.overall}${score.notes ? ` - ${score.notes}` : ''}`),
+      judgeModel: ranking.judgeModel
+    },
+    qualityMetrics: {
+      candidateJudge: {
+        overall: selected.overall,
+        hookStrength: selected.hookStrength,
+        pacing: selected.pacing
+      }
+    }
+  };
+}
 
-[CTA]
-🎬 VISUAL: ${sceneDescriptions[sceneDescriptions.length - 1] || 'Final shot as shown'}
-💬 SAY: (No speech - visual ending)
+/**
+ * Map an analysis repair/fallback to a DatasetV2 failedAttempts record
+ */
+function toFailedAttempt(failure: AnalysisFailure) {
+  return {
+    attemptNumber: failure.attemptNumber,
+    failureReason: failure.kind === 'repair' ? 'analysis_repair' as const : 'analysis_fallback' as const,
+    errorMessage: failure.errorMessage,
+    rawOutput: failure.rawOutput,
+    timestamp: failure.timestamp
+  };
+}
 
----
-📝 Note: This reel has no spoken dialogue. The visuals carry the message.
-🎯 Hook Type: ${analysis?.hookType || 'Visual'}
-🎭 Tone: ${analysis?.tone || 'Unknown'}`;
-  }
-  
-  // Split transcript into sentences for better formatting
+/**
+ * Map a quality gate rejection to a DatasetV2 failedAttempts record
+ */
+function toQualityGateAttempt(failure: QualityGateFailure) {
+  return {
+    attemptNumber: failure.attemptNumber,
+    script: failure.script,
+    failureReason: 'quality_gate' as const,
+    errorMessage: failure.errorMessage,
+    timestamp: failure.timestamp
+  };
+}
+
+// COPY mode timing split: hook = speech starting in the first 3s, CTA = last 20% of the speech
+const COPY_HOOK_WINDOW_SEC = 3;
+const COPY_CTA_SHARE = 0.2;
+
+type SectionDialogue = Record<SectionKind, { text: string; timing?: ScriptTiming }>;
+
+/**
+ * Split timed transcript segments into hook/body/cta by when they were said.
+ * The first segment always opens the hook, the last one (if 2+) closes the CTA.
+ */
+function splitSegmentsByTiming(segments: TranscriptSegment[]): SectionDialogue {
+  const speechStart = segments[0].startSec;
+  const speechEnd = segments[segments.length - 1].endSec;
+  const ctaStart = speechEnd - (speechEnd - speechStart) * COPY_CTA_SHARE;
+
+  const grouped: Record<SectionKind, TranscriptSegment[]> = { hook: [], body: [], cta: [] };
+  segments.forEach((segment, i) => {
+    // Checked first: short reels say everything inside the hook window
+    if (i === segments.length - 1 && segments.length > 1) {
+      grouped.cta.push(segment);
+    } else if (i === 0 || segment.startSec < COPY_HOOK_WINDOW_SEC) {
+      grouped.hook.push(segment);
+    } else if (segment.startSec >= ctaStart) {
+      grouped.cta.push(segment);
+    } else {
+      grouped.body.push(segment);
+    }
+  });
+
+  const toDialogue = (group: TranscriptSegment[]) => group.length === 0
+    ? { text: '' }
+    : {
+        text: group.map(segment => segment.text).join(' '),
+        timing: { startSec: group[0].startSec, endSec: group[group.length - 1].endSec },
+      };
+
+  return {
+    hook: toDialogue(grouped.hook),
+    body: toDialogue(grouped.body),
+    cta: toDialogue(grouped.cta),
+  };
+}
+
+/**
+ * Untimed fallback: split sentences ~20% hook, ~60% body, ~20% CTA
+ */
+function splitSentences(transcript: string): SectionDialogue {
   const sentences = transcript
     .replace(/([.!?])\s+/g, '$1|')
     .split('|')
@@ -97,7 +194,6 @@ function formatTranscriptAsScript(transcript: string | null, analysis: VideoAnal
   
   const totalSentences = sentences.length;
   
-  // Distribute sentences across hook, body, cta
   let hookSentences: string[];
   let bodySentences: string[];
   let ctaSentences: string[];
@@ -115,28 +211,73 @@ function formatTranscriptAsScript(transcript: string | null, analysis: VideoAnal
     ctaSentences = sentences.slice(-ctaCount);
     bodySentences = sentences.slice(hookCount, -ctaCount);
   }
+
+  return {
+    hook: { text: hookSentences.join(' ') },
+    body: { text: bodySentences.join(' ') },
+    cta: { text: ctaSentences.join(' ') },
+  };
+}
+
+/**
+ * Format a transcript as a structured script (for COPY mode)
+ * This takes the exact words from the video and formats them in our script structure
+ */
+function formatTranscriptAsScript(transcript: string | null, analysis: VideoAnalysis | null): string {
+  if (!transcript || transcript.trim() === '') {
+    // No speech detected - create a visual-only script
+    const visualCues = analysis?.visualCues || [];
+    const sceneDescriptions = analysis?.sceneDescriptions || [];
+    
+    return `[HOOK]
+🎬 VISUAL: ${sceneDescriptions[0] || visualCues[0] || 'Opening shot as shown in video'}
+💬 SAY: (No speech - this is a visual-only reel)
+
+[BODY]
+🎬 VISUAL: ${sceneDescriptions.slice(1, 3).join(' → ') || visualCues.slice(1, 3).join(', ') || 'Main content visuals as shown'}
+💬 SAY: (No speech detected in original)
+
+[CTA]
+🎬 VISUAL: ${sceneDescriptions[sceneDescriptions.length - 1] || 'Final shot as shown'}
+💬 SAY: (No speech - visual ending)
+
+---
+📝 Note: This reel has no spoken dialogue. The visuals carry the message.
+🎯 Hook Type: ${analysis?.hookType || 'Visual'}
+🎭 Tone: ${analysis?.tone || 'Unknown'}`;
+  }
+  
+  // Split dialogue into hook/body/cta: by real timing when the analysis has
+  // timed segments, otherwise by sentence share (~20/60/20)
+  const segments = analysis?.transcriptSegments || [];
+  const dialogue = segments.length > 0
+    ? splitSegmentsByTiming(segments)
+    : splitSentences(transcript);
   
   // Build visual descriptions from analysis
   const sceneDescriptions = analysis?.sceneDescriptions || [];
   const visualCues = analysis?.visualCues || [];
   
-  const hookVisual = sceneDescriptions[0] || visualCues[0] || 'Opening shot';
-  const bodyVisual = sceneDescriptions.length > 2 
-    ? sceneDescriptions.slice(1, -1).join(' → ') 
-    : visualCues.slice(1, -1).join(', ') || 'Main content visuals';
-  const ctaVisual = sceneDescriptions[sceneDescriptions.length - 1] || visualCues[visualCues.length - 1] || 'Closing shot';
+  const visuals: Record<SectionKind, string> = {
+    hook: sceneDescriptions[0] || visualCues[0] || 'Opening shot',
+    body: sceneDescriptions.length > 2 
+      ? sceneDescriptions.slice(1, -1).join(' → ') 
+      : visualCues.slice(1, -1).join(', ') || 'Main content visuals',
+    cta: sceneDescriptions[sceneDescriptions.length - 1] || visualCues[visualCues.length - 1] || 'Closing shot',
+  };
   
-  return `[HOOK]
-🎬 VISUAL: ${hookVisual}
-💬 SAY: "${hookSentences.join(' ')}"
-
-[BODY]
-🎬 VISUAL: ${bodyVisual}
-💬 SAY: "${bodySentences.join(' ') || '(No additional dialogue)'}"
-
-[CTA]
-🎬 VISUAL: ${ctaVisual}
-💬 SAY: "${ctaSentences.join(' ')}"
+  const script: StructuredScript = {
+    sections: SECTION_ORDER.map(kind => ({
+      kind,
+      beats: [{
+        visual: visuals[kind],
+        say: dialogue[kind].text || '(No additional dialogue)',
+      }],
+      ...(dialogue[kind].timing ? { timing: dialogue[kind].timing } : {}),
+    })),
+  };
+  
+  return `${serializeScript(script)}
 
 ---
 📝 EXACT COPY from original reel
@@ -160,11 +301,12 @@ async function processCopyJob(job: BullJob<CopyJobData>): Promise<CopyJobResult>
   const startTime = Date.now();
 
   try {
-    await job.updateProgress(10);
+    await reportProgress(job, 'downloading', 10);
 
     // Normalize URL
-    const normalizedUrl = normalizeInstagramUrl(reelUrl);
+    const normalizedUrl = normalizeReelUrl(reelUrl);
     const reelHash = generateReelHash(normalizedUrl);
+    const platform = detectVideoSource(normalizedUrl) || 'instagram';
     
     // Check if already downloaded AND analyzed (has transcript)
     const existingDNA = await ReelDNA.findOne({ reelUrlHash: reelHash }).lean();
@@ -189,12 +331,12 @@ async function processCopyJob(job: BullJob<CopyJobData>): Promise<CopyJobResult>
       };
     }
 
-    await job.updateProgress(15);
+    await reportProgress(job, 'downloading', 15);
 
     // Download video
     logger.info(`[${requestId}] Downloading video...`);
-    videoPath = await downloadReel(reelUrl, requestId);
-    await job.updateProgress(30);
+    videoPath = await acquireVideo(reelUrl, requestId);
+    await reportProgress(job, 'extracting', 30);
 
     // Extract Frames & Audio for analysis
     logger.info(`[${requestId}] Extracting frames & audio for analysis...`);
@@ -213,19 +355,23 @@ async function processCopyJob(job: BullJob<CopyJobData>): Promise<CopyJobResult>
     audioPath = audioResult;
     if (frames.length > 0) frameDir = path.dirname(frames[0]);
 
-    await job.updateProgress(50);
+    await reportProgress(job, 'analyzing', 50);
 
     // Do FULL analysis (this extracts transcript from audio!)
     logger.info(`[${requestId}] Analyzing video (extracting transcript)...`);
-    const videoAnalysis = await withCircuitBreaker('gemini', async () => {
+    const { analysis, failures: analysisFailures } = await withCircuitBreaker('gemini', async () => {
       return analyzeVideo({
         frames,
         audioPath,
         includeAudio: true
       });
     });
+    const videoAnalysis: VideoAnalysis = { ...analysis, shots: frameResult.shots };
+    if (analysisFailures.length > 0) {
+      logger.warn(`[${requestId}] Analysis needed ${analysisFailures.length} repair/fallback step(s)`);
+    }
     
-    await job.updateProgress(75);
+    await reportProgress(job, 'analyzing', 75);
 
     // Save ReelDNA with complete analysis + transcript
     await ReelDNA.findOneAndUpdate(
@@ -233,14 +379,16 @@ async function processCopyJob(job: BullJob<CopyJobData>): Promise<CopyJobResult>
       {
         reelUrlHash: reelHash,
         reelUrl: normalizedUrl,
+        platform,
         analysis: videoAnalysis, // Complete analysis with transcript!
+        analysisFailures,        // Repair/fallback records (no dataset row for copy jobs)
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
       },
       { upsert: true, new: true }
     );
     
     logger.info(`[${requestId}] ✅ ReelDNA cached with full analysis`);
-    await job.updateProgress(90);
+    await reportProgress(job, 'delivering', 90);
 
     // Send success message to user with analysis details
     await sendTextMessage(
@@ -253,7 +401,7 @@ async function processCopyJob(job: BullJob<CopyJobData>): Promise<CopyJobResult>
       `Now say "generate" to create a script, or send me your idea!`
     );
 
-    await job.updateProgress(100);
+    await reportProgress(job, 'delivering', 100);
 
     const totalDuration = Date.now() - startTime;
     logger.info(`[${requestId}] Copy job completed in ${totalDuration}ms`);
@@ -266,54 +414,531 @@ async function processCopyJob(job: BullJob<CopyJobData>): Promise<CopyJobResult>
   } catch (error: any) {
     logger.error(`[${requestId}] Copy job failed:`, error);
 
-    // Send error message to user
-    try {
-      await sendTextMessage(
-        subscriberId,
-        `❌ Failed to analyze video: ${error.message}\n\nPlease try again or send a different reel!`
-      );
-    } catch (e) {
-      logger.warn('Failed to send error message', e);
-    }
+    // Send error message to user
+    try {
+      await sendTextMessage(
+        subscriberId,
+        `❌ Failed to analyze video: ${error.message}\n\nPlease try again or send a different reel!`
+      );
+    } catch (e) {
+      logger.warn('Failed to send error message', e);
+    }
+
+    throw error;
+
+  } finally {
+    // Cleanup downloaded files
+    if (videoPath) {
+      cleanupFiles([videoPath, audioPath]);
+    }
+    if (frameDir) {
+      cleanupFrames(frameDir);
+    }
+  }
+}
+
+/**
+ * Script being revised, as loaded by processRevisionJob
+ */
+type ParentScript = NonNullable<Awaited<ReturnType<typeof loadParentScript>>>;
+
+async function loadParentScript(scriptId: string) {
+  return Script.findById(scriptId).lean();
+}
+
+/**
+ * Shared pipeline for revision jobs (section regen, refine)
+ *
+ * Loads the parent script, lets `revise` produce the new structured script,
+ * then renders, saves it as a new version linked to the parent and delivers it.
+ * The original script is never modified.
+ */
+async function processRevisionJob(
+  job: BullJob<SectionJobData | RefineJobData>,
+  description: string,
+  revise: (parent: ParentScript, current: StructuredScript) => Promise<{ script: StructuredScript; revision: ScriptRevision }>
+): Promise<ScriptJobResult> {
+  const { requestId, requestHash, subscriberId, scriptId } = job.data;
+  
+  logger.info(`[${requestId}] Starting revision job (${job.name}) for script ${scriptId}`);
+  
+  await Job.findOneAndUpdate(
+    { jobId: requestId },
+    { 
+      status: 'processing',
+      startedAt: new Date(),
+      attempts: job.attemptsMade + 1
+    }
+  );
+
+  const startTime = Date.now();
+
+  try {
+    const parent = await loadParentScript(scriptId);
+    if (!parent) {
+      throw new Error(`Script ${scriptId} not found`);
+    }
+    
+    // A retry after the version was saved (e.g. delivery failed): reuse it
+    // instead of paying for another LLM call - requestHash is unique
+    const existing = await Script.findOne({ requestHash }).lean();
+    let savedScriptId: string;
+    let scriptText: string;
+    let imageUrl: string;
+    let scriptUrl: string;
+
+    if (existing) {
+      savedScriptId = String(existing._id);
+      scriptText = existing.scriptText;
+      imageUrl = existing.imageUrl || await withCircuitBreaker('imgbb', async () => {
+        return generateScriptImage(scriptText);
+      });
+      scriptUrl = existing.scriptUrl || buildScriptUrl(existing.publicId);
+      logger.info(`[${requestId}] ♻️ Revision v${existing.version} already saved, delivering it again`);
+    } else {
+      const current: StructuredScript = parent.structuredScript?.sections?.length
+        ? parent.structuredScript
+        : parseScript(parent.scriptText);
+      await reportProgress(job, 'generating', 10);
+
+      // A. Produce the revised script
+      const scriptGenStartTime = Date.now();
+      const { script: revised, revision } = await withCircuitBreaker('gemini', async () => {
+        return revise(parent, current);
+      });
+      recordGeminiDuration(Date.now() - scriptGenStartTime);
+      scriptText = serializeScript(revised);
+      await reportProgress(job, 'rendering', 50);
+
+      // B. Image + public link for the new version
+      imageUrl = await withCircuitBreaker('imgbb', async () => {
+        return generateScriptImage(scriptText);
+      });
+      const publicId = await generateUniquePublicId();
+      scriptUrl = buildScriptUrl(publicId);
+      await reportProgress(job, 'delivering', 75);
+
+      // C. Save as a new version linked to the parent
+      const llm = getLLMProvider();
+      const savedScript = await Script.create({
+        requestHash,
+        publicId,
+        manychatUserId: subscriberId,
+        reelUrl: parent.reelUrl,
+        platform: parent.platform,
+        userIdea: parent.userIdea,
+        scriptText,
+        structuredScript: revised,
+        imageUrl,
+        scriptUrl,
+        generationTimeMs: Date.now() - startTime,
+        modelVersion: llm.textModels[0] || llm.name,
+        parentScriptId: String(parent._id),
+        version: (parent.version || 1) + 1,
+        revision
+      });
+      savedScriptId = String(savedScript._id);
+      logger.info(`[${requestId}] ✅ Saved ${revision.type} revision as v${savedScript.version} (${scriptUrl})`);
+
+      // D. Implicit feedback: the user rejected this section of the parent
+      if (revision.type === 'section_regen' && revision.section) {
+        try {
+          await DatasetEntryV2.updateOne(
+            { 'input.requestHash': parent.requestHash },
+            {
+              $set: {
+                [`feedback.sectionFeedback.${revision.section}.wasRegenerated`]: true,
+                ...(revision.reason ? { [`feedback.sectionFeedback.${revision.section}.regenerationReason`]: revision.reason } : {})
+              }
+            }
+          );
+        } catch (datasetError: any) {
+          logger.warn(`[${requestId}] Non-critical: Failed to record section feedback: ${datasetError.message}`);
+        }
+      }
+    }
+    await reportProgress(job, 'delivering', 90);
+
+    // E. Deliver
+    await withCircuitBreaker('manychat', async () => {
+      return sendToManyChat({
+        subscriber_id: subscriberId,
+        field_name: 'script_image_url',
+        field_value: imageUrl,
+        scriptUrl
+      });
+    });
+
+    // Latest version becomes the target of the next "shorter" / "redo the hook"
+    try {
+      await sessionManager.setGenerationResult(subscriberId, requestHash, savedScriptId);
+    } catch (sessionError: any) {
+      logger.warn(`[${requestId}] Non-critical: Failed to update session: ${sessionError.message}`);
+    }
+
+    await Job.findOneAndUpdate(
+      { jobId: requestId },
+      {
+        status: 'completed',
+        completedAt: new Date(),
+        processingTimeMs: Date.now() - startTime,
+        result: { scriptText, imageUrl }
+      }
+    );
+
+    const totalDuration = Date.now() - startTime;
+    recordJobDuration(totalDuration, { status: 'success' });
+    logger.info(`[${requestId}] Revision job completed in ${totalDuration}ms`);
+    await reportProgress(job, 'delivering', 100);
+
+    return {
+      success: true,
+      scriptText,
+      imageUrl
+    };
+
+  } catch (error: any) {
+    const totalDuration = Date.now() - startTime;
+    recordError(error instanceof CircuitOpenError ? 'circuit_open' : job.name);
+    recordJobDuration(totalDuration, { status: 'failed' });
+    logger.error(`[${requestId}] Revision job failed:`, error);
+
+    await Job.findOneAndUpdate(
+      { jobId: requestId },
+      {
+        status: 'failed',
+        error: error.message,
+        errorStack: process.env.NODE_ENV !== 'production' ? error.stack : undefined,
+        completedAt: new Date()
+      }
+    );
+
+    // Tell the user on the final attempt - their original script is unchanged
+    if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+      try {
+        await sendTextMessage(
+          subscriberId,
+          `❌ Couldn't ${description} this time. Your original script is unchanged - try again in a minute!`
+        );
+      } catch (e) {
+        logger.warn('Failed to send error message', e);
+      }
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Process a section regeneration job
+ * Rewrites one section; the other sections are passed as fixed context
+ */
+async function processSectionJob(job: BullJob<SectionJobData>): Promise<ScriptJobResult> {
+  const { requestId, subscriberId, section, reason } = job.data;
+
+  return processRevisionJob(job, `rewrite the ${section}`, async (parent, current) => {
+    // Reference DNA is optional here - the fixed sections carry most of the context
+    let videoAnalysis: VideoAnalysis | null = null;
+    try {
+      const cachedDNA = await ReelDNA.findOne({ reelUrlHash: generateReelHash(parent.reelUrl) }).lean();
+      if (cachedDNA) videoAnalysis = normalizeVideoAnalysis(cachedDNA.analysis);
+    } catch (dnaError: any) {
+      logger.warn(`[${requestId}] Non-critical: Failed to load ReelDNA: ${dnaError.message}`);
+    }
+
+    const regenerated = await regenerateSection({
+      script: current,
+      section,
+      userIdea: parent.userIdea,
+      reason,
+      transcript: videoAnalysis?.transcript,
+      visualAnalysis: videoAnalysis,
+      promptVariant: assignPromptVariant(subscriberId).variant
+    });
+
+    // Splice it in (other sections untouched)
+    return {
+      script: {
+        sections: SECTION_ORDER
+          .map(kind => kind === section ? regenerated : getSection(current, kind))
+          .filter((s): s is ScriptSection => Boolean(s))
+      },
+      revision: { type: 'section_regen', section, reason }
+    };
+  });
+}
+
+/**
+ * Process a refinement job ("shorter", "funnier", "in Hindi")
+ * Text-only edit of the previous script - no reel download or analysis
+ */
+async function processRefineJob(job: BullJob<RefineJobData>): Promise<ScriptJobResult> {
+  const { subscriberId, instruction } = job.data;
+
+  return processRevisionJob(job, 'apply that edit', async (parent, current) => ({
+    script: await refineScript({
+      script: current,
+      userIdea: parent.userIdea,
+      instruction,
+      promptVariant: assignPromptVariant(subscriberId).variant
+    }),
+    revision: { type: 'refine', instruction }
+  }));
+}
+
+/**
+ * Process a quality scoring job (LLM judge rubric → DatasetV2 qualityMetrics)
+ * Runs after delivery; the recomputed quality score feeds training selection
+ */
+async function processScoreJob(job: BullJob<ScoreJobData>): Promise<{ success: boolean; qualityScore?: number }> {
+  const { requestId, requestHash } = job.data;
+
+  const entry = await DatasetEntryV2.findOne({ 'input.requestHash': requestHash });
+  if (!entry) {
+    // Throw so BullMQ retries - the entry may not be visible yet
+    throw new Error(`DatasetV2 entry not found for ${requestHash}`);
+  }
+  if (entry.qualityMetrics?.scoredAt) {
+    logger.info(`[${requestId}] Already scored, skipping`);
+    return { success: true, qualityScore: entry.training.qualityScore };
+  }
+
+  const rubric = await scoreQualityRubric(entry.output.generatedScript, {
+    userIdea: entry.input.userIdea,
+    mode: entry.input.mode,
+    languageHint: entry.input.languageHint,
+    transcript: entry.input.transcript
+  });
+
+  entry.qualityMetrics = {
+    ...entry.qualityMetrics,
+    hookStrength: rubric.hookStrength,
+    ctaClarity: rubric.ctaClarity,
+    pacing: rubric.pacing,
+    originalityScore: rubric.originalityScore,
+    predictedEngagement: rubric.predictedEngagement,
+    judgeModel: rubric.judgeModel,
+    scoredAt: new Date()
+  };
+  const qualityScore = entry.calculateQualityScore();
+  entry.qualityMetrics.overallScore = qualityScore;
+  entry.training.qualityScore = qualityScore;
+  entry.markModified('qualityMetrics');
+  await entry.save();
+
+  logger.info(`[${requestId}] ✅ Scored (hook ${rubric.hookStrength}, cta ${rubric.ctaClarity}, pacing ${rubric.pacing}) → quality ${qualityScore}`);
+  return { success: true, qualityScore };
+}
+
+/**
+ * Output of the generate stage (checkpointed on the Job record)
+ */
+interface GenerateStageOutput {
+  scriptText: string;
+  transcript: string | null;
+  videoAnalysis: VideoAnalysis | null;
+  frameCount: number;
+  videoDurationSeconds?: number;
+  analysisFailures: AnalysisFailure[];
+  qualityFailures: QualityGateFailure[];
+  qualityRepairs: number;
+  ranking: CandidateRanking | null;
+  usedTier1Cache: boolean;
+  analysisTimeMs: number;
+  scriptGenTimeMs: number;
+  /** Stage wall time, recorded as the dataset's totalTimeMs */
+  generationTimeMs: number;
+  promptVariantId: string;
+  experimentId?: string;
+  previousScriptIds: string[];
+}
+
+interface RenderStageOutput {
+  imageUrl: string;
+  imageGenerationTimeMs: number;
+}
+
+interface PersistStageOutput {
+  scriptId: string | null;
+  scriptUrl: string;
+}
+
+/**
+ * Process a script generation job as checkpointed stages
+ * (generate → render → persist → deliver, see queue/pipeline.ts).
+ * A BullMQ retry resumes after the last stage that completed.
+ */
+async function processJob(job: BullJob<ScriptJobData>): Promise<ScriptJobResult> {
+  const { 
+    requestId, 
+    subscriberId, 
+    userIdea,
+    toneHint,
+    mode,
+    isCopyMode
+  } = job.data;
+  
+  logger.info(`[${requestId}] Starting job processing (attempt ${job.attemptsMade + 1})${toneHint ? ` [tone: ${toneHint}]` : ''}${mode === 'hook_only' ? ' [hook only]' : ''}${isCopyMode ? ' [COPY MODE]' : ''}`);
+  
+  // Register before the status check so a cancel sent in between still reaches us
+  const controller = registerRunningJob(requestId);
+  
+  // Update job status in MongoDB (unless it was cancelled while queued)
+  const record = await Job.findOneAndUpdate(
+    { jobId: requestId, status: { $ne: 'cancelled' } },
+    { 
+      status: 'processing',
+      startedAt: new Date(),
+      attempts: job.attemptsMade + 1
+    }
+  );
+  if (!record && await Job.exists({ jobId: requestId, status: 'cancelled' })) {
+    unregisterRunningJob(requestId);
+    logger.info(`[${requestId}] Job was cancelled before it started`);
+    throw new JobCancelledError(requestId);
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const pipeline = await loadPipelineContext(requestId, requestId, controller.signal);
+
+    // A-C. Download, extract, analyze, generate, quality gate
+    const generated = await runStage(pipeline, 'generate', signal => runGenerateStage(job, signal));
+    const { scriptText } = generated;
+    await reportProgress(job, 'rendering', 75);
+
+    // D. Generate script image FIRST (so we can cache the URL)
+    const rendered = await runStage<RenderStageOutput>(pipeline, 'render', async () => {
+      logger.info(`[${requestId}] Generating script image...`);
+      const imageStartTime = Date.now();
+      const imageUrl = await withCircuitBreaker('imgbb', async () => {
+        return generateScriptImage(scriptText);
+      });
+      return { imageUrl, imageGenerationTimeMs: Date.now() - imageStartTime };
+    });
+    const { imageUrl } = rendered;
+    await reportProgress(job, 'delivering', 80);
+
+    // E. Script, datasets, score job - no cancelling past this point
+    await commitJob(requestId);
+    const persisted = await runStage(pipeline, 'persist', () => runPersistStage(job, generated, rendered));
+    await reportProgress(job, 'delivering', 90);
+
+    // G. Send to ManyChat (with copy-friendly link)
+    await runStage(pipeline, 'deliver', async (signal) => {
+      checkAborted(signal, requestId);
+      await withCircuitBreaker('manychat', async () => {
+        return sendToManyChat({
+          subscriber_id: subscriberId,
+          field_name: 'script_image_url',
+          field_value: imageUrl,
+          scriptUrl: persisted.scriptUrl  // NEW: Include copy-friendly URL
+        });
+      });
+
+      // G2. Remember this script for follow-ups ("redo the hook", feedback)
+      try {
+        if (persisted.scriptId) {
+          await sessionManager.setGenerationResult(subscriberId, job.data.requestHash, persisted.scriptId);
+        }
+      } catch (sessionError: any) {
+        logger.warn(`[${requestId}] Non-critical: Failed to update session: ${sessionError.message}`);
+      }
+      return { deliveredAt: new Date() };
+    });
+
+    // G. Update job status
+    await Job.findOneAndUpdate(
+      { jobId: requestId, status: { $ne: 'cancelled' } },
+      {
+        status: 'completed',
+        completedAt: new Date(),
+        processingTimeMs: Date.now() - startTime,
+        result: { scriptText, imageUrl }
+      }
+    );
+
+    const totalDuration = Date.now() - startTime;
+    recordJobDuration(totalDuration, { status: 'success' });
+    logger.info(`[${requestId}] Job completed successfully in ${totalDuration}ms`);
+    await reportProgress(job, 'delivering', 100);
+
+    return {
+      success: true,
+      scriptText,
+      imageUrl
+    };
+
+  } catch (error: any) {
+    const totalDuration = Date.now() - startTime;
+    
+    // Cancelled by the user: the Job record is already 'cancelled', no fallback
+    if (error instanceof JobCancelledError) {
+      recordJobDuration(totalDuration, { status: 'cancelled' });
+      logger.info(`[${requestId}] Job cancelled after ${totalDuration}ms`);
+      throw error;
+    }
+    
+    // Determine error type for metrics
+    const errorType = classifyJobError(error);
+    
+    recordError(errorType);
+    recordJobDuration(totalDuration, { status: 'failed' });
+    logger.error(`[${requestId}] Job failed (${errorType}):`, error);
+
+    // Update job status to failed
+    // SECURITY: Don't store full stack traces in production (exposes internal paths)
+    await Job.findOneAndUpdate(
+      { jobId: requestId },
+      {
+        status: 'failed',
+        error: error.message,
+        errorStack: process.env.NODE_ENV !== 'production' ? error.stack : undefined,
+        completedAt: new Date()
+      }
+    );
+
+    // Send fallback script on final attempt
+    if (job.attemptsMade >= 2) {
+      const fallbackScript = `I couldn't watch that specific reel, but here is a script based on your idea:
+      
+[HOOK]
+(Start with a strong statement about ${userIdea})
+
+[BODY]
+(Explain your main point about ${userIdea})
 
-    throw error;
+[CTA]
+(Tell them to comment or follow)`;
 
-  } finally {
-    // Cleanup downloaded files
-    if (videoPath) {
-      cleanupFiles([videoPath, audioPath]);
-    }
-    if (frameDir) {
-      cleanupFrames(frameDir);
+      try {
+        await sendToManyChat({
+          subscriber_id: subscriberId,
+          field_name: 'AI_Script_Result',
+          field_value: fallbackScript
+        });
+      } catch (manyChatError) {
+        logger.error(`[${requestId}] Failed to send fallback:`, manyChatError);
+      }
     }
-  }
-}
 
-/**
- * Process a script generation job with timeout protection
- * This is the main worker function that handles all the heavy lifting
- */
-async function processJob(job: BullJob<ScriptJobData>): Promise<ScriptJobResult> {
-  const abortController = new AbortController();
-  const timeoutId = setTimeout(() => abortController.abort(), JOB_TIMEOUT_MS);
-  
-  try {
-    return await processJobWithTimeout(job, abortController.signal);
+    throw error; // Re-throw to trigger BullMQ retry
   } finally {
-    clearTimeout(timeoutId);
+    unregisterRunningJob(requestId);
   }
 }
 
 /**
- * Actual job processing logic with abort signal support
+ * Generate stage: reel analysis (Tier 1 cache or download) + script generation
+ * + quality gate. Owns the temp files, which are removed when it ends.
  */
-async function processJobWithTimeout(
+async function runGenerateStage(
   job: BullJob<ScriptJobData>, 
   signal: AbortSignal
-): Promise<ScriptJobResult> {
+): Promise<GenerateStageOutput> {
   const { 
     requestId, 
-    requestHash, 
     subscriberId, 
     reelUrl, 
     userIdea,
@@ -323,48 +948,55 @@ async function processJobWithTimeout(
     mode,
     isCopyMode // When true, output transcript as-is formatted as script
   } = job.data;
-  
-  logger.info(`[${requestId}] Starting job processing (attempt ${job.attemptsMade + 1})${toneHint ? ` [tone: ${toneHint}]` : ''}${mode === 'hook_only' ? ' [hook only]' : ''}${isCopyMode ? ' [COPY MODE]' : ''}`);
-  
-  // Update job status in MongoDB
-  await Job.findOneAndUpdate(
-    { jobId: requestId },
-    { 
-      status: 'processing',
-      startedAt: new Date(),
-      attempts: job.attemptsMade + 1
-    }
-  );
 
   let videoPath: string | null = null;
   let audioPath: string | null = null;
   let frameDir: string | null = null;
+  let releaseAnalysis = async () => {};
   const startTime = Date.now();
 
   try {
-    // Check abort signal periodically
     checkAborted(signal, requestId);
     
     // Report progress
-    await job.updateProgress(10);
+    await reportProgress(job, 'downloading', 10);
 
     // ==== TIER 1 CACHE CHECK: Reuse video analysis if available ====
     const reelHash = generateReelHash(reelUrl);
-    const cachedDNA = await ReelDNA.findOne({ reelUrlHash: reelHash }).lean();
+    const platform = detectVideoSource(reelUrl) || 'instagram';
+    let cachedDNA = await ReelDNA.findOne({ reelUrlHash: reelHash }).lean();
+    
+    // Single-flight: on a miss, one job per reel analyzes it and concurrent
+    // jobs wait for its ReelDNA instead of paying Gemini again
+    if (!cachedDNA) {
+      const flight = await joinReelAnalysis(reelHash, requestId, signal, startTime);
+      cachedDNA = flight.cachedDNA;
+      releaseAnalysis = flight.release;
+    }
     
     let videoAnalysis: VideoAnalysis | null = null;
     let transcript: string | null = null;
     let frames: string[] = [];
+    const analysisFailures: AnalysisFailure[] = [];
     let usedTier1Cache = false;
     let scriptText = '';
     let scriptGenStartTime = 0;
+    let ranking: CandidateRanking | null = null;
+    let qualityFailures: QualityGateFailure[] = [];
+    let qualityRepairs = 0;
+    let analysisTimeMs = 0;
+    let videoDurationSeconds: number | undefined;
+
+    // Prompt variant (experiment split, or the feedback bandit when enabled)
+    const { variant: promptVariant, experimentId } = await selectPromptVariant(subscriberId, requestId);
 
     // C. Lookup previous scripts for this reel (Expert: learn from history)
     // Find scripts with SAME idea (for variation) AND different ideas (for context)
     let previousScripts: { idea: string; script: string; isSameIdea: boolean }[] = [];
     let previousScriptSummaries: { idea: string; hookSummary: string; angleSummary: string; isSameIdea: boolean }[] = [];
+    let previousScriptIds: string[] = [];
     try {
-      const normalizedUrl = normalizeInstagramUrl(reelUrl);
+      const normalizedUrl = normalizeReelUrl(reelUrl);
       
       // Expert Lookup: Find scripts sharing the same normalized URL
       const previousScriptsRaw = await Script.find({ 
@@ -381,17 +1013,17 @@ async function processJobWithTimeout(
       const differentIdeaScripts = previousScriptsRaw.filter(ps => 
         ps.userIdea?.toLowerCase().trim() !== userIdea?.toLowerCase().trim()
       );
+      previousScriptIds = sameIdeaScripts.map(ps => String(ps._id));
       
       // For same-idea scripts (regeneration), extract SUMMARIES to help AI create distinct content
       // We don't pass full scripts - just key hooks/angles to avoid repetition
       previousScriptSummaries = sameIdeaScripts.slice(0, 3).map(ps => {
-        const scriptText = ps.scriptText || '';
-        // Extract hook line (first SAY: content)
-        const hookMatch = scriptText.match(/\[HOOK\][\s\S]*?💬\s*SAY:\s*["']?([^"'\n]+)/i);
-        const hookSummary = hookMatch?.[1]?.substring(0, 100) || 'Unknown hook';
-        // Extract angle/approach summary
-        const bodyMatch = scriptText.match(/\[BODY\][\s\S]*?💬\s*SAY:\s*["']?([^"'\n]+)/i);
-        const angleSummary = bodyMatch?.[1]?.substring(0, 80) || 'Unknown angle';
+        const parsed = parseScript(ps.scriptText || '');
+        // Hook line (first SAY in hook) and angle (first SAY in body)
+        const hookSay = getSection(parsed, 'hook')?.beats.find(b => b.say)?.say;
+        const hookSummary = hookSay?.substring(0, 100) || 'Unknown hook';
+        const bodySay = getSection(parsed, 'body')?.beats.find(b => b.say)?.say;
+        const angleSummary = bodySay?.substring(0, 80) || 'Unknown angle';
         
         return {
           idea: ps.userIdea,
@@ -427,16 +1059,16 @@ async function processJobWithTimeout(
       
       // We need the transcript, either from cache or by analyzing
       if (cachedDNA?.analysis?.transcript) {
-        transcript = cachedDNA.analysis.transcript;
-        videoAnalysis = cachedDNA.analysis;
+        videoAnalysis = normalizeVideoAnalysis(cachedDNA.analysis);
+        transcript = videoAnalysis.transcript;
         usedTier1Cache = true;
         logger.info(`[${requestId}] Using cached transcript for copy`);
       } else {
         // Need to download and analyze to get transcript
         logger.info(`[${requestId}] No cached transcript - downloading video for analysis...`);
         
-        videoPath = await downloadReel(reelUrl, requestId);
-        await job.updateProgress(25);
+        videoPath = await acquireVideo(reelUrl, requestId);
+        await reportProgress(job, 'extracting', 25);
         
         const framePromise = extractFrames(videoPath, requestId, { quality: 5, width: 480 });
         const audioPromise = extractAudio(videoPath, requestId);
@@ -444,14 +1076,19 @@ async function processJobWithTimeout(
         const [frameResult, audioResult] = await Promise.all([framePromise, audioPromise]);
         frames = frameResult.frames;
         audioPath = audioResult;
+        videoDurationSeconds = frameResult.videoDuration;
         if (frames.length > 0) frameDir = path.dirname(frames[0]);
         
-        await job.updateProgress(40);
+        await reportProgress(job, 'analyzing', 40);
         
         // Analyze to get transcript
-        videoAnalysis = await withCircuitBreaker('gemini', async () => {
+        const analysisStartTime = Date.now();
+        const outcome = await withCircuitBreaker('gemini', async () => {
           return analyzeVideo({ frames, audioPath, includeAudio: true });
         });
+        videoAnalysis = { ...outcome.analysis, shots: frameResult.shots };
+        analysisFailures.push(...outcome.failures);
+        analysisTimeMs = Date.now() - analysisStartTime;
         
         transcript = videoAnalysis.transcript;
         
@@ -460,15 +1097,17 @@ async function processJobWithTimeout(
           { reelUrlHash: reelHash },
           {
             reelUrlHash: reelHash,
-            reelUrl: normalizeInstagramUrl(reelUrl),
+            reelUrl: normalizeReelUrl(reelUrl),
+            platform,
             analysis: videoAnalysis,
+            analysisFailures: outcome.failures,
             expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
           },
           { upsert: true }
         );
       }
       
-      await job.updateProgress(60);
+      await reportProgress(job, 'generating', 60);
       
       // Format transcript as a proper script (COPY mode output)
       scriptText = formatTranscriptAsScript(transcript, videoAnalysis);
@@ -482,10 +1121,10 @@ async function processJobWithTimeout(
       // ============================================
       // We have the analysis, simple text generation call (1 Call)
       logger.info(`[${requestId}] ✅ Tier 1 Cache HIT (Reel DNA found) - Using cached analysis`);
-      videoAnalysis = cachedDNA.analysis;
+      videoAnalysis = normalizeVideoAnalysis(cachedDNA.analysis);
       transcript = videoAnalysis.transcript;
       usedTier1Cache = true;
-      await job.updateProgress(60); 
+      await reportProgress(job, 'generating', 60);
 
       // Check abort signal before AI call
       checkAborted(signal, requestId);
@@ -493,19 +1132,26 @@ async function processJobWithTimeout(
       logger.info(`[${requestId}] Generating script (Text Mode)...`);
       scriptGenStartTime = Date.now();
       
-      // Use circuit breaker for Gemini API
-      scriptText = await withCircuitBreaker('gemini', async () => {
-        return generateScript({
-          userIdea,
-          transcript,
-          visualAnalysis: videoAnalysis,
-          toneHint,
-          languageHint,
-          mode,
-          previousScripts: previousScripts.map(ps => ({ idea: ps.idea, script: ps.script })),
-          previousVariationSummaries: previousScriptSummaries
-        });
-      });
+      // Use circuit breaker for Gemini API (one call per candidate)
+      ({ scriptText, ranking } = await generateRankedCandidates(
+        (temperature) => withCircuitBreaker('gemini', async () => {
+          return generateScript({
+            userIdea,
+            transcript,
+            visualAnalysis: videoAnalysis,
+            toneHint,
+            languageHint,
+            mode,
+            temperature,
+            promptVariant,
+            previousScripts: previousScripts.map(ps => ({ idea: ps.idea, script: ps.script })),
+            previousVariationSummaries: previousScriptSummaries
+          });
+        }),
+        config.SCRIPT_CANDIDATES,
+        { userIdea, mode, languageHint },
+        requestId
+      ));
       
       recordGeminiDuration(Date.now() - scriptGenStartTime);
 
@@ -523,8 +1169,8 @@ async function processJobWithTimeout(
 
       // A. Download video
       logger.info(`[${requestId}] Downloading video...`);
-      videoPath = await downloadReel(reelUrl, requestId);
-      await job.updateProgress(25);
+      videoPath = await acquireVideo(reelUrl, requestId);
+      await reportProgress(job, 'extracting', 25);
 
       // Check abort signal before extraction
       checkAborted(signal, requestId);
@@ -548,133 +1194,325 @@ async function processJobWithTimeout(
 
       frames = frameResult.frames;
       audioPath = audioResult;
+      videoDurationSeconds = frameResult.videoDuration;
       
       if (frames.length > 0) frameDir = path.dirname(frames[0]);
 
       logger.info(`[${requestId}] Frames extracted in ${frameResult.extractionTimeMs}ms`);
       recordVideoAnalysisDuration(Date.now() - extractionStartTime);
-      await job.updateProgress(40);
+      await reportProgress(job, 'analyzing', 40);
 
       // Check abort signal before AI call
       checkAborted(signal, requestId);
 
-      // C. Generate Script Directly (One-Shot)
-      logger.info(`[${requestId}] Generating script (One-Shot Video Mode)...`);
+      // C + D. One-shot generation, and alongside it the full analysis for the
+      // ReelDNA cache - saved as soon as it exists, so jobs waiting on this
+      // reel (see queue/singleFlight.ts) don't wait for generation too
+      logger.info(`[${requestId}] Generating script (One-Shot Video Mode) and analyzing video for ReelDNA cache...`);
       scriptGenStartTime = Date.now();
-      
-      scriptText = await withCircuitBreaker('gemini', async () => {
-        return generateScriptFromVideo({
-          userIdea,
-          frames,
-          audioPath,
-          transcript: null,
-          toneHint,
-          languageHint,
-          mode,
-          previousScripts: previousScripts.map(ps => ({ idea: ps.idea, script: ps.script })),
-          previousVariationSummaries: previousScriptSummaries
-        });
-      });
-      
-      recordGeminiDuration(Date.now() - scriptGenStartTime);
-      
-      // D. IMPORTANT: Do full analysis and save to ReelDNA cache
-      // This ensures future requests can use cached analysis with transcript
-      logger.info(`[${requestId}] Analyzing video for ReelDNA cache...`);
       const analysisStartTime = Date.now();
-      
-      videoAnalysis = await withCircuitBreaker('gemini', async () => {
+
+      const generation = generateRankedCandidates(
+        (temperature) => withCircuitBreaker('gemini', async () => {
+          return generateScriptFromVideo({
+            userIdea,
+            frames,
+            audioPath,
+            transcript: null,
+            toneHint,
+            languageHint,
+            mode,
+            temperature,
+            promptVariant,
+            shots: frameResult.shots,
+            previousScripts: previousScripts.map(ps => ({ idea: ps.idea, script: ps.script })),
+            previousVariationSummaries: previousScriptSummaries
+          });
+        }),
+        config.SCRIPT_CANDIDATES,
+        { userIdea, mode, languageHint },
+        requestId
+      ).then(result => {
+        recordGeminiDuration(Date.now() - scriptGenStartTime);
+        return result;
+      });
+
+      const analysis = withCircuitBreaker('gemini', async () => {
         return analyzeVideo({
           frames,
           audioPath,
           includeAudio: true
         });
+      }).then(async outcome => {
+        // Shot list comes from frame extraction, not the model
+        const analyzed: VideoAnalysis = { ...outcome.analysis, shots: frameResult.shots };
+        const analyzedInMs = Date.now() - analysisStartTime;
+        recordVideoAnalysisDuration(analyzedInMs);
+
+        // E. Save ReelDNA for future requests (with complete analysis + transcript!)
+        await ReelDNA.findOneAndUpdate(
+          { reelUrlHash: reelHash },
+          {
+            reelUrlHash: reelHash,
+            reelUrl: normalizeReelUrl(reelUrl),
+            platform,
+            analysis: analyzed,
+            analysisFailures: outcome.failures,
+            expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+          },
+          { upsert: true, new: true }
+        );
+        logger.info(`[${requestId}] ✅ ReelDNA cached with transcript for future use`);
+        return { analyzed, failures: outcome.failures, analyzedInMs };
       });
-      
+
+      // Both must finish before the temp files are removed
+      const [generated, analyzedReel] = await Promise.allSettled([generation, analysis]);
+      if (generated.status === 'rejected') throw generated.reason;
+      if (analyzedReel.status === 'rejected') throw analyzedReel.reason;
+
+      ({ scriptText, ranking } = generated.value);
+      videoAnalysis = analyzedReel.value.analyzed;
+      analysisFailures.push(...analyzedReel.value.failures);
       transcript = videoAnalysis.transcript;
-      recordVideoAnalysisDuration(Date.now() - analysisStartTime);
-      
-      // E. Save ReelDNA for future requests (with complete analysis + transcript!)
-      await ReelDNA.findOneAndUpdate(
-        { reelUrlHash: reelHash },
-        {
-          reelUrlHash: reelHash,
-          reelUrl: normalizeInstagramUrl(reelUrl),
-          analysis: videoAnalysis,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-        },
-        { upsert: true, new: true }
+      analysisTimeMs = analyzedReel.value.analyzedInMs;
+    }
+
+    // Quality gate: targeted repair before delivery (COPY mode is the original transcript)
+    if (!isCopyMode) {
+      checkAborted(signal, requestId);
+      const gate = await enforceQualityGate(
+        scriptText,
+        { mode },
+        (failingScript, problems) => withCircuitBreaker('gemini', async () => {
+          return repairScript({ scriptText: failingScript, problems, userIdea, mode, languageHint, promptVariant });
+        }),
+        requestId
       );
-      
-      logger.info(`[${requestId}] ✅ ReelDNA cached with transcript for future use`);
+      scriptText = gate.scriptText;
+      qualityFailures = gate.failures;
+      qualityRepairs = gate.repairs;
     }
 
     const scriptGenTimeMs = Date.now() - scriptGenStartTime;
-    await job.updateProgress(75);
 
-    const generationTimeMs = Date.now() - startTime;
-
-    // Check abort signal before image generation
-    checkAborted(signal, requestId);
+    return {
+      scriptText,
+      transcript,
+      videoAnalysis,
+      frameCount: frames?.length || 0,
+      videoDurationSeconds,
+      analysisFailures,
+      qualityFailures,
+      qualityRepairs,
+      ranking,
+      usedTier1Cache,
+      analysisTimeMs,
+      scriptGenTimeMs,
+      generationTimeMs: Date.now() - startTime,
+      promptVariantId: promptVariant.id,
+      experimentId,
+      previousScriptIds
+    };
+  } finally {
+    // Waiting jobs see the saved ReelDNA, or take over if this job failed
+    await releaseAnalysis();
+    
+    // Cleanup files
+    cleanupFiles([videoPath, audioPath]);
+    if (frameDir) {
+      cleanupFrames(frameDir);
+    }
+  }
+}
 
-    // D. Generate script image FIRST (so we can cache the URL)
-    logger.info(`[${requestId}] Generating script image...`);
-    const imageUrl = await withCircuitBreaker('imgbb', async () => {
-      return generateScriptImage(scriptText);
-    });
-    await job.updateProgress(80);
+/**
+ * Persist stage: Script document (with public link), V1 + V2 dataset entries
+ * and the rubric score job
+ */
+async function runPersistStage(
+  job: BullJob<ScriptJobData>,
+  generated: GenerateStageOutput,
+  rendered: RenderStageOutput
+): Promise<PersistStageOutput> {
+  const {
+    requestId,
+    requestHash,
+    subscriberId,
+    reelUrl,
+    userIdea,
+    toneHint,
+    languageHint,
+    mode,
+    isCopyMode,
+    variationIndex = 0,
+    triggerType = 'guided',
+    isDefaultIdea = false
+  } = job.data;
+  const {
+    scriptText,
+    transcript,
+    videoAnalysis,
+    frameCount,
+    analysisFailures,
+    qualityFailures,
+    qualityRepairs,
+    ranking,
+    usedTier1Cache,
+    analysisTimeMs,
+    scriptGenTimeMs,
+    generationTimeMs,
+    experimentId,
+    previousScriptIds
+  } = generated;
+  const { imageUrl, imageGenerationTimeMs } = rendered;
+  const platform = detectVideoSource(reelUrl) || 'instagram';
+  const promptVariant = getPromptVariant(generated.promptVariantId);
+  let videoDurationSeconds = generated.videoDurationSeconds;
+
+  // D2. Public ID for copy-friendly link (collision-safe). A retried persist
+  // keeps the ID of the Script an earlier attempt saved, so links stay valid.
+  const existingScript = await Script.findOne({ requestHash }, { publicId: 1 }).lean();
+  const publicId = existingScript?.publicId || await generateUniquePublicId();
+  const scriptUrl = buildScriptUrl(publicId);
+  logger.info(`[${requestId}] Script URL: ${scriptUrl}`);
+
+  // Primary model of the active provider (recorded for dataset/model comparisons)
+  const llm = getLLMProvider();
+  const scriptModel = (usedTier1Cache ? llm.textModels[0] : llm.multimodalModels[0]) || llm.name;
+
+  // E. Save to MongoDB (Script collection) - including imageUrl and scriptUrl
+  const savedScript = await Script.findOneAndUpdate(
+    { requestHash },
+    {
+      requestHash,
+      publicId,
+      manychatUserId: subscriberId,
+      reelUrl,
+      platform,
+      userIdea,
+      scriptText,
+      structuredScript: parseScript(scriptText),
+      imageUrl,
+      scriptUrl,
+      generationTimeMs,
+      modelVersion: scriptModel
+    },
+    { upsert: true, new: true }
+  );
 
-    // D2. Generate public ID for copy-friendly link (collision-safe)
-    const publicId = await generateUniquePublicId();
-    const scriptUrl = buildScriptUrl(publicId);
-    logger.info(`[${requestId}] Script URL: ${scriptUrl}`);
+  // E. Save to Dataset for ML training (Enhanced schema v2.0)
+  // For One-Shot, analysis fields will be empty/undefined.
+  const scriptSections = parseScriptSections(scriptText);
+  if (!videoDurationSeconds && videoAnalysis?.shots?.length) {
+    videoDurationSeconds = videoAnalysis.shots[videoAnalysis.shots.length - 1].endSec;
+  }
+  
+  // Upsert by requestHash: a retried persist must not add a second row
+  await DatasetEntry.updateOne({ 'input.requestHash': requestHash }, { $setOnInsert: {
+    // INPUT FEATURES
+    input: {
+      videoUrl: reelUrl,
+      platform,
+      userIdea,
+      requestHash,
+      
+      // User preferences (hints)
+      toneHint,
+      languageHint,
+      mode: mode || 'full',
+      
+      // Video analysis results (May be empty for One-Shot)
+      transcript: transcript || undefined,
+      transcriptWordCount: countWords(transcript || undefined),
+      visualCues: videoAnalysis?.visualCues || [],
+      hookType: videoAnalysis?.hookType,
+      detectedTone: videoAnalysis?.tone,
+      sceneDescriptions: videoAnalysis?.sceneDescriptions || [],
+      videoDurationSeconds,
+      frameCount
+    },
+    
+    // OUTPUT FEATURES
+    output: {
+      generatedScript: scriptText,
+      scriptSections,
+      visualDirections: extractVisualLines(scriptText),
+      dialogueLines: extractDialogueLines(scriptText),
+      scriptLengthChars: scriptText.length,
+      estimatedSpokenDuration: estimateSpokenDuration(scriptText),
+      hookLengthChars: scriptSections.hook?.length || 0,
+      bodyLengthChars: scriptSections.body?.length || 0,
+      ctaLengthChars: scriptSections.cta?.length || 0
+    },
+    
+    // FEEDBACK (defaults, updated later via feedback API)
+    feedback: {
+      wasAccepted: true,
+      sectionFeedback: {
+        hook: { wasRegenerated: false },
+        body: { wasRegenerated: false },
+        cta: { wasRegenerated: false }
+      }
+    },
+    
+    // GENERATION METADATA
+    generation: {
+      analysisModel: usedTier1Cache ? llm.multimodalModels[0] : 'none',
+      scriptModel,
+      analysisTimeMs,
+      generationTimeMs: scriptGenTimeMs,
+      totalTimeMs: generationTimeMs,
+      analysisAttempts: 1 + analysisFailures.filter(f => f.kind === 'repair').length,
+      generationAttempts: (ranking?.candidates.length || 1) + qualityRepairs,
+      promptVersion: promptVariant.id
+    },
+    
+    // TRAINING FLAGS
+    training: {
+      isValidated: false,
+      qualityScore: 50, // Default, recomputed on feedback
+      includedInTraining: false,
+      datasetVersion: DATASET_VERSION,
+      schemaVersion: '2.0.0'
+    }
+  } }, { upsert: true });
 
-    // E. Save to MongoDB (Script collection) - including imageUrl and scriptUrl
-    await Script.findOneAndUpdate(
-      { requestHash },
-      {
-        requestHash,
-        publicId,
-        manychatUserId: subscriberId,
-        reelUrl,
-        userIdea,
-        scriptText,
-        imageUrl,
-        scriptUrl,
-        generationTimeMs,
-        modelVersion: 'gemini-2.5-flash' // 2.5 Flash
+  // E2. Save DatasetV2 entry (user/variation context, experiment, cache flags, failures)
+  try {
+    const userContext = await getUserContext(subscriberId);
+    const generationAttempts = (ranking?.candidates.length || 1) + qualityRepairs;
+
+    await DatasetEntryV2.updateOne({ 'input.requestHash': requestHash }, { $setOnInsert: {
+      user: userContext,
+      variation: {
+        index: variationIndex,
+        previousScriptIds,
+        isRedo: variationIndex > 0 || triggerType === 'redo',
+        triggerType
       },
-      { upsert: true, new: true }
-    );
-
-    // E. Save to Dataset for ML training (Enhanced schema v2.0)
-    // For One-Shot, analysis fields will be empty/undefined.
-    const scriptSections = parseScriptSections(scriptText);
-    const analysisTimeMs = usedTier1Cache ? 0 : 0; // Effectively 0 separate analysis time
-    
-    await DatasetEntry.create({
-      // INPUT FEATURES
       input: {
         videoUrl: reelUrl,
+        platform,
         userIdea,
+        isDefaultIdea,
         requestHash,
-        
-        // User preferences (hints)
         toneHint,
         languageHint,
         mode: mode || 'full',
-        
-        // Video analysis results (May be empty for One-Shot)
         transcript: transcript || undefined,
         transcriptWordCount: countWords(transcript || undefined),
         visualCues: videoAnalysis?.visualCues || [],
         hookType: videoAnalysis?.hookType,
         detectedTone: videoAnalysis?.tone,
         sceneDescriptions: videoAnalysis?.sceneDescriptions || [],
-        frameCount: frames?.length || 0
+        videoDurationSeconds,
+        frameCount,
+        shotCount: videoAnalysis?.shots?.length
+      },
+      classification: {
+        niche: userContext.preferredNiche || 'general'
       },
-      
-      // OUTPUT FEATURES
       output: {
         generatedScript: scriptText,
         scriptSections,
@@ -684,10 +1522,25 @@ async function processJobWithTimeout(
         estimatedSpokenDuration: estimateSpokenDuration(scriptText),
         hookLengthChars: scriptSections.hook?.length || 0,
         bodyLengthChars: scriptSections.body?.length || 0,
-        ctaLengthChars: scriptSections.cta?.length || 0
+        ctaLengthChars: scriptSections.cta?.length || 0,
+        carouselDelivered: false,
+        imageUrls: { combined: imageUrl }
       },
-      
-      // FEEDBACK (defaults, updated later via feedback API)
+      failures: {
+        failedAttempts: [
+          ...analysisFailures.map(toFailedAttempt),
+          ...qualityFailures.map(toQualityGateAttempt)
+        ]
+      },
+      ...(ranking ? buildCandidateFields(ranking) : {}),
+      ...(!isCopyMode ? {
+        experiment: {
+          promptVariantId: promptVariant.id,
+          experimentId,
+          systemPromptHash: getSystemPromptHash(promptVariant, usedTier1Cache ? 'system' : 'oneShotSystem'),
+          modelConfig: { provider: llm.name, candidates: ranking?.candidates.length || 1 }
+        }
+      } : {}),
       feedback: {
         wasAccepted: true,
         sectionFeedback: {
@@ -696,194 +1549,161 @@ async function processJobWithTimeout(
           cta: { wasRegenerated: false }
         }
       },
-      
-      // GENERATION METADATA
       generation: {
-        analysisModel: usedTier1Cache ? 'gemini-2.5-flash' : 'none',
-        scriptModel: 'gemini-2.5-flash',
+        analysisModel: usedTier1Cache ? llm.multimodalModels[0] : 'none',
+        scriptModel,
         analysisTimeMs,
         generationTimeMs: scriptGenTimeMs,
+        imageGenerationTimeMs,
         totalTimeMs: generationTimeMs,
-        analysisAttempts: 1,
-        generationAttempts: 1,
-        promptVersion: 'steal-artist-one-shot-v1.0'
+        analysisAttempts: 1 + analysisFailures.filter(f => f.kind === 'repair').length,
+        generationAttempts,
+        promptVersion: promptVariant.id,
+        tier1CacheHit: usedTier1Cache,
+        // Jobs only run on a script cache miss - tier-2 hits are served by the API
+        tier2CacheHit: false
       },
-      
-      // TRAINING FLAGS
       training: {
         isValidated: false,
         qualityScore: 50, // Default, recomputed on feedback
         includedInTraining: false,
-        datasetVersion: '2.0.0',
-        schemaVersion: '2.0.0'
-      }
-    });
-    await job.updateProgress(90);
-
-    // Check abort signal before ManyChat
-    checkAborted(signal, requestId);
-
-    // G. Send to ManyChat (with copy-friendly link)
-    await withCircuitBreaker('manychat', async () => {
-      return sendToManyChat({
-        subscriber_id: subscriberId,
-        field_name: 'script_image_url',
-        field_value: imageUrl,
-        scriptUrl  // NEW: Include copy-friendly URL
-      });
-    });
-
-    // G. Update job status
-    await Job.findOneAndUpdate(
-      { jobId: requestId },
-      {
-        status: 'completed',
-        completedAt: new Date(),
-        processingTimeMs: Date.now() - startTime,
-        result: { scriptText, imageUrl }
-      }
-    );
-
-    const totalDuration = Date.now() - startTime;
-    recordJobDuration(totalDuration, { status: 'success' });
-    logger.info(`[${requestId}] Job completed successfully in ${totalDuration}ms`);
-    await job.updateProgress(100);
-
-    return {
-      success: true,
-      scriptText,
-      imageUrl
-    };
-
-  } catch (error: any) {
-    const totalDuration = Date.now() - startTime;
-    
-    // Determine error type for metrics
-    let errorType = 'unknown';
-    if (error instanceof JobTimeoutError) {
-      errorType = 'timeout';
-    } else if (error instanceof CircuitOpenError) {
-      errorType = 'circuit_open';
-    } else if (error.message?.includes('download')) {
-      errorType = 'download';
-    } else if (error.message?.includes('Gemini') || error.message?.includes('API')) {
-      errorType = 'api';
-    }
-    
-    recordError(errorType);
-    recordJobDuration(totalDuration, { status: 'failed' });
-    logger.error(`[${requestId}] Job failed (${errorType}):`, error);
-
-    // Update job status to failed
-    // SECURITY: Don't store full stack traces in production (exposes internal paths)
-    await Job.findOneAndUpdate(
-      { jobId: requestId },
-      {
-        status: 'failed',
-        error: error.message,
-        errorStack: process.env.NODE_ENV !== 'production' ? error.stack : undefined,
-        completedAt: new Date()
+        datasetVersion: DATASET_VERSION
       }
-    );
-
-    // Send fallback script on final attempt
-    if (job.attemptsMade >= 2) {
-      const fallbackScript = `I couldn't watch that specific reel, but here is a script based on your idea:
-      
-[HOOK]
-(Start with a strong statement about ${userIdea})
-
-[BODY]
-(Explain your main point about ${userIdea})
-
-[CTA]
-(Tell them to comment or follow)`;
+    } }, { upsert: true });
+  } catch (datasetError: any) {
+    // Non-critical: the user still gets their script
+    logger.warn(`[${requestId}] Non-critical: Failed to save DatasetV2 entry: ${datasetError.message}`);
+  }
 
-      try {
-        await sendToManyChat({
-          subscriber_id: subscriberId,
-          field_name: 'AI_Script_Result',
-          field_value: fallbackScript
-        });
-      } catch (manyChatError) {
-        logger.error(`[${requestId}] Failed to send fallback:`, manyChatError);
-      }
+  // E3. Queue rubric scoring (async, never blocks delivery)
+  if (config.QUALITY_SCORING && !isCopyMode) {
+    try {
+      await addScoreJob({ requestId, requestHash });
+    } catch (scoreError: any) {
+      logger.warn(`[${requestId}] Non-critical: Failed to queue score job: ${scoreError.message}`);
     }
+  }
+  return { scriptId: savedScript ? String(savedScript._id) : null, scriptUrl };
+}
 
-    throw error; // Re-throw to trigger BullMQ retry
-
-  } finally {
-    // Cleanup files
-    cleanupFiles([videoPath, audioPath]);
-    if (frameDir) {
-      cleanupFrames(frameDir);
-    }
+/**
+ * Route a job to its processor by job name
+ */
+async function processQueueJob(job: BullJob): Promise<any> {
+  if (job.name === 'copy') {
+    return processCopyJob(job as BullJob<CopyJobData>);
+  } else if (job.name === 'regenerate_section') {
+    return processSectionJob(job as BullJob<SectionJobData>);
+  } else if (job.name === 'refine') {
+    return processRefineJob(job as BullJob<RefineJobData>);
+  } else if (job.name === 'score') {
+    return processScoreJob(job as BullJob<ScoreJobData>);
+  } else {
+    return processJob(job as BullJob<ScriptJobData>);
   }
 }
 
 /**
- * Start the BullMQ worker
- * 
- * Concurrency is set to handle multiple jobs simultaneously
- * This is key for handling 100 concurrent users
+ * Start one pool's worker with the pool's concurrency and rate limit
  */
-export function startWorker(): Worker<any, any> {
-  const concurrency = parseInt(process.env.QUEUE_CONCURRENCY || '5', 10);
-  
-  worker = new Worker<any, any>(QUEUE_NAME, async (job) => {
-    // Route to appropriate processor based on job name
-    if (job.name === 'copy') {
-      return processCopyJob(job as BullJob<CopyJobData>);
-    } else {
-      return processJob(job as BullJob<ScriptJobData>);
-    }
-  }, {
+function startPoolWorker(pool: LanePool): Worker<any, any> {
+  const { concurrency, maxPerMinute } = pool.policy;
+  const name = poolQueueName(pool);
+
+  const laneWorker = new Worker<any, any>(name, processQueueJob, {
     connection: getRedis(),
     concurrency,
     limiter: {
-      max: 10,        // Max 10 jobs
-      duration: 60000 // Per minute (prevent API rate limits)
+      max: maxPerMinute,  // Jobs started per minute in this queue
+      duration: 60000     // (prevent API rate limits)
     }
   });
 
-  worker.on('ready', () => {
-    logger.info(`✅ BullMQ Worker ready (concurrency: ${concurrency})`);
+  laneWorker.on('ready', () => {
+    logger.info(`✅ BullMQ Worker ready [${name}: ${pool.lanes.join(', ')}] (concurrency: ${concurrency}, ${maxPerMinute} jobs/min)`);
   });
 
-  worker.on('active', (job) => {
-    logger.info(`Worker: Job ${job.id} started processing`);
+  laneWorker.on('active', (job) => {
+    const lane = pool.dedicated ? pool.lanes[0] : laneForPriority(job.opts.priority);
+    logger.info(`Worker: Job ${job.id} started processing [${lane}]`);
+    trackJobStarted(job, lane);
   });
 
-  worker.on('progress', (job, progress) => {
-    logger.info(`Worker: Job ${job.id} progress: ${progress}%`);
+  laneWorker.on('progress', (job, progress) => {
+    const { stage, percent } = normalizeProgress(progress);
+    logger.info(`Worker: Job ${job.id} progress: ${percent}%${stage ? ` (${stage})` : ''}`);
+    trackJobProgress(job, progress);
   });
 
-  worker.on('completed', (job) => {
+  laneWorker.on('completed', (job) => {
     logger.info(`Worker: Job ${job.id} completed`);
+    trackJobFinished(job.id);
   });
 
-  worker.on('failed', (job, error) => {
+  laneWorker.on('failed', async (job, error) => {
+    trackJobFinished(job?.id);
+
+    // Cancelled by the user - not a failure, nothing to record or retry
+    if (error instanceof JobCancelledError) {
+      logger.info(`Worker: Job ${job?.id} cancelled`);
+      return;
+    }
+
     logger.error(`Worker: Job ${job?.id} failed:`, error.message);
     logger.error(`Worker: Full error:`, error);
+    if (!job) return;
+
+    // Attempt history, then the dead-letter queue once BullMQ gives up
+    try {
+      await recordFailedAttempt(job, error);
+      if (isFinalFailure(job)) {
+        await moveToDeadLetter(job, error);
+      }
+    } catch (dlqError: any) {
+      logger.error(`Worker: Failed to dead-letter job ${job.id}:`, dlqError.message);
+    }
+  });
+
+  laneWorker.on('error', (error) => {
+    logger.error(`Worker error [${name}]:`, error);
   });
 
-  worker.on('error', (error) => {
-    logger.error('Worker error:', error);
+  return laneWorker;
+}
+
+/**
+ * Start the BullMQ workers - one per worker pool (see queue/lanes.ts)
+ * 
+ * Lanes share one pool by default and jobs run by lane priority, so premium
+ * jobs start first; lanes with their own limits get their own worker.
+ * role is reported in the worker heartbeat (api/worker/both).
+ */
+export function startWorker(role: string = 'both'): Worker<any, any>[] {
+  workers = LANE_POOLS.map(startPoolWorker);
+
+  // Lets the API list this process and its jobs (see queue/heartbeat.ts)
+  startHeartbeat(role);
+
+  // Cancel requests for jobs running in this process
+  startCancelListener().catch((error: any) => {
+    logger.error('Failed to start job cancel listener:', error.message);
   });
 
-  logger.info(`Worker created for queue: ${QUEUE_NAME}`);
-  return worker;
+  logger.info(`Workers created for queues: ${LANE_POOLS.map(pool => poolQueueName(pool)).join(', ')}`);
+  return workers;
 }
 
 /**
- * Stop the worker gracefully
+ * Stop the workers gracefully
  */
 export async function stopWorker(): Promise<void> {
-  if (worker) {
-    await worker.close();
-    worker = null;
-    logger.info('BullMQ Worker stopped');
+  if (workers.length > 0) {
+    await Promise.all(workers.map(laneWorker => laneWorker.close()));
+    await stopCancelListener();
+    await stopHeartbeat();
+    workers = [];
+    logger.info('BullMQ Workers stopped');
   }
 }
 
-export { worker };
+export { workers };
@@ -1,11 +1,15 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import { generateScriptHandler, generateScriptHandlerV2, getJobStatusHandler } from './api/generateScript';
-import { healthHandler, detailedHealthHandler } from './api/health';
+import { generateScriptHandler, generateScriptHandlerV2, getJobStatusHandler, getJobEventsHandler, cancelJobHandler } from './api/generateScript';
+import { healthHandler, detailedHealthHandler, workerHealthHandler } from './api/health';
 import { exportDatasetHandler } from './api/dataset';
 import { submitFeedbackHandler, getFeedbackStatsHandler } from './api/feedback';
 import { submitFeedbackHandlerV2, getFeedbackStatsHandlerV2, quickFeedbackHandler } from './api/feedbackV2';
 import { viewScriptHandler } from './api/viewScript';
+import { regenerateSectionHandler, refineScriptHandler } from './api/scriptRevisions';
+import { uploadVideoHandler } from './api/upload';
+import { getBanditStatsHandler, freezeBanditArmHandler, unfreezeBanditArmHandler } from './api/experiments';
+import { listDeadLettersHandler, replayDeadLetterHandler, replayDeadLettersHandler } from './api/deadLetter';
 import metricsRouter from './api/metrics';
 import { logger } from './utils/logger';
 import { config } from './config';
@@ -19,7 +23,9 @@ import {
   apiKeyAuth,
   userRateLimiter,
   checkUserBlocked,
-  betaAccessControl
+  betaAccessControl,
+  videoUploadMiddleware,
+  uploadSubscriberPrecheck
 } from './middleware';
 
 export function createServer() {
@@ -48,8 +54,8 @@ export function createServer() {
     origin: config.NODE_ENV === 'production' 
       ? ['https://manychat.com', /\.manychat\.com$/] 
       : '*',
-    methods: ['GET', 'POST'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key'],
+    methods: ['GET', 'POST', 'DELETE'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key', 'x-subscriber-id'],
     credentials: true
   }));
   
@@ -123,9 +129,42 @@ export function createServer() {
     generateScriptHandlerV2
   );
   
+  // Section regeneration ("redo just the hook") - saved as a new linked version
+  app.post('/api/v2/script/section/regenerate',
+    betaAccessControl,
+    checkUserBlocked,
+    userRateLimiter,
+    regenerateSectionHandler
+  );
+  
+  // Conversational refinement ("shorter", "in Hindi") - saved as a new linked version
+  app.post('/api/v2/script/refine',
+    betaAccessControl,
+    checkUserBlocked,
+    userRateLimiter,
+    refineScriptHandler
+  );
+  
+  // Direct video upload (instead of a reel URL)
+  // Access checks run on the query/header subscriber_id BEFORE the file is received
+  app.post('/api/v2/upload',
+    uploadSubscriberPrecheck,
+    betaAccessControl,
+    checkUserBlocked,
+    userRateLimiter,
+    videoUploadMiddleware,
+    uploadVideoHandler
+  );
+  
   // Job status endpoint
   app.get('/api/v1/job/:jobId', getJobStatusHandler);
 
+  // Live job progress (Server-Sent Events)
+  app.get('/api/v1/job/:jobId/events', getJobEventsHandler);
+
+  // Cancel a queued or running job (public - tied to subscriber_id)
+  app.delete('/api/v1/job/:jobId', cancelJobHandler);
+
   // Feedback submission (public - tied to subscriber_id)
   app.post('/api/v1/feedback', submitFeedbackHandler);
   
@@ -145,6 +184,16 @@ export function createServer() {
   app.get('/api/v1/feedback/stats', apiKeyAuth, getFeedbackStatsHandler);
   app.get('/api/v2/feedback/stats', apiKeyAuth, getFeedbackStatsHandlerV2);
 
+  // Prompt bandit (requires API key)
+  app.get('/api/v2/experiments/bandit', apiKeyAuth, getBanditStatsHandler);
+  app.post('/api/v2/experiments/bandit/freeze', apiKeyAuth, freezeBanditArmHandler);
+  app.post('/api/v2/experiments/bandit/unfreeze', apiKeyAuth, unfreezeBanditArmHandler);
+
+  // Dead-letter queue (requires API key)
+  app.get('/api/v2/jobs/dead-letter', apiKeyAuth, listDeadLettersHandler);
+  app.post('/api/v2/jobs/dead-letter/replay', apiKeyAuth, replayDeadLettersHandler);
+  app.post('/api/v2/jobs/dead-letter/:jobId/replay', apiKeyAuth, replayDeadLetterHandler);
+
   // ===== ERROR HANDLING =====
   
   // 404 Handler
@@ -173,3 +222,23 @@ export function createServer() {
 
   return app;
 }
+
+/**
+ * Minimal server for worker-only nodes (APP_ROLE=worker): health checks only
+ */
+export function createWorkerHealthServer() {
+  const app = express();
+
+  app.get('/health', healthHandler);
+  app.get('/health/detailed', workerHealthHandler);
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({
+      status: 'error',
+      code: 'NOT_FOUND',
+      message: `Endpoint not found: ${req.method} ${req.originalUrl}`
+    });
+  });
+
+  return app;
+}
@@ -25,17 +25,12 @@ import path from 'path';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { getVariationTag } from '../utils/hash';
+import { parseScript, getSection, ScriptBeat, ScriptSection, SectionKind } from '../utils/scriptParser';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-export interface ScriptSections {
-  hook: string[];
-  body: string[];
-  cta: string[];
-}
-
 export interface CarouselImages {
   hookCard: string;      // URL for hook card image
   bodyCard: string;      // URL for body card image
@@ -144,58 +139,20 @@ function escapeHtml(text: string): string {
 }
 
 /**
- * Parse script text into sections
+ * Join VISUAL and SAY content of a section's beats
  */
-export function parseScriptSections(scriptText: string): ScriptSections {
-  const sections: ScriptSections = { hook: [], body: [], cta: [] };
-  
-  // Split by section headers [HOOK], [BODY], [CTA]
-  const parts = scriptText.split(/\[(HOOK|BODY|CTA)\]/i);
-  
-  for (let i = 1; i < parts.length; i += 2) {
-    const header = parts[i]?.toUpperCase();
-    const content = parts[i + 1]?.trim() || '';
-    
-    const lines = content.split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0);
-    
-    if (header === 'HOOK') sections.hook = lines;
-    else if (header === 'BODY') sections.body = lines;
-    else if (header === 'CTA') sections.cta = lines;
-  }
-  
-  return sections;
+function extractVisualAndDialogue(beats: ScriptBeat[]): { visual: string; dialogue: string } {
+  const visual = beats.filter(b => b.visual).map(b => b.visual).join('\n');
+  const dialogue = beats.filter(b => b.say).map(b => b.say).join('\n');
+  return { visual, dialogue };
 }
 
 /**
- * Extract VISUAL and SAY content from lines
+ * Timing badge: script-provided timing wins over the default section timing
  */
-function extractVisualAndDialogue(lines: string[]): { visual: string; dialogue: string } {
-  let visual = '';
-  let dialogue = '';
-  
-  for (const line of lines) {
-    const isVisual = line.includes('🎬') || line.toLowerCase().includes('visual:');
-    const isSay = line.includes('💬') || line.toLowerCase().includes('say:');
-    
-    if (isVisual) {
-      const cleaned = line
-        .replace(/^🎬\s*/i, '')
-        .replace(/^visual:\s*/i, '')
-        .trim();
-      visual += (visual ? '\n' : '') + cleaned;
-    } else if (isSay) {
-      const cleaned = line
-        .replace(/^💬\s*/i, '')
-        .replace(/^say:\s*/i, '')
-        .replace(/^[""]|[""]$/g, '')  // Remove quotes
-        .trim();
-      dialogue += (dialogue ? '\n' : '') + cleaned;
-    }
-  }
-  
-  return { visual, dialogue };
+function formatSectionTiming(sectionKey: SectionKind, section?: ScriptSection): string {
+  if (!section?.timing) return SECTION_META[sectionKey].timing;
+  return `${section.timing.startSec}-${section.timing.endSec} sec`;
 }
 
 /**
@@ -214,12 +171,12 @@ function truncateText(text: string, maxLength: number): string {
  * Generate HTML template for a single section card
  */
 function generateCardTemplate(
-  sectionKey: 'hook' | 'body' | 'cta',
-  lines: string[],
+  sectionKey: SectionKind,
+  section: ScriptSection | undefined,
   variationTag: string
 ): string {
   const meta = SECTION_META[sectionKey];
-  const { visual, dialogue } = extractVisualAndDialogue(lines);
+  const { visual, dialogue } = extractVisualAndDialogue(section?.beats || []);
   
   // Truncate for card fit
   const displayVisual = truncateText(visual || 'Visual direction here...', 200);
@@ -242,7 +199,7 @@ function generateCardTemplate(
             <span style="font-size: 12px; font-weight: 700; color: ${meta.accent};">${variationTag}</span>
           </div>
           <div style="display: flex; background: rgba(255,255,255,0.05); border: 1px solid ${COLORS.border}; padding: 6px 14px; border-radius: 20px;">
-            <span style="font-size: 12px; font-weight: 600; color: ${COLORS.textDim};">⏱ ${meta.timing}</span>
+            <span style="font-size: 12px; font-weight: 600; color: ${COLORS.textDim};">⏱ ${formatSectionTiming(sectionKey, section)}</span>
           </div>
         </div>
       </div>
@@ -385,7 +342,7 @@ export async function generateCarouselImages(
   
   try {
     // Parse script into sections
-    const sections = parseScriptSections(scriptText);
+    const script = parseScript(scriptText);
     
     // Generate unique filenames with timestamp
     const timestamp = Date.now();
@@ -393,9 +350,9 @@ export async function generateCarouselImages(
     
     // Generate all 3 cards in parallel
     const [hookBuffer, bodyBuffer, ctaBuffer] = await Promise.all([
-      renderToPng(generateCardTemplate('hook', sections.hook, variationTag)),
-      renderToPng(generateCardTemplate('body', sections.body, variationTag)),
-      renderToPng(generateCardTemplate('cta', sections.cta, variationTag)),
+      renderToPng(generateCardTemplate('hook', getSection(script, 'hook'), variationTag)),
+      renderToPng(generateCardTemplate('body', getSection(script, 'body'), variationTag)),
+      renderToPng(generateCardTemplate('cta', getSection(script, 'cta'), variationTag)),
     ]);
     
     const renderTime = Date.now() - startTime;
@@ -432,14 +389,14 @@ export async function generateCarouselImages(
  * Useful for partial regeneration
  */
 export async function generateSectionImage(
-  sectionKey: 'hook' | 'body' | 'cta',
-  lines: string[],
+  section: ScriptSection,
   variationIndex: number = 0
 ): Promise<string> {
+  const sectionKey = section.kind;
   const variationTag = getVariationTag(variationIndex);
   const timestamp = Date.now();
   
-  const buffer = await renderToPng(generateCardTemplate(sectionKey, lines, variationTag));
+  const buffer = await renderToPng(generateCardTemplate(sectionKey, section, variationTag));
   return uploadImage(buffer, `section_${sectionKey}_${timestamp}.png`);
 }
 
@@ -458,6 +415,5 @@ export function isCarouselAvailable(): boolean {
 export default {
   generateCarouselImages,
   generateSectionImage,
-  parseScriptSections,
   isCarouselAvailable,
 };
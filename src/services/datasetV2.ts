@@ -0,0 +1,163 @@
+/**
+ * DatasetV2 - Building DatasetEntryV2 documents
+ *
+ * Shared by the worker (new generations) and the V1 → V2 backfill
+ * (src/cli/backfillDatasetV2.ts):
+ * - getUserContext   user block (tier, usage and learned preferences at generation time)
+ * - toTriggerType    API flow → variation.triggerType
+ * - convertV1Entry   a legacy DatasetEntry as a DatasetEntryV2 document
+ */
+
+import { logger } from '../utils/logger';
+import { User, IDatasetEntry, resolveUserTier } from '../db/models';
+import { UserMemory } from '../db/models/UserMemory';
+import { IDatasetEntryV2, TriggerType } from '../db/models/DatasetV2';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** training.datasetVersion of new rows, V1 and V2 alike (training filters match on it) */
+export const DATASET_VERSION = '2.0.0';
+
+/** input.userIdea of COPY-mode rows (transcript delivered as-is, no prompt) */
+export const COPY_MODE_IDEA = 'COPY_EXACT_TRANSCRIPT';
+
+/** Plain-object document for new DatasetEntryV2(...) */
+export type DatasetEntryV2Input = Record<string, any>;
+
+export type UserContext = Pick<IDatasetEntryV2['user'], 'subscriberId' | 'tier' | 'totalGenerationsAtTime' | 'avgRatingGiven' | 'preferredTone' | 'preferredNiche'>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// USER CONTEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * User block for a new entry. Missing records fall back to defaults -
+ * never throws (dataset writes are non-critical).
+ */
+export async function getUserContext(subscriberId: string): Promise<UserContext> {
+  const context: UserContext = {
+    subscriberId,
+    tier: 'free',
+    totalGenerationsAtTime: 0,
+    avgRatingGiven: 0,
+  };
+
+  try {
+    const [user, memory] = await Promise.all([
+      User.findOne({ subscriberId }).select('tier accessStatus').lean(),
+      UserMemory.findOne({ subscriberId }).select('stats preferences').lean(),
+    ]);
+
+    context.tier = resolveUserTier(user);
+
+    if (memory) {
+      context.totalGenerationsAtTime = memory.stats?.totalGenerations || 0;
+      context.avgRatingGiven = memory.stats?.avgRatingGiven || 0;
+      context.preferredTone = memory.preferences?.preferredTone;
+      context.preferredNiche = memory.preferences?.preferredNiches?.[0];
+    }
+  } catch (error: any) {
+    logger.warn(`[${subscriberId}] Non-critical: Failed to load user context: ${error.message}`);
+  }
+
+  return context;
+}
+
+/**
+ * variation.triggerType for an API flow (instant / redo / everything else = guided)
+ */
+export function toTriggerType(flowType?: string): TriggerType {
+  if (flowType === 'instant' || flowType === 'redo') return flowType;
+  return 'guided';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// V1 → V2
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Legacy DatasetEntry as a V2 document.
+ *
+ * Only what V1 recorded is carried over: user context, classification and
+ * experiment fields take their schema defaults. Timestamps are preserved so
+ * backfilled rows sort with the originals. V1 recorded a prompt version even
+ * for COPY-mode rows; they get the 'default' variant like new copy rows.
+ * The V1 row's training.datasetVersion is kept (same format as new rows).
+ */
+export function convertV1Entry(entry: IDatasetEntry, subscriberId: string): DatasetEntryV2Input {
+  const { input, output, feedback, generation, training } = entry;
+
+  return {
+    schemaVersion: '2.0',
+    user: { subscriberId },
+    input: {
+      videoUrl: input.videoUrl,
+      platform: input.platform || 'instagram',
+      userIdea: input.userIdea,
+      requestHash: input.requestHash,
+      toneHint: input.toneHint,
+      languageHint: input.languageHint,
+      mode: input.mode || 'full',
+      transcript: input.transcript,
+      transcriptLanguage: input.transcriptLanguage,
+      transcriptWordCount: input.transcriptWordCount,
+      visualCues: input.visualCues || [],
+      hookType: input.hookType,
+      detectedTone: input.detectedTone,
+      sceneDescriptions: input.sceneDescriptions || [],
+      videoDurationSeconds: input.videoDurationSeconds,
+      frameCount: input.frameCount,
+    },
+    output: {
+      generatedScript: output.generatedScript,
+      scriptSections: output.scriptSections || {},
+      visualDirections: output.visualDirections || [],
+      dialogueLines: output.dialogueLines || [],
+      scriptLengthChars: output.scriptLengthChars,
+      estimatedSpokenDuration: output.estimatedSpokenDuration,
+      hookLengthChars: output.hookLengthChars,
+      bodyLengthChars: output.bodyLengthChars,
+      ctaLengthChars: output.ctaLengthChars,
+    },
+    experiment: {
+      promptVariantId: (input.userIdea !== COPY_MODE_IDEA && generation?.promptVersion) || 'default',
+    },
+    feedback: {
+      overallRating: feedback?.overallRating,
+      wasAccepted: feedback?.wasAccepted ?? false,
+      sectionFeedback: feedback?.sectionFeedback || {},
+      feedbackText: feedback?.feedbackText,
+      videoPerformance: feedback?.videoPerformance,
+    },
+    generation: {
+      analysisModel: generation?.analysisModel,
+      scriptModel: generation?.scriptModel,
+      analysisTimeMs: generation?.analysisTimeMs,
+      generationTimeMs: generation?.generationTimeMs,
+      totalTimeMs: generation?.totalTimeMs,
+      analysisAttempts: generation?.analysisAttempts,
+      generationAttempts: generation?.generationAttempts,
+      promptVersion: generation?.promptVersion,
+    },
+    qualityMetrics: {
+      overallScore: training?.qualityScore ?? 50,
+    },
+    training: {
+      isValidated: training?.isValidated ?? false,
+      qualityScore: training?.qualityScore ?? 50,
+      includedInTraining: training?.includedInTraining ?? false,
+      trainingBatch: training?.trainingBatch,
+      datasetVersion: training?.datasetVersion || DATASET_VERSION,
+    },
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+export default {
+  getUserContext,
+  toTriggerType,
+  convertV1Entry,
+};
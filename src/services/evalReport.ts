@@ -0,0 +1,109 @@
+/**
+ * Eval Report - Self-contained HTML for an evaluation comparison
+ *
+ * One static file (inline CSS, no scripts): summary deltas, per-case scores
+ * and both scripts side by side, so a reviewer can read what changed.
+ */
+
+import { EvalComparison, EvalRun } from './evaluation';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '<span class="muted">n/a</span>';
+  const cls = delta > 0 ? 'up' : delta < 0 ? 'down' : 'muted';
+  return `<span class="${cls}">${delta > 0 ? '+' : ''}${delta}</span>`;
+}
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? '<span class="muted">-</span>' : String(value);
+}
+
+export function renderComparisonHtml(comparison: EvalComparison, base: EvalRun, candidate: EvalRun): string {
+  const { deltas } = comparison;
+  const baseById = new Map(base.results.map(result => [result.caseId, result]));
+  const candidateById = new Map(candidate.results.map(result => [result.caseId, result]));
+
+  const summaryRows = ([
+    [`${comparison.metric === 'overall' ? 'Overall' : 'Deterministic'} (avg, gated)`,
+      comparison.metric === 'overall' ? base.summary.avgOverall : base.summary.avgDeterministic,
+      comparison.metric === 'overall' ? candidate.summary.avgOverall : candidate.summary.avgDeterministic,
+      deltas.avgOverall],
+    ['Format compliance (avg)', base.summary.avgFormatCompliance, candidate.summary.avgFormatCompliance, deltas.avgFormatCompliance],
+    ['Romanization (avg)', base.summary.avgRomanization, candidate.summary.avgRomanization, deltas.avgRomanization],
+    ['Quality gate pass rate %', base.summary.qualityPassRate, candidate.summary.qualityPassRate, deltas.qualityPassRate],
+    ['Hook strength (avg, judge)', base.summary.avgHookStrength, candidate.summary.avgHookStrength, null],
+    ['Pacing (avg, judge)', base.summary.avgPacing, candidate.summary.avgPacing, null],
+    ['Errors', base.summary.errors, candidate.summary.errors, null],
+  ] as Array<[string, number | undefined, number | undefined, number | null]>)
+    .map(([name, baseValue, candidateValue, delta]) =>
+      `<tr><td>${name}</td><td>${formatScore(baseValue)}</td><td>${formatScore(candidateValue)}</td><td>${formatDelta(delta)}</td></tr>`
+    )
+    .join('\n');
+
+  const caseSections = comparison.cases.map(c => {
+    const baseResult = baseById.get(c.caseId);
+    const candidateResult = candidateById.get(c.caseId);
+    const column = (result: typeof baseResult) => result
+      ? `<pre>${escapeHtml(result.error ? `ERROR: ${result.error}` : result.scriptText)}</pre>
+         ${result.scores.qualityIssues.length > 0 ? `<ul class="issues">${result.scores.qualityIssues.map(issue => `<li>${escapeHtml(issue)}</li>`).join('')}</ul>` : ''}`
+      : '<p class="muted">Not in this run</p>';
+
+    return `
+    <section class="case${c.regressed ? ' regressed' : ''}">
+      <h3>${escapeHtml(c.caseId)} ${c.regressed ? '<span class="badge">regression</span>' : ''}</h3>
+      <p class="idea">${escapeHtml((baseResult || candidateResult)?.userIdea || '')}</p>
+      <p>${comparison.metric === 'overall' ? 'Overall' : 'Deterministic'}: ${formatScore(c.baseOverall)} → ${formatScore(c.candidateOverall)} (${formatDelta(c.delta)})</p>
+      <div class="columns">
+        <div><h4>Baseline</h4>${column(baseResult)}</div>
+        <div><h4>Candidate</h4>${column(candidateResult)}</div>
+      </div>
+    </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Eval: ${escapeHtml(base.label)} vs ${escapeHtml(candidate.label)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; color: #1a1a1a; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  td, th { border: 1px solid #ddd; padding: 0.4rem 0.8rem; text-align: left; }
+  .verdict { font-size: 1.2rem; font-weight: bold; }
+  .pass { color: #1a7f37; } .fail { color: #cf222e; }
+  .up { color: #1a7f37; } .down { color: #cf222e; } .muted { color: #888; }
+  .case { border-top: 1px solid #ddd; padding: 1rem 0; }
+  .case.regressed h3 { color: #cf222e; }
+  .badge { background: #cf222e; color: #fff; border-radius: 4px; padding: 0 0.4rem; font-size: 0.8rem; }
+  .idea { font-style: italic; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+  pre { white-space: pre-wrap; background: #f6f8fa; padding: 0.8rem; border-radius: 6px; font-size: 0.85rem; }
+  .issues { color: #cf222e; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>Evaluation report</h1>
+<p>Baseline: <b>${escapeHtml(base.label)}</b> (${escapeHtml(base.provider)}, ${escapeHtml(base.promptVariantId)}, ${escapeHtml(base.createdAt)})<br>
+Candidate: <b>${escapeHtml(candidate.label)}</b> (${escapeHtml(candidate.provider)}, ${escapeHtml(candidate.promptVariantId)}, ${escapeHtml(candidate.createdAt)})</p>
+<p class="verdict ${comparison.passed ? 'pass' : 'fail'}">${comparison.passed ? 'PASS' : 'FAIL'} - ${comparison.regressions.length} regressed case(s)</p>
+<table>
+<tr><th>Metric</th><th>Baseline</th><th>Candidate</th><th>Δ</th></tr>
+${summaryRows}
+</table>
+<h2>Cases</h2>
+${caseSections}
+</body>
+</html>
+`;
+}
+
+export default {
+  renderComparisonHtml,
+};
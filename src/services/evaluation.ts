@@ -0,0 +1,328 @@
+/**
+ * Evaluation - Offline scoring of the script generator on a golden set
+ *
+ * A run sends every golden case through generateScript (whatever provider is
+ * active, including the fake one) and scores the output:
+ *
+ * Deterministic (always):
+ * - formatCompliance  scriptJudge - sections + VISUAL/SAY pairing
+ * - romanization      scriptJudge - dialogue in the Roman alphabet
+ * - qualityGate       every enabled quality gate check passes
+ *
+ * LLM judge (optional): hookStrength, pacing - scriptJudge.rankCandidates
+ * with a single candidate.
+ *
+ * compareRuns() lines two runs up per case and flags regressions, so a
+ * prompt or model change can be gated on "no worse than the baseline".
+ */
+
+import { logger } from '../utils/logger';
+import { GoldenCase } from '../eval/goldenSet';
+import { generateScript } from './scriptGenerator';
+import { scoreFormatCompliance, scoreRomanization, rankCandidates } from './scriptJudge';
+import { validateScript } from './qualityGate';
+import { PromptVariant, getPromptVariant } from './promptRegistry';
+import { getLLMProvider } from './llm';
+import { estimateSpokenDuration } from '../db/models/Dataset';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface EvalScores {
+  formatCompliance: number;
+  romanization: number;
+  /** 100 when every enabled quality gate check passes, else 0 */
+  qualityGate: number;
+  qualityIssues: string[];
+  spokenSeconds: number;
+  hookStrength?: number;
+  pacing?: number;
+  /** Mean of formatCompliance, romanization and qualityGate */
+  deterministic: number;
+  /** Mean of the scores above that are present (judge scores included) */
+  overall: number;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  userIdea: string;
+  scriptText: string;
+  generationTimeMs: number;
+  /** Set when generation threw - the case scores 0 */
+  error?: string;
+  scores: EvalScores;
+}
+
+export interface EvalSummary {
+  cases: number;
+  errors: number;
+  /** % of cases passing the quality gate */
+  qualityPassRate: number;
+  avgOverall: number;
+  avgDeterministic: number;
+  avgFormatCompliance: number;
+  avgRomanization: number;
+  avgHookStrength?: number;
+  avgPacing?: number;
+  avgGenerationTimeMs: number;
+}
+
+export interface EvalRun {
+  id: string;
+  label: string;
+  createdAt: string;
+  provider: string;
+  textModel?: string;
+  promptVariantId: string;
+  judge: boolean;
+  results: EvalCaseResult[];
+  summary: EvalSummary;
+}
+
+export interface EvalRunOptions {
+  label: string;
+  /** Score hookStrength/pacing with the LLM judge */
+  judge?: boolean;
+  promptVariant?: PromptVariant;
+  temperature?: number;
+}
+
+export interface CaseComparison {
+  caseId: string;
+  /** Compared score: overall when both runs used the judge, else deterministic */
+  baseOverall: number | null;
+  candidateOverall: number | null;
+  delta: number | null;
+  regressed: boolean;
+}
+
+export interface EvalComparison {
+  base: Pick<EvalRun, 'id' | 'label' | 'provider' | 'promptVariantId' | 'summary'>;
+  candidate: Pick<EvalRun, 'id' | 'label' | 'provider' | 'promptVariantId' | 'summary'>;
+  /** Which score was compared - judge scores only count when both runs have them */
+  metric: 'overall' | 'deterministic';
+  deltas: Record<'avgOverall' | 'avgFormatCompliance' | 'avgRomanization' | 'qualityPassRate', number>;
+  cases: CaseComparison[];
+  /** Case IDs whose overall score dropped by more than maxCaseDrop */
+  regressions: string[];
+  /** false when the average dropped by more than maxAvgDrop, a case regressed or new errors appeared */
+  passed: boolean;
+}
+
+export interface CompareOptions {
+  /** Allowed drop in avgOverall (points) */
+  maxAvgDrop?: number;
+  /** Per-case drop that counts as a regression (points) */
+  maxCaseDrop?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCORING
+// ═══════════════════════════════════════════════════════════════════════════
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Deterministic scores (+ judge scores when given)
+ */
+export function scoreScript(
+  scriptText: string,
+  goldenCase: GoldenCase,
+  judged: { hookStrength?: number; pacing?: number } = {}
+): EvalScores {
+  const issues = validateScript(scriptText, { mode: goldenCase.mode });
+  const partial = {
+    formatCompliance: scoreFormatCompliance(scriptText, goldenCase.mode),
+    romanization: scoreRomanization(scriptText),
+    qualityGate: issues.length === 0 ? 100 : 0,
+    hookStrength: judged.hookStrength,
+    pacing: judged.pacing,
+  };
+  const present = Object.values(partial).filter((value): value is number => value !== undefined);
+
+  return {
+    ...partial,
+    qualityIssues: issues.map(issue => `${issue.check}: ${issue.message}`),
+    spokenSeconds: estimateSpokenDuration(scriptText),
+    deterministic: Math.round(mean([partial.formatCompliance, partial.romanization, partial.qualityGate])),
+    overall: Math.round(mean(present)),
+  };
+}
+
+function emptyScores(message: string): EvalScores {
+  return {
+    formatCompliance: 0,
+    romanization: 0,
+    qualityGate: 0,
+    qualityIssues: [message],
+    spokenSeconds: 0,
+    deterministic: 0,
+    overall: 0,
+  };
+}
+
+export function summarizeResults(results: EvalCaseResult[]): EvalSummary {
+  const judged = results.filter(result => result.scores.hookStrength !== undefined);
+
+  return {
+    cases: results.length,
+    errors: results.filter(result => result.error).length,
+    qualityPassRate: round1(100 * mean(results.map(result => (result.scores.qualityGate === 100 ? 1 : 0)))),
+    avgOverall: round1(mean(results.map(result => result.scores.overall))),
+    avgDeterministic: round1(mean(results.map(result => result.scores.deterministic))),
+    avgFormatCompliance: round1(mean(results.map(result => result.scores.formatCompliance))),
+    avgRomanization: round1(mean(results.map(result => result.scores.romanization))),
+    ...(judged.length > 0 ? {
+      avgHookStrength: round1(mean(judged.map(result => result.scores.hookStrength as number))),
+      avgPacing: round1(mean(judged.map(result => result.scores.pacing as number))),
+    } : {}),
+    avgGenerationTimeMs: Math.round(mean(results.map(result => result.generationTimeMs))),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUN
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run every case sequentially (keeps provider rate limits out of the
+ * picture). A failing case is recorded with zero scores, never thrown.
+ */
+export async function runEvaluation(cases: GoldenCase[], options: EvalRunOptions): Promise<EvalRun> {
+  const llm = getLLMProvider();
+  const promptVariant = options.promptVariant || getPromptVariant();
+  const createdAt = new Date();
+  const results: EvalCaseResult[] = [];
+
+  for (const [i, goldenCase] of cases.entries()) {
+    const startTime = Date.now();
+    logger.info(`Eval [${i + 1}/${cases.length}] ${goldenCase.id}`);
+
+    try {
+      const scriptText = await generateScript({
+        userIdea: goldenCase.userIdea,
+        transcript: goldenCase.analysis.transcript,
+        visualAnalysis: goldenCase.analysis,
+        toneHint: goldenCase.toneHint,
+        languageHint: goldenCase.languageHint,
+        mode: goldenCase.mode,
+        temperature: options.temperature,
+        promptVariant,
+      });
+      const generationTimeMs = Date.now() - startTime;
+
+      let judged: { hookStrength?: number; pacing?: number } = {};
+      if (options.judge) {
+        const ranking = await rankCandidates([scriptText], {
+          userIdea: goldenCase.userIdea,
+          mode: goldenCase.mode,
+          languageHint: goldenCase.languageHint,
+        });
+        judged = ranking.scores[0];
+      }
+
+      results.push({
+        caseId: goldenCase.id,
+        userIdea: goldenCase.userIdea,
+        scriptText,
+        generationTimeMs,
+        scores: scoreScript(scriptText, goldenCase, judged),
+      });
+    } catch (error: any) {
+      logger.warn(`Eval case ${goldenCase.id} failed: ${error.message}`);
+      results.push({
+        caseId: goldenCase.id,
+        userIdea: goldenCase.userIdea,
+        scriptText: '',
+        generationTimeMs: Date.now() - startTime,
+        error: error.message,
+        scores: emptyScores(`generation failed: ${error.message}`),
+      });
+    }
+  }
+
+  const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+
+  return {
+    id: `${options.label}-${stamp}`,
+    label: options.label,
+    createdAt: createdAt.toISOString(),
+    provider: llm.name,
+    textModel: llm.textModels[0],
+    promptVariantId: promptVariant.id,
+    judge: Boolean(options.judge),
+    results,
+    summary: summarizeResults(results),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPARISON
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_MAX_AVG_DROP = 2;
+const DEFAULT_MAX_CASE_DROP = 10;
+
+function runHeader(run: EvalRun): EvalComparison['base'] {
+  return {
+    id: run.id,
+    label: run.label,
+    provider: run.provider,
+    promptVariantId: run.promptVariantId,
+    summary: run.summary,
+  };
+}
+
+/**
+ * Baseline vs candidate, per case (matched on case ID)
+ */
+export function compareRuns(base: EvalRun, candidate: EvalRun, options: CompareOptions = {}): EvalComparison {
+  const maxAvgDrop = options.maxAvgDrop ?? DEFAULT_MAX_AVG_DROP;
+  const maxCaseDrop = options.maxCaseDrop ?? DEFAULT_MAX_CASE_DROP;
+  const metric = base.judge && candidate.judge ? 'overall' : 'deterministic';
+  const summaryKey = metric === 'overall' ? 'avgOverall' : 'avgDeterministic';
+
+  const baseById = new Map(base.results.map(result => [result.caseId, result]));
+  const candidateById = new Map(candidate.results.map(result => [result.caseId, result]));
+  const caseIds = [...new Set([...baseById.keys(), ...candidateById.keys()])];
+
+  const cases = caseIds.map(caseId => {
+    const baseOverall = baseById.get(caseId)?.scores[metric] ?? null;
+    const candidateOverall = candidateById.get(caseId)?.scores[metric] ?? null;
+    const delta = baseOverall !== null && candidateOverall !== null ? candidateOverall - baseOverall : null;
+    return { caseId, baseOverall, candidateOverall, delta, regressed: delta !== null && delta < -maxCaseDrop };
+  });
+
+  const deltas = {
+    avgOverall: round1(candidate.summary[summaryKey] - base.summary[summaryKey]),
+    avgFormatCompliance: round1(candidate.summary.avgFormatCompliance - base.summary.avgFormatCompliance),
+    avgRomanization: round1(candidate.summary.avgRomanization - base.summary.avgRomanization),
+    qualityPassRate: round1(candidate.summary.qualityPassRate - base.summary.qualityPassRate),
+  };
+
+  const regressions = cases.filter(c => c.regressed).map(c => c.caseId);
+
+  return {
+    base: runHeader(base),
+    candidate: runHeader(candidate),
+    metric,
+    deltas,
+    cases,
+    regressions,
+    passed: deltas.avgOverall >= -maxAvgDrop && candidate.summary.errors <= base.summary.errors && regressions.length === 0,
+  };
+}
+
+export default {
+  runEvaluation,
+  scoreScript,
+  summarizeResults,
+  compareRuns,
+};
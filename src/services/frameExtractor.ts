@@ -7,9 +7,20 @@ import { config } from '../config';
 if (config.FFMPEG_PATH) ffmpeg.setFfmpegPath(config.FFMPEG_PATH);
 if (config.FFPROBE_PATH) ffmpeg.setFfprobePath(config.FFPROBE_PATH);
 
+export type FrameExtractionMode = 'fixed' | 'scene';
+
 export interface FrameExtractionOptions {
   quality?: number;          // JPEG quality 2-31, lower = better (default: 5)
   width?: number;            // Resize width, maintains aspect ratio (default: 480)
+  mode?: FrameExtractionMode; // 'fixed' fps sampling or one frame per 'scene' (default: FRAME_EXTRACTION_MODE)
+}
+
+/**
+ * One continuous shot (between two cuts) of the video
+ */
+export interface VideoShot {
+  startSec: number;
+  endSec: number;
 }
 
 export interface ExtractedFrames {
@@ -17,12 +28,22 @@ export interface ExtractedFrames {
   videoDuration: number;     // Duration of the video in seconds
   frameCount: number;        // Number of frames extracted
   extractionTimeMs: number;  // Time taken to extract frames
+  shots?: VideoShot[];       // Shot boundaries (scene mode only)
 }
 
+// Fixed mode: hard cap on sampled frames
+const MAX_FIXED_FRAMES = 20;
+
+// Scene mode: frames sent to the model (the shot list itself is never capped)
+const MAX_SCENE_FRAMES = 30;
+
+// Cuts closer together than this are treated as one (flashes, transitions)
+const MIN_SHOT_SEC = 0.25;
+
 /**
  * Get video duration using ffprobe
  */
-async function getVideoDuration(videoPath: string): Promise<number> {
+export async function getVideoDuration(videoPath: string): Promise<number> {
   return new Promise((resolve, reject) => {
     ffmpeg.ffprobe(videoPath, (err, metadata) => {
       if (err) {
@@ -47,9 +68,138 @@ function getOptimalFps(duration: number): number {
   return 0.4;                          // 1 frame every 2.5 seconds
 }
 
+/**
+ * Build the shot list from the timestamps of the detected cut frames
+ */
+function buildShots(cutTimes: number[], duration: number): VideoShot[] {
+  const starts: number[] = [];
+  for (const time of [...cutTimes].sort((a, b) => a - b)) {
+    if (starts.length === 0 || time - starts[starts.length - 1] >= MIN_SHOT_SEC) {
+      starts.push(time);
+    }
+  }
+  if (starts.length === 0 || starts[0] > MIN_SHOT_SEC) starts.unshift(0);
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return starts.map((start, i) => ({
+    startSec: round(start),
+    endSec: round(i + 1 < starts.length ? starts[i + 1] : Math.max(duration, start)),
+  }));
+}
+
+/**
+ * Keep at most `max` items, spread evenly, always keeping the first and last
+ */
+function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = (items.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => items[Math.round(i * step)]);
+}
+
+/**
+ * Fixed-rate sampling: fps filter, capped at MAX_FIXED_FRAMES
+ */
+async function extractFixedFrames(videoPath: string, frameDir: string, duration: number, quality: number, width: number, id: string): Promise<string[]> {
+  // Calculate optimal fps based on duration
+  const fps = getOptimalFps(duration);
+  const expectedFrames = Math.min(Math.ceil(duration * fps), MAX_FIXED_FRAMES);
+  
+  logger.info(`[${id}] Extracting ~${expectedFrames} frames (fps: ${fps})`);
+
+  // OPTIMIZED: Single FFmpeg command extracts all frames in parallel
+  const outputPattern = path.join(frameDir, 'frame_%03d.jpg');
+  
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .outputOptions([
+        `-vf fps=${fps},scale=${width}:-1`,  // Extract at calculated fps, scale width
+        `-q:v ${quality}`,                    // JPEG quality
+        `-frames:v ${MAX_FIXED_FRAMES}`       // Hard cap
+      ])
+      .output(outputPattern)
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run();
+  });
+
+  return listFrames(frameDir);
+}
+
+/**
+ * Scene-change sampling: one frame at the start of every shot (the first
+ * frame of the video included), plus the last frame.
+ *
+ * Single decode pass: the select filter keeps frame 0 and every frame whose
+ * scene score exceeds the threshold; showinfo logs their timestamps, which
+ * become the shot boundaries.
+ */
+async function extractSceneFrames(
+  videoPath: string,
+  frameDir: string,
+  duration: number,
+  quality: number,
+  width: number,
+  id: string
+): Promise<{ frames: string[]; shots: VideoShot[] }> {
+  const threshold = config.SCENE_CHANGE_THRESHOLD;
+  const cutTimes: number[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .outputOptions([
+        `-vf select='eq(n,0)+gt(scene,${threshold})',showinfo,scale=${width}:-1`,
+        '-vsync vfr',                         // One output image per selected frame
+        `-q:v ${quality}`
+      ])
+      .output(path.join(frameDir, 'frame_%03d.jpg'))
+      .on('stderr', (line: string) => {
+        const match = line.match(/Parsed_showinfo.*\bpts_time:\s*([\d.]+)/);
+        if (match) cutTimes.push(parseFloat(match[1]));
+      })
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run();
+  });
+
+  // Last frame (closing shot / CTA visual)
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .inputOptions(['-sseof -0.5'])
+      .outputOptions([
+        `-vf scale=${width}:-1`,
+        `-q:v ${quality}`,
+        '-update 1'                           // Keep overwriting: the file ends up as the final frame
+      ])
+      .output(path.join(frameDir, 'frame_last.jpg'))
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run();
+  }).catch((err: any) => {
+    logger.warn(`[${id}] Last frame extraction failed: ${err.message}`);
+  });
+
+  const shots = buildShots(cutTimes, duration);
+  const frames = sampleEvenly(listFrames(frameDir), MAX_SCENE_FRAMES);
+
+  logger.info(`[${id}] Scene detection: ${shots.length} shots (threshold ${threshold})`);
+  return { frames, shots };
+}
+
+function listFrames(frameDir: string): string[] {
+  return fs.readdirSync(frameDir)
+    .filter(file => file.startsWith('frame_') && file.endsWith('.jpg'))
+    .sort()
+    .map(file => path.join(frameDir, file));
+}
+
 /**
  * OPTIMIZED: Parallel Frame Extraction using single FFmpeg command
  * 
+ * Two modes (FRAME_EXTRACTION_MODE, overridable per call):
+ * - fixed (default): samples at getOptimalFps, capped at 20 frames
+ * - scene: one frame per detected shot + first/last frame, with shot timestamps.
+ *   Falls back to fixed if scene detection fails.
+ * 
  * Uses fps filter to extract all frames in one pass instead of
  * sequential extraction. ~60% faster than sequential approach.
  * 
@@ -65,7 +215,8 @@ export async function extractFrames(
 ): Promise<ExtractedFrames> {
   const {
     quality = 5,
-    width = 480
+    width = 480,
+    mode = config.FRAME_EXTRACTION_MODE as FrameExtractionMode
   } = options;
 
   const startTime = Date.now();
@@ -82,38 +233,22 @@ export async function extractFrames(
     const duration = await getVideoDuration(videoPath);
     logger.info(`[${id}] Video duration: ${duration.toFixed(1)}s`);
 
-    // Calculate optimal fps based on duration
-    const fps = getOptimalFps(duration);
-    const expectedFrames = Math.min(Math.ceil(duration * fps), 20);
-    
-    logger.info(`[${id}] Extracting ~${expectedFrames} frames (fps: ${fps})`);
-
-    // OPTIMIZED: Single FFmpeg command extracts all frames in parallel
-    const outputPattern = path.join(frameDir, 'frame_%03d.jpg');
-    
-    await new Promise<void>((resolve, reject) => {
-      ffmpeg(videoPath)
-        .outputOptions([
-          `-vf fps=${fps},scale=${width}:-1`,  // Extract at calculated fps, scale width
-          `-q:v ${quality}`,                    // JPEG quality
-          `-frames:v 20`                        // Hard cap at 20 frames
-        ])
-        .output(outputPattern)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    let frames: string[] = [];
+    let shots: VideoShot[] | undefined;
 
-    // Collect extracted frame paths
-    const frames: string[] = [];
-    const files = fs.readdirSync(frameDir).sort();
-    
-    for (const file of files) {
-      if (file.startsWith('frame_') && file.endsWith('.jpg')) {
-        frames.push(path.join(frameDir, file));
+    if (mode === 'scene') {
+      try {
+        ({ frames, shots } = await extractSceneFrames(videoPath, frameDir, duration, quality, width, id));
+      } catch (sceneError: any) {
+        logger.warn(`[${id}] Scene detection failed, falling back to fixed sampling: ${sceneError.message}`);
+        cleanupFrameFiles(frameDir);
       }
     }
 
+    if (frames.length === 0) {
+      frames = await extractFixedFrames(videoPath, frameDir, duration, quality, width, id);
+    }
+
     const extractionTimeMs = Date.now() - startTime;
     logger.info(`[${id}] Extracted ${frames.length} frames in ${extractionTimeMs}ms`);
 
@@ -121,7 +256,8 @@ export async function extractFrames(
       frames,
       videoDuration: duration,
       frameCount: frames.length,
-      extractionTimeMs
+      extractionTimeMs,
+      shots
     };
 
   } catch (error: any) {
@@ -135,6 +271,15 @@ export async function extractFrames(
   }
 }
 
+/**
+ * Delete the frame images in a directory (keeps the directory)
+ */
+function cleanupFrameFiles(frameDir: string): void {
+  for (const file of fs.readdirSync(frameDir)) {
+    fs.unlinkSync(path.join(frameDir, file));
+  }
+}
+
 /**
  * Clean up extracted frames directory
  */
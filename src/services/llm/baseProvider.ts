@@ -0,0 +1,108 @@
+/**
+ * Base LLM Provider
+ *
+ * Implements the model fallback hierarchy shared by all backends:
+ * each model in the list is tried in order, with a short backoff on
+ * rate limits. Concrete providers only implement a single `complete()` call.
+ */
+
+import { logger } from '../../utils/logger';
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMJsonResponse,
+  LLMResponseError,
+} from './types';
+
+const RATE_LIMIT_BACKOFF_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Extract and parse the JSON object from a model response.
+ * Tolerates markdown fences or prose around the object.
+ */
+export function parseJsonResponse<T = unknown>(text: string): T {
+  const jsonStart = text.indexOf('{');
+  const jsonEnd = text.lastIndexOf('}') + 1;
+  if (jsonStart === -1 || jsonEnd === 0) {
+    throw new LLMResponseError('Invalid JSON response from model', text);
+  }
+
+  try {
+    return JSON.parse(text.substring(jsonStart, jsonEnd)) as T;
+  } catch (error: any) {
+    throw new LLMResponseError(`Unparseable JSON response: ${error.message}`, text);
+  }
+}
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  constructor(
+    public readonly textModels: string[],
+    public readonly multimodalModels: string[]
+  ) {}
+
+  /**
+   * Single completion call against one model. Returns raw response text.
+   */
+  protected abstract complete(model: string, request: LLMRequest, json: boolean): Promise<string>;
+
+  async generateText(request: LLMRequest): Promise<LLMResponse> {
+    return this.runWithFallback(this.textModels, request, false, text => text);
+  }
+
+  async generateMultimodal(request: LLMRequest): Promise<LLMResponse> {
+    return this.runWithFallback(this.multimodalModels, request, false, text => text);
+  }
+
+  async generateJSON<T = unknown>(request: LLMRequest): Promise<LLMJsonResponse<T>> {
+    const models = request.media && request.media.length > 0 ? this.multimodalModels : this.textModels;
+    let data: T | undefined;
+
+    // Parse inside the loop so a malformed answer falls through to the next model
+    const response = await this.runWithFallback(models, request, true, text => {
+      data = parseJsonResponse<T>(text);
+      return text;
+    });
+
+    return { ...response, data: data as T };
+  }
+
+  /**
+   * Try each model in order until one succeeds
+   */
+  private async runWithFallback(
+    models: string[],
+    request: LLMRequest,
+    json: boolean,
+    accept: (text: string) => string
+  ): Promise<LLMResponse> {
+    const label = request.label || (json ? 'json' : 'text');
+    let lastError: any = null;
+
+    for (const model of models) {
+      try {
+        logger.info(`LLM ${label} call: ${this.name}/${model}`);
+        const text = accept((await this.complete(model, request, json)).trim());
+        return { text, model, provider: this.name };
+      } catch (error: any) {
+        lastError = error;
+        const isRateLimit = error.message?.includes('429') || error.status === 429;
+
+        logger.warn(`❌ ${this.name}/${model} failed (${label}): ${error.message}`);
+
+        if (isRateLimit) {
+          logger.warn(`Rate limit on ${model}, switching to fallback...`);
+          await sleep(RATE_LIMIT_BACKOFF_MS);
+        }
+      }
+    }
+
+    logger.error(`All ${this.name} models failed (${label}).`);
+    throw lastError || new Error(`LLM ${label} call failed on all models`);
+  }
+}
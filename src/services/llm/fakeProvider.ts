@@ -0,0 +1,135 @@
+/**
+ * Fake Provider (Deterministic)
+ *
+ * Returns canned, well-formed responses derived from a hash of the prompt.
+ * Same input → same output, no network. Used for offline pipeline runs,
+ * local development and evaluation dry-runs.
+ *
+ * A custom responder can be injected to script specific answers.
+ */
+
+import crypto from 'crypto';
+import { BaseLLMProvider } from './baseProvider';
+import { LLMRequest } from './types';
+
+export type FakeResponder = (request: LLMRequest, context: { model: string; json: boolean }) => string;
+
+const FAKE_HOOKS = [
+  'Nobody tells you this about {topic}.',
+  'Stop scrolling if you care about {topic}.',
+  'I wasted a year on {topic} before I learned this.',
+  'Here is the {topic} mistake everyone makes.',
+];
+
+const FAKE_TONES = ['High Energy', 'Educational', 'Conversational', 'Provocative'];
+
+/**
+ * Stable integer seed from request content
+ */
+function seedOf(request: LLMRequest): number {
+  const hash = crypto.createHash('sha256').update(request.prompt).digest();
+  return hash.readUInt32BE(0);
+}
+
+/**
+ * Pull the user's concept out of the master prompt, if present
+ */
+function extractTopic(prompt: string): string {
+  const match = prompt.match(/NEW CONCEPT[^\n]*\n\s*"([^"]+)"/);
+  return (match?.[1] || 'this idea').slice(0, 80);
+}
+
+function defaultScript(request: LLMRequest): string {
+  const seed = seedOf(request);
+  const topic = extractTopic(request.prompt);
+  const hook = FAKE_HOOKS[seed % FAKE_HOOKS.length].replace('{topic}', topic);
+
+  return [
+    '[HOOK]',
+    '🎬 VISUAL: Close-up face shot, slightly above eye level. Text appears: "WAIT"',
+    `💬 SAY: "${hook}"`,
+    '',
+    '[BODY]',
+    '🎬 VISUAL: Jump cut to medium shot, right hand counting on fingers',
+    `💬 SAY: "First, most people treat ${topic} like a checklist. It is a system."`,
+    '🎬 VISUAL: Screen recording with text overlay: "THE SYSTEM"',
+    '💬 SAY: "Second, you only need one habit to make the system run itself."',
+    '',
+    '[CTA]',
+    '🎬 VISUAL: Lean toward camera, text appears: "FOLLOW FOR PART 2"',
+    '💬 SAY: "Follow for part two, where I show you the exact setup."',
+  ].join('\n');
+}
+
+function defaultAnalysis(request: LLMRequest): string {
+  const seed = seedOf(request);
+  return JSON.stringify({
+    transcript: 'Nobody tells you this. Most people get it wrong. Here is the fix. Follow for more.',
+    transcriptSegments: [
+      { text: 'Nobody tells you this.', startSec: 0, endSec: 1.6 },
+      { text: 'Most people get it wrong.', startSec: 1.6, endSec: 3.4 },
+      { text: 'Here is the fix.', startSec: 3.4, endSec: 9.8 },
+      { text: 'Follow for more.', startSec: 9.8, endSec: 11.2 },
+    ],
+    visualCues: ['Close-up face shot', 'Bold text overlay', 'Fast jump cuts'],
+    hookType: 'Controversial statement',
+    tone: FAKE_TONES[seed % FAKE_TONES.length],
+    sceneDescriptions: ['Creator speaks to camera', 'Cut to screen recording', 'Creator points at follow button'],
+  });
+}
+
+/**
+ * Judge answer: stable 40-100 scores for every "CANDIDATE n" in the prompt
+ */
+function defaultJudgement(request: LLMRequest): string {
+  const seed = seedOf(request);
+  const count = (request.prompt.match(/--- CANDIDATE \d+ ---/g) || []).length;
+  return JSON.stringify({
+    scores: Array.from({ length: count }, (_, i) => ({
+      candidate: i + 1,
+      hookStrength: 40 + ((seed >>> i) % 61),
+      pacing: 40 + ((seed >>> (i + 8)) % 61),
+      notes: 'Fake judgement',
+    })),
+  });
+}
+
+/**
+ * Quality rubric answer: stable 40-100 sub-scores
+ */
+function defaultRubric(request: LLMRequest): string {
+  const seed = seedOf(request);
+  const score = (shift: number) => 40 + ((seed >>> shift) % 61);
+  return JSON.stringify({
+    hookStrength: score(0),
+    ctaClarity: score(4),
+    pacing: score(8),
+    originalityScore: score(12),
+    predictedEngagement: score(16),
+    notes: 'Fake rubric',
+  });
+}
+
+export class FakeProvider extends BaseLLMProvider {
+  readonly name = 'fake' as const;
+
+  private readonly responder?: FakeResponder;
+
+  constructor(responder?: FakeResponder) {
+    super(['fake-text-1'], ['fake-multimodal-1']);
+    this.responder = responder;
+  }
+
+  protected async complete(model: string, request: LLMRequest, json: boolean): Promise<string> {
+    if (this.responder) {
+      return this.responder(request, { model, json });
+    }
+    if (json && request.label === 'judge') {
+      return defaultJudgement(request);
+    }
+    if (json && request.label === 'rubric') {
+      return defaultRubric(request);
+    }
+    return json ? defaultAnalysis(request) : defaultScript(request);
+  }
+}
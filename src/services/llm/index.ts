@@ -0,0 +1,89 @@
+/**
+ * LLM Provider Layer
+ *
+ * Single entry point for model access. The active backend is picked from
+ * LLM_PROVIDER (vertex | openai | fake); model fallback order comes from
+ * LLM_TEXT_MODELS / LLM_MULTIMODAL_MODELS.
+ *
+ * Usage:
+ *   const llm = getLLMProvider();
+ *   const { text } = await llm.generateText({ prompt, systemInstruction });
+ */
+
+import fs from 'fs';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { LLMProvider, LLMProviderName, LLMMedia } from './types';
+import { VertexProvider } from './vertexProvider';
+import { OpenAICompatibleProvider } from './openaiProvider';
+import { FakeProvider } from './fakeProvider';
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Parse a comma-separated model list from config
+ */
+function parseModelList(value: string): string[] {
+  return value.split(',').map(m => m.trim()).filter(Boolean);
+}
+
+/**
+ * Build a provider from configuration
+ */
+export function createLLMProvider(name: LLMProviderName = config.LLM_PROVIDER as LLMProviderName): LLMProvider {
+  const textModels = parseModelList(config.LLM_TEXT_MODELS);
+  const multimodalModels = parseModelList(config.LLM_MULTIMODAL_MODELS);
+
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.LLM_BASE_URL,
+        apiKey: config.LLM_API_KEY,
+        timeoutMs: config.LLM_TIMEOUT_MS,
+        textModels,
+        multimodalModels,
+      });
+    case 'fake':
+      return new FakeProvider();
+    case 'vertex':
+    default:
+      return new VertexProvider({
+        project: config.GCP_PROJECT_ID,
+        location: config.GCP_LOCATION,
+        keyFilename: config.GOOGLE_APPLICATION_CREDENTIALS,
+        textModels,
+        multimodalModels,
+      });
+  }
+}
+
+/**
+ * Get the process-wide provider (created on first use)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+    logger.info(`LLM provider: ${activeProvider.name} (text: ${activeProvider.textModels.join(', ')})`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (evaluation runs, scripts). Pass null to reset.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Read a file from disk as inline media
+ */
+export async function fileToMedia(path: string, mimeType: string): Promise<LLMMedia> {
+  const data = await fs.promises.readFile(path);
+  return { data: data.toString('base64'), mimeType };
+}
+
+export * from './types';
+export { parseJsonResponse } from './baseProvider';
+export { VertexProvider, OpenAICompatibleProvider, FakeProvider };
+export type { FakeResponder } from './fakeProvider';
@@ -0,0 +1,86 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any server exposing `POST {baseUrl}/chat/completions`
+ * (OpenAI, vLLM, Ollama, LM Studio, a local stand-in for offline runs).
+ * Images are sent as data-URL `image_url` parts, audio as `input_audio`.
+ */
+
+import axios from 'axios';
+import { BaseLLMProvider } from './baseProvider';
+import { LLMRequest, LLMMedia, LLMProviderError } from './types';
+
+export interface OpenAIProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number;
+  textModels: string[];
+  multimodalModels: string[];
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+/**
+ * Map an attached media item to a chat content part
+ */
+function toContentPart(media: LLMMedia): ChatContentPart {
+  if (media.mimeType.startsWith('audio/')) {
+    const format = media.mimeType === 'audio/mpeg' ? 'mp3' : media.mimeType.replace('audio/', '');
+    return { type: 'input_audio', input_audio: { data: media.data, format } };
+  }
+  return { type: 'image_url', image_url: { url: `data:${media.mimeType};base64,${media.data}` } };
+}
+
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const;
+
+  private readonly options: OpenAIProviderOptions;
+
+  constructor(options: OpenAIProviderOptions) {
+    super(options.textModels, options.multimodalModels);
+    this.options = options;
+  }
+
+  protected async complete(model: string, request: LLMRequest, json: boolean): Promise<string> {
+    const messages: Array<{ role: string; content: string | ChatContentPart[] }> = [];
+
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+
+    if (request.media && request.media.length > 0) {
+      messages.push({
+        role: 'user',
+        content: [{ type: 'text', text: request.prompt }, ...request.media.map(toContentPart)],
+      });
+    } else {
+      messages.push({ role: 'user', content: request.prompt });
+    }
+
+    const body: Record<string, unknown> = { model, messages };
+    if (json) body.response_format = { type: 'json_object' };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.maxOutputTokens !== undefined) body.max_tokens = request.maxOutputTokens;
+
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    try {
+      const response = await axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        timeout: this.options.timeoutMs,
+      });
+
+      return response.data?.choices?.[0]?.message?.content || '';
+    } catch (error: any) {
+      const status = error.response?.status;
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new LLMProviderError('openai', model, `${status ? `${status} ` : ''}${detail}`, status);
+    }
+  }
+}
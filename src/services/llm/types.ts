@@ -0,0 +1,99 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared contract for every model backend (Vertex AI, OpenAI-compatible
+ * HTTP servers, deterministic fake). Services talk to this interface only,
+ * so the backend can be swapped per environment via LLM_PROVIDER.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type LLMProviderName = 'vertex' | 'openai' | 'fake';
+
+/** Inline media attached to a multimodal request (base64 encoded) */
+export interface LLMMedia {
+  mimeType: string;
+  data: string;
+}
+
+export interface LLMRequest {
+  /** User prompt text */
+  prompt: string;
+
+  /** Optional system instruction */
+  systemInstruction?: string;
+
+  /** Frames/audio for multimodal calls */
+  media?: LLMMedia[];
+
+  temperature?: number;
+  maxOutputTokens?: number;
+
+  /** Short label for logs (e.g. "script", "analysis") */
+  label?: string;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  provider: LLMProviderName;
+}
+
+export interface LLMJsonResponse<T = unknown> extends LLMResponse {
+  data: T;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /** Models tried in order for text-only calls */
+  readonly textModels: string[];
+
+  /** Models tried in order for calls carrying media */
+  readonly multimodalModels: string[];
+
+  /** Plain text generation */
+  generateText(request: LLMRequest): Promise<LLMResponse>;
+
+  /** Text + media generation */
+  generateMultimodal(request: LLMRequest): Promise<LLMResponse>;
+
+  /** JSON mode - response is parsed before returning (media optional) */
+  generateJSON<T = unknown>(request: LLMRequest): Promise<LLMJsonResponse<T>>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERRORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Transport/API failure from a provider (HTTP status preserved when known)
+ */
+export class LLMProviderError extends Error {
+  public readonly provider: LLMProviderName;
+  public readonly model: string;
+  public readonly status?: number;
+
+  constructor(provider: LLMProviderName, model: string, message: string, status?: number) {
+    super(`${provider}/${model}: ${message}`);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.model = model;
+    this.status = status;
+  }
+}
+
+/**
+ * Model answered, but the answer was not valid JSON
+ */
+export class LLMResponseError extends Error {
+  public readonly rawText: string;
+
+  constructor(message: string, rawText: string) {
+    super(message);
+    this.name = 'LLMResponseError';
+    this.rawText = rawText;
+  }
+}
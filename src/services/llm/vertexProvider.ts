@@ -0,0 +1,79 @@
+/**
+ * Vertex AI Provider (Gemini)
+ *
+ * Default production backend. The client is created lazily so that
+ * environments running the OpenAI-compatible or fake provider never need
+ * GCP credentials.
+ */
+
+import { VertexAI, Part, GenerationConfig } from '@google-cloud/vertexai';
+import { logger } from '../../utils/logger';
+import { BaseLLMProvider } from './baseProvider';
+import { LLMRequest, LLMProviderError } from './types';
+
+export interface VertexProviderOptions {
+  project: string;
+  location: string;
+  keyFilename?: string;
+  textModels: string[];
+  multimodalModels: string[];
+}
+
+export class VertexProvider extends BaseLLMProvider {
+  readonly name = 'vertex' as const;
+
+  private client: VertexAI | null = null;
+  private readonly options: VertexProviderOptions;
+
+  constructor(options: VertexProviderOptions) {
+    super(options.textModels, options.multimodalModels);
+    this.options = options;
+  }
+
+  private getClient(): VertexAI {
+    if (this.client) return this.client;
+
+    if (!this.options.project) {
+      throw new LLMProviderError('vertex', '-', 'GCP_PROJECT_ID is required for the vertex provider');
+    }
+
+    this.client = new VertexAI({
+      project: this.options.project,
+      location: this.options.location,
+      googleAuthOptions: {
+        keyFilename: this.options.keyFilename || undefined,
+      },
+    });
+
+    logger.info(`✅ Vertex AI initialized for project: ${this.options.project}`);
+    if (this.options.keyFilename) {
+      logger.info(`✅ Using credentials from: ${this.options.keyFilename}`);
+    }
+
+    return this.client;
+  }
+
+  protected async complete(model: string, request: LLMRequest, json: boolean): Promise<string> {
+    const generationConfig: GenerationConfig = {};
+    if (json) generationConfig.responseMimeType = 'application/json';
+    if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+    if (request.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = request.maxOutputTokens;
+
+    const generativeModel = this.getClient().getGenerativeModel({
+      model,
+      systemInstruction: request.systemInstruction,
+      generationConfig,
+    });
+
+    const parts: Part[] = [
+      { text: request.prompt },
+      ...(request.media || []).map(m => ({ inlineData: { data: m.data, mimeType: m.mimeType } })),
+    ];
+
+    const result = await generativeModel.generateContent({
+      contents: [{ role: 'user', parts }],
+    });
+
+    return result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  }
+}
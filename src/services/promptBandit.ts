@@ -0,0 +1,307 @@
+/**
+ * Prompt Bandit - Thompson sampling over prompt variants
+ *
+ * With PROMPT_BANDIT on, the variant for each job is picked by a
+ * multi-armed bandit over the active experiment's arms instead of the fixed
+ * traffic split. Arms that get better feedback are picked more often, while
+ * the others keep getting some traffic until the evidence is clear.
+ *
+ * Each arm is a Beta(α, β) posterior (prior Beta(1, 1)):
+ * - 1-5 rating        → reward (rating - 1) / 4
+ * - quick 👍 / 🔥 / ❤️  → reward 1
+ * - quick 👎 / meh     → reward 0
+ * α += reward, β += 1 - reward. Each source counts once per script.
+ *
+ * Freezing an arm pins every job to it (exploration stops; feedback is
+ * still recorded). Unfreeze to resume sampling.
+ *
+ * Redis keys:
+ * - bandit:prompt:<experimentId>:arm:<variantId>   hash { alpha, beta, pulls, rewards }
+ * - bandit:prompt:<experimentId>:frozen            variantId
+ * - bandit:prompt:rewarded:<requestHash>:<source>  dedupe marker (30 days)
+ */
+
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getRedis } from '../queue/redis';
+import { DatasetEntryV2 } from '../db/models/DatasetV2';
+import {
+  PromptAssignment,
+  PromptExperiment,
+  assignPromptVariant,
+  getActiveExperiment,
+  getPromptExperiment,
+  getPromptVariant,
+} from './promptRegistry';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RewardSource = 'rating' | 'quick';
+
+export interface BanditArmStats {
+  variantId: string;
+  alpha: number;
+  beta: number;
+  /** Times the arm was picked */
+  pulls: number;
+  /** Feedback events recorded */
+  rewards: number;
+  /** Posterior mean reward α / (α + β) */
+  expectedReward: number;
+}
+
+export interface BanditStats {
+  experimentId: string;
+  enabled: boolean;
+  frozenVariantId: string | null;
+  arms: BanditArmStats[];
+}
+
+export class BanditArmError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BanditArmError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const KEY_PREFIX = 'bandit:prompt:';
+
+/** Beta(1, 1) = uniform: no opinion before any feedback */
+const PRIOR_ALPHA = 1;
+const PRIOR_BETA = 1;
+
+const REWARD_DEDUPE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function getArmKey(experimentId: string, variantId: string): string {
+  return `${KEY_PREFIX}${experimentId}:arm:${variantId}`;
+}
+
+function getFrozenKey(experimentId: string): string {
+  return `${KEY_PREFIX}${experimentId}:frozen`;
+}
+
+function getRewardedKey(requestHash: string, source: RewardSource): string {
+  return `${KEY_PREFIX}rewarded:${requestHash}:${source}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SAMPLING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Standard normal (Box-Muller)
+ */
+function sampleNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Gamma(shape, 1) - Marsaglia & Tsang
+ */
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x / (x + y);
+}
+
+/**
+ * Map a 1-5 rating to a reward in [0, 1]
+ */
+export function ratingToReward(rating: number): number {
+  return Math.min(1, Math.max(0, (rating - 1) / 4));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function readArms(experiment: PromptExperiment): Promise<BanditArmStats[]> {
+  const redis = getRedis();
+  const pipeline = redis.pipeline();
+  for (const arm of experiment.arms) {
+    pipeline.hgetall(getArmKey(experiment.id, arm.variantId));
+  }
+  const results = (await pipeline.exec()) || [];
+
+  return experiment.arms.map((arm, i) => {
+    const [error, raw] = results[i] || [null, {}];
+    if (error) throw error;
+    const data = (raw || {}) as Record<string, string>;
+    const alpha = PRIOR_ALPHA + parseFloat(data.alpha || '0');
+    const beta = PRIOR_BETA + parseFloat(data.beta || '0');
+    return {
+      variantId: arm.variantId,
+      alpha,
+      beta,
+      pulls: parseInt(data.pulls || '0', 10),
+      rewards: parseInt(data.rewards || '0', 10),
+      expectedReward: alpha / (alpha + beta),
+    };
+  });
+}
+
+/**
+ * Experiment by ID (any registered one), else the active experiment
+ */
+function getBanditExperiment(experimentId?: string): PromptExperiment {
+  const experiment = experimentId ? getPromptExperiment(experimentId) : getActiveExperiment();
+  if (!experiment) {
+    throw new BanditArmError(experimentId ? `Unknown experiment "${experimentId}"` : 'No prompt experiment is active');
+  }
+  return experiment;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SELECTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Prompt variant for a job.
+ *
+ * Bandit off (or no active experiment) → promptRegistry's sticky split.
+ * Redis unavailable → same fallback, so generation never blocks on the bandit.
+ */
+export async function selectPromptVariant(subscriberId: string, requestId: string): Promise<PromptAssignment> {
+  const experiment = getActiveExperiment();
+  if (!config.PROMPT_BANDIT || !experiment) {
+    return assignPromptVariant(subscriberId);
+  }
+
+  try {
+    const redis = getRedis();
+    const frozen = await redis.get(getFrozenKey(experiment.id));
+
+    let variantId: string;
+    if (frozen && experiment.arms.some(arm => arm.variantId === frozen)) {
+      variantId = frozen;
+    } else {
+      const arms = await readArms(experiment);
+      const draws = arms.map(arm => ({ variantId: arm.variantId, draw: sampleBeta(arm.alpha, arm.beta) }));
+      variantId = draws.reduce((best, draw) => (draw.draw > best.draw ? draw : best)).variantId;
+    }
+
+    await redis.hincrby(getArmKey(experiment.id, variantId), 'pulls', 1);
+    logger.info(`[${requestId}] Prompt bandit picked ${variantId}${frozen === variantId ? ' (frozen)' : ''}`);
+    return { variant: getPromptVariant(variantId), experimentId: experiment.id };
+
+  } catch (error: any) {
+    logger.warn(`[${requestId}] ⚠️ Prompt bandit unavailable, using fixed split: ${error.message}`);
+    return assignPromptVariant(subscriberId);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEEDBACK
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Credit feedback on a script to the prompt variant that produced it.
+ *
+ * No-op for scripts generated outside an experiment, and for a source that
+ * already rewarded this script. Never throws - feedback handlers call it
+ * fire-and-forget.
+ */
+export async function recordPromptReward(requestHash: string, source: RewardSource, reward: number): Promise<void> {
+  try {
+    const entry = await DatasetEntryV2.findOne({ 'input.requestHash': requestHash })
+      .select('experiment')
+      .lean();
+    const experimentId = entry?.experiment?.experimentId;
+    const variantId = entry?.experiment?.promptVariantId;
+    if (!experimentId || !variantId) return;
+
+    const redis = getRedis();
+    const isFirst = await redis.set(getRewardedKey(requestHash, source), '1', 'EX', REWARD_DEDUPE_TTL_SECONDS, 'NX');
+    if (!isFirst) return;
+
+    const value = Math.min(1, Math.max(0, reward));
+    const armKey = getArmKey(experimentId, variantId);
+    await redis.multi()
+      .hincrbyfloat(armKey, 'alpha', value)
+      .hincrbyfloat(armKey, 'beta', 1 - value)
+      .hincrby(armKey, 'rewards', 1)
+      .exec();
+
+    logger.info(`Prompt bandit: ${variantId} rewarded ${value.toFixed(2)} (${source}) for ${requestHash.slice(0, 12)}`);
+  } catch (error: any) {
+    logger.warn(`Non-critical: Failed to record prompt reward: ${error.message}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ADMIN
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function getBanditStats(experimentId?: string): Promise<BanditStats> {
+  const experiment = getBanditExperiment(experimentId);
+  const [frozen, arms] = await Promise.all([
+    getRedis().get(getFrozenKey(experiment.id)),
+    readArms(experiment),
+  ]);
+
+  return {
+    experimentId: experiment.id,
+    enabled: config.PROMPT_BANDIT,
+    frozenVariantId: frozen,
+    arms,
+  };
+}
+
+/**
+ * Pin every job of the experiment to one arm
+ */
+export async function freezeArm(variantId: string, experimentId?: string): Promise<BanditStats> {
+  const experiment = getBanditExperiment(experimentId);
+  if (!experiment.arms.some(arm => arm.variantId === variantId)) {
+    throw new BanditArmError(`"${variantId}" is not an arm of experiment "${experiment.id}"`);
+  }
+
+  await getRedis().set(getFrozenKey(experiment.id), variantId);
+  logger.info(`Prompt bandit: froze ${experiment.id} on ${variantId}`);
+  return getBanditStats(experiment.id);
+}
+
+export async function unfreezeArm(experimentId?: string): Promise<BanditStats> {
+  const experiment = getBanditExperiment(experimentId);
+  await getRedis().del(getFrozenKey(experiment.id));
+  logger.info(`Prompt bandit: unfroze ${experiment.id}`);
+  return getBanditStats(experiment.id);
+}
+
+export default {
+  selectPromptVariant,
+  recordPromptReward,
+  ratingToReward,
+  getBanditStats,
+  freezeArm,
+  unfreezeArm,
+};
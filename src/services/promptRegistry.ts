@@ -0,0 +1,189 @@
+/**
+ * Prompt Registry - Versioned prompt templates and A/B experiments
+ *
+ * Every prompt the script generator sends comes from a registered
+ * PromptVariant (templates live in src/prompts). Which variant a request
+ * uses is decided here:
+ *
+ * - PROMPT_EXPERIMENT set   → subscriber is bucketed into one of the
+ *                             experiment's variants by a stable hash, so the
+ *                             same subscriber always sees the same variant
+ * - otherwise               → PROMPT_VARIANT for everyone
+ *
+ * The variant ID and a hash of the system prompt are stored on every
+ * DatasetEntryV2 (experiment.promptVariantId / systemPromptHash), so ratings
+ * can be compared per variant (GET /api/v2/feedback/stats).
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { stealArtistV1, stealArtistV1_1 } from '../prompts/stealArtist';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface PromptTemplates {
+  /** Generation prompt - {{referenceDNA}}, {{userIdea}} */
+  master: string;
+  /** System instruction for text-mode generation (cached analysis) */
+  system: string;
+  /** System instruction for one-shot video generation */
+  oneShotSystem: string;
+  /** System instruction for section regen / refine / quality repair */
+  editorSystem: string;
+  /** Optional hints appended after the master prompt */
+  hints: {
+    tone: string;
+    toneDescriptions: Record<string, string>;
+    language: string;
+    hookOnly: string;
+    variation: string;
+    visualReminder: string;
+    wrapper: string;
+  };
+}
+
+export interface PromptVariant {
+  /** Unique ID stored on dataset rows, e.g. 'steal-artist-one-shot-v1.0' */
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  templates: PromptTemplates;
+}
+
+export interface PromptExperiment {
+  id: string;
+  description: string;
+  /** Traffic split - weights are relative, they don't need to sum to 100 */
+  arms: Array<{ variantId: string; weight: number }>;
+}
+
+export interface PromptAssignment {
+  variant: PromptVariant;
+  /** Set when the variant came from an experiment */
+  experimentId?: string;
+}
+
+export type SystemPromptKind = 'system' | 'oneShotSystem' | 'editorSystem';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+const VARIANTS: PromptVariant[] = [stealArtistV1, stealArtistV1_1];
+
+export const DEFAULT_PROMPT_VARIANT_ID = stealArtistV1.id;
+
+export const PROMPT_EXPERIMENTS: PromptExperiment[] = [
+  {
+    id: 'hook-first',
+    description: 'Does an explicit hook-first rule improve ratings?',
+    arms: [
+      { variantId: 'steal-artist-one-shot-v1.0', weight: 50 },
+      { variantId: 'steal-artist-v1.1', weight: 50 },
+    ],
+  },
+];
+
+export function listPromptVariants(): PromptVariant[] {
+  return [...VARIANTS];
+}
+
+/**
+ * Variant by ID. Unknown IDs fall back to the default (with a warning) so a
+ * typo in PROMPT_VARIANT never takes generation down.
+ */
+export function getPromptVariant(id: string = config.PROMPT_VARIANT): PromptVariant {
+  const variant = VARIANTS.find(v => v.id === id);
+  if (variant) return variant;
+
+  logger.warn(`⚠️ Unknown prompt variant "${id}", using ${DEFAULT_PROMPT_VARIANT_ID}`);
+  return VARIANTS.find(v => v.id === DEFAULT_PROMPT_VARIANT_ID) as PromptVariant;
+}
+
+export function getPromptExperiment(id: string): PromptExperiment | null {
+  return PROMPT_EXPERIMENTS.find(e => e.id === id) || null;
+}
+
+/**
+ * Experiment selected by PROMPT_EXPERIMENT (null when off or unknown)
+ */
+export function getActiveExperiment(): PromptExperiment | null {
+  if (!config.PROMPT_EXPERIMENT) return null;
+
+  const experiment = getPromptExperiment(config.PROMPT_EXPERIMENT);
+  if (!experiment) {
+    logger.warn(`⚠️ Unknown prompt experiment "${config.PROMPT_EXPERIMENT}", experiments disabled`);
+  }
+  return experiment;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ASSIGNMENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Stable bucket in [0, 1) for a subscriber within an experiment
+ */
+function bucketOf(experimentId: string, subscriberId: string): number {
+  const digest = crypto.createHash('sha256').update(`${experimentId}:${subscriberId}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Variant for a subscriber (sticky per subscriber within an experiment)
+ */
+export function assignPromptVariant(subscriberId: string): PromptAssignment {
+  const experiment = getActiveExperiment();
+  const arms = experiment?.arms.filter(arm => arm.weight > 0) || [];
+  if (!experiment || arms.length === 0) {
+    return { variant: getPromptVariant() };
+  }
+
+  const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let point = bucketOf(experiment.id, subscriberId) * totalWeight;
+  const arm = arms.find(candidate => (point -= candidate.weight) < 0) || arms[arms.length - 1];
+
+  return { variant: getPromptVariant(arm.variantId), experimentId: experiment.id };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RENDERING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fill {{name}} placeholders. Single pass: values are never re-scanned, so
+ * user text containing "{{...}}" is inserted literally. Unknown placeholders
+ * are left as-is.
+ */
+export function renderTemplate(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+/**
+ * Short, stable fingerprint of a prompt (dataset rows record which exact
+ * system prompt produced them)
+ */
+export function hashPrompt(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+export function getSystemPromptHash(variant: PromptVariant, kind: SystemPromptKind): string {
+  return hashPrompt(variant.templates[kind]);
+}
+
+export default {
+  listPromptVariants,
+  getPromptVariant,
+  getPromptExperiment,
+  getActiveExperiment,
+  assignPromptVariant,
+  renderTemplate,
+  hashPrompt,
+  getSystemPromptHash,
+};
@@ -0,0 +1,211 @@
+/**
+ * Quality Gate - Validate a generated script before delivery
+ *
+ * Checks (QUALITY_GATE_CHECKS, comma-separated; empty disables the gate):
+ * - sections        [HOOK]/[BODY]/[CTA] present (only [HOOK] in hook_only mode)
+ * - pairing         every beat has both a 🎬 VISUAL and a 💬 SAY
+ * - markdown        no **bold**, # headings or preamble before [HOOK]
+ * - romanization    dialogue uses the Roman alphabet only
+ * - duration        estimated spoken time within QUALITY_MIN/MAX_SPOKEN_SEC
+ * - banned_phrases  none of QUALITY_BANNED_PHRASES
+ *
+ * A failing script is sent back for a targeted repair (only the failed checks
+ * are listed) up to QUALITY_GATE_MAX_RETRIES times. Every failed round is
+ * returned so the worker can log it under failures.failedAttempts
+ * ('quality_gate').
+ */
+
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { parseScript, SectionKind } from '../utils/scriptParser';
+import { estimateSpokenDuration } from '../db/models/Dataset';
+import { scoreRomanization } from './scriptJudge';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type QualityCheckName = 'sections' | 'pairing' | 'markdown' | 'romanization' | 'duration' | 'banned_phrases';
+
+export interface QualityIssue {
+  check: QualityCheckName;
+  message: string;
+}
+
+export interface QualityGateContext {
+  mode?: 'full' | 'hook_only';
+}
+
+export interface QualityGateFailure {
+  attemptNumber: number;
+  script: string;
+  errorMessage: string;
+  timestamp: Date;
+}
+
+export interface QualityGateOutcome {
+  scriptText: string;
+  passed: boolean;
+  failures: QualityGateFailure[];
+  /** Repair calls made (extra generation attempts) */
+  repairs: number;
+}
+
+/** Produces a fixed script from the failing one and its problems */
+export type ScriptRepairer = (scriptText: string, problems: string[]) => Promise<string>;
+
+// Hook-only scripts are short by design - only the upper bound applies
+const HOOK_ONLY_MAX_SPOKEN_SEC = 15;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+type QualityCheck = (scriptText: string, context: QualityGateContext) => string | null;
+
+const CHECKS: Record<QualityCheckName, QualityCheck> = {
+  sections: (scriptText, { mode }) => {
+    const expected: SectionKind[] = mode === 'hook_only' ? ['hook'] : ['hook', 'body', 'cta'];
+    const present = parseScript(scriptText).sections.map(section => section.kind);
+    const missing = expected.filter(kind => !present.includes(kind));
+    return missing.length > 0
+      ? `Missing section(s): ${missing.map(kind => `[${kind.toUpperCase()}]`).join(', ')}`
+      : null;
+  },
+
+  pairing: (scriptText) => {
+    const unpaired = parseScript(scriptText).sections.flatMap(section =>
+      section.beats
+        .filter(beat => beat.note === undefined && (!beat.visual || !beat.say))
+        .map(beat => `[${section.kind.toUpperCase()}] ${beat.visual ? 'VISUAL without SAY' : 'SAY without VISUAL'}`)
+    );
+    return unpaired.length > 0 ? `Unpaired lines: ${unpaired.join('; ')}` : null;
+  },
+
+  markdown: (scriptText) => {
+    if (/\*\*|^\s*#+\s/m.test(scriptText)) return 'Contains markdown (** or # headings)';
+    if (scriptText.trim() && !scriptText.trim().startsWith('[')) return 'Has text before the first section header';
+    return null;
+  },
+
+  romanization: (scriptText) =>
+    scoreRomanization(scriptText) < 100 ? 'Dialogue contains non-Latin script (must be romanized)' : null,
+
+  duration: (scriptText, { mode }) => {
+    const seconds = estimateSpokenDuration(scriptText);
+    const max = mode === 'hook_only' ? HOOK_ONLY_MAX_SPOKEN_SEC : config.QUALITY_MAX_SPOKEN_SEC;
+    if (seconds > max) return `Too long: ~${seconds}s spoken (max ${max}s)`;
+    if (mode !== 'hook_only' && seconds < config.QUALITY_MIN_SPOKEN_SEC) {
+      return `Too short: ~${seconds}s spoken (min ${config.QUALITY_MIN_SPOKEN_SEC}s)`;
+    }
+    return null;
+  },
+
+  banned_phrases: (scriptText) => {
+    const lower = scriptText.toLowerCase();
+    const found = getBannedPhrases().filter(phrase => lower.includes(phrase));
+    return found.length > 0 ? `Uses banned phrase(s): ${found.map(phrase => `"${phrase}"`).join(', ')}` : null;
+  },
+};
+
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function getBannedPhrases(): string[] {
+  return parseList(config.QUALITY_BANNED_PHRASES);
+}
+
+/**
+ * Checks enabled by QUALITY_GATE_CHECKS (unknown names are ignored)
+ */
+export function getEnabledChecks(): QualityCheckName[] {
+  return parseList(config.QUALITY_GATE_CHECKS)
+    .filter((name): name is QualityCheckName => name in CHECKS);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run the enabled checks. An empty script fails without running them.
+ */
+export function validateScript(
+  scriptText: string,
+  context: QualityGateContext = {},
+  checks: QualityCheckName[] = getEnabledChecks()
+): QualityIssue[] {
+  if (!scriptText || !scriptText.trim()) {
+    return [{ check: 'sections', message: 'Script is empty' }];
+  }
+
+  return checks
+    .map(check => ({ check, message: CHECKS[check](scriptText, context) }))
+    .filter((issue): issue is QualityIssue => issue.message !== null);
+}
+
+/**
+ * Validate, and repair failing scripts until they pass or retries run out.
+ *
+ * Never throws for quality reasons: after the last retry the latest
+ * non-empty script is delivered (passed = false). An empty final script
+ * throws, so the job fails and BullMQ retries it.
+ */
+export async function enforceQualityGate(
+  scriptText: string,
+  context: QualityGateContext,
+  repair: ScriptRepairer,
+  requestId: string
+): Promise<QualityGateOutcome> {
+  const checks = getEnabledChecks();
+  const failures: QualityGateFailure[] = [];
+  if (checks.length === 0) {
+    return { scriptText, passed: true, failures, repairs: 0 };
+  }
+
+  let current = scriptText;
+  let repairs = 0;
+  for (let attempt = 1; ; attempt++) {
+    const issues = validateScript(current, context, checks);
+    if (issues.length === 0) {
+      if (attempt > 1) logger.info(`[${requestId}] ✅ Script passed quality gate after ${attempt - 1} repair(s)`);
+      return { scriptText: current, passed: true, failures, repairs };
+    }
+
+    const problems = issues.map(issue => issue.message);
+    logger.warn(`[${requestId}] ⚠️ Quality gate failed (attempt ${attempt}): ${issues.map(issue => issue.check).join(', ')}`);
+    failures.push({
+      attemptNumber: attempt,
+      script: current,
+      errorMessage: problems.join('\n'),
+      timestamp: new Date(),
+    });
+
+    if (attempt > config.QUALITY_GATE_MAX_RETRIES) break;
+
+    try {
+      current = await repair(current, problems);
+      repairs++;
+    } catch (error: any) {
+      logger.warn(`[${requestId}] Quality repair call failed: ${error.message}`);
+      break;
+    }
+  }
+
+  // Retries exhausted: deliver the best we have rather than nothing
+  const last = failures[failures.length - 1].script;
+  const deliverable = current.trim() ? current : last;
+  if (!deliverable.trim()) {
+    throw new Error('Script failed the quality gate: empty output');
+  }
+
+  logger.warn(`[${requestId}] Delivering script that still fails the quality gate`);
+  return { scriptText: deliverable, passed: false, failures, repairs };
+}
+
+export default {
+  validateScript,
+  enforceQualityGate,
+  getEnabledChecks,
+};
@@ -8,6 +8,7 @@ import { promisify } from 'util';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { withCircuitBreaker, CircuitOpenError } from '../utils/circuitBreaker';
+import { detectPlatform, Platform } from '../utils/platforms';
 
 const pipeline = promisify(stream.pipeline);
 
@@ -171,17 +172,20 @@ async function downloadViaCobalt(url: string, id: string): Promise<string> {
 /**
  * MAIN EXPORT: Hybrid downloader with 3-tier fallback cascade
  * Priority: yt-dlp (cookies) → Cobalt API → yt-dlp (no cookies)
- * Protected by circuit breaker to prevent excessive retries when Instagram is blocking
+ * Protected by a per-platform circuit breaker (instagram-download, tiktok-download, youtube-download)
+ * so one platform blocking us doesn't stop downloads from the others
  */
 export async function downloadReel(url: string, id: string): Promise<string> {
+  const platform: Platform = detectPlatform(url) || 'instagram';
+  
   // Wrap the download logic with circuit breaker protection
-  return withCircuitBreaker('instagram-download', () => downloadReelInternal(url, id));
+  return withCircuitBreaker(`${platform}-download`, () => downloadReelInternal(url, id, platform));
 }
 
 /**
  * Internal download function - called by circuit breaker
  */
-async function downloadReelInternal(url: string, id: string): Promise<string> {
+async function downloadReelInternal(url: string, id: string, platform: Platform): Promise<string> {
   const tempDir = path.join(process.cwd(), 'temp');
   if (!fs.existsSync(tempDir)) {
     fs.mkdirSync(tempDir, { recursive: true });
@@ -196,19 +200,20 @@ async function downloadReelInternal(url: string, id: string): Promise<string> {
     throw new Error('Invalid request ID');
   }
 
-  logger.info(`[${id}] Starting download: ${url}`);
+  logger.info(`[${id}] Starting ${platform} download: ${url}`);
 
   // Build fallback cascade
   const methods: Array<{ name: string; fn: () => Promise<string> }> = [];
   const cookiesPath = getCookiesPath();
 
   // Method 1: yt-dlp with cookies (highest reliability for private content)
-  if (fs.existsSync(cookiesPath)) {
+  // Cookies are Instagram session cookies - useless for other platforms
+  if (platform === 'instagram' && fs.existsSync(cookiesPath)) {
     methods.push({
       name: 'yt-dlp-cookies',
       fn: () => downloadViaYtDlp(url, id, true),
     });
-  } else {
+  } else if (platform === 'instagram') {
     logger.warn(`[${id}] Cookies file not found at: ${cookiesPath}, skipping cookie-based download`);
   }
 
@@ -1,30 +1,18 @@
-import { VertexAI, Part } from '@google-cloud/vertexai';
 import fs from 'fs';
 import { logger } from '../utils/logger';
 import { VideoAnalysis } from './videoAnalyzer';
-import { config } from '../config';
-
-// Initialize Vertex AI
-const vertexAI = new VertexAI({
-  project: config.GCP_PROJECT_ID,
-  location: config.GCP_LOCATION,
-  googleAuthOptions: {
-    keyFilename: config.GOOGLE_APPLICATION_CREDENTIALS || undefined,
-  },
-});
-
-/**
- * Helper to convert file to GenerativePart
- */
-async function fileToGenerativePart(path: string, mimeType: string): Promise<Part> {
-  const data = await fs.promises.readFile(path);
-  return {
-    inlineData: {
-      data: data.toString('base64'),
-      mimeType
-    },
-  };
-}
+import type { VideoShot } from './frameExtractor';
+import { getLLMProvider, fileToMedia, LLMMedia } from './llm';
+import { PromptVariant, getPromptVariant, renderTemplate } from './promptRegistry';
+import {
+  StructuredScript,
+  ScriptSection,
+  SectionKind,
+  SECTION_ORDER,
+  parseScript,
+  serializeScript,
+  getSection,
+} from '../utils/scriptParser';
 
 // ============================================
 // Types
@@ -56,98 +44,112 @@ export interface ScriptGeneratorOptions {
   
   // Previous variation SUMMARIES with SAME idea (for avoiding repetition)
   previousVariationSummaries?: VariationSummary[];
+  
+  // Sampling temperature (multi-candidate mode varies it per candidate)
+  temperature?: number;
+
+  // Prompt templates (default: PROMPT_VARIANT)
+  promptVariant?: PromptVariant;
 }
 
 export interface OneShotGeneratorOptions extends ScriptGeneratorOptions {
   frames: string[];
   audioPath?: string | null;
+  /** Shot boundaries from scene-mode frame extraction */
+  shots?: VideoShot[];
+}
+
+export interface SectionRegenerationOptions {
+  /** Current script - every section except `section` stays fixed */
+  script: StructuredScript;
+  section: SectionKind;
+  userIdea: string;
+  /** Why the user wants it redone ("make it punchier"), if they said */
+  reason?: string;
+
+  // Reference DNA (from ReelDNA cache, when still available)
+  transcript?: string | null;
+  visualAnalysis?: VideoAnalysis | null;
+
+  toneHint?: ToneHint;
+  languageHint?: string;
+  promptVariant?: PromptVariant;
+}
+
+export interface RefineOptions {
+  /** Script being refined (latest version) */
+  script: StructuredScript;
+  userIdea: string;
+  /** Free-text edit instruction ("make it 15 seconds", "swap the CTA to follow") */
+  instruction: string;
+  promptVariant?: PromptVariant;
 }
 
 // ============================================
 // Hint Builder (APPENDED to prompt, not replacing)
 // ============================================
 
+/**
+ * Describe the reference's cut rhythm (from scene detection) so the script's
+ * VISUAL beats can follow the same pacing. Empty for fewer than 2 shots.
+ */
+function buildCutRhythm(shots: VideoShot[] | undefined): string {
+  if (!shots || shots.length < 2) return '';
+
+  const total = shots[shots.length - 1].endSec - shots[0].startSec;
+  const lengths = shots.map(shot => shot.endSec - shot.startSec);
+  const average = total / shots.length;
+  const fmt = (value: number) => (Math.round(value * 10) / 10).toString();
+
+  return `CUT RHYTHM (${shots.length} shots over ${fmt(total)}s, avg ${fmt(average)}s per shot, shortest ${fmt(Math.min(...lengths))}s, longest ${fmt(Math.max(...lengths))}s):
+${shots.map((shot, i) => `Shot ${i + 1}: ${fmt(shot.startSec)}-${fmt(shot.endSec)}s`).join('\n')}
+Mirror this pacing: roughly one 🎬 VISUAL beat per shot, with cuts landing at similar moments.
+
+`;
+}
+
 /**
  * Build optional hints section
  * These are GENTLE suggestions that work WITH the video's DNA
  * The video's original style is ALWAYS primary
  */
 function buildOptionalHints(options: ScriptGeneratorOptions): string {
+  const templates = (options.promptVariant || getPromptVariant()).templates.hints;
   const hints: string[] = [];
   
   if (options.toneHint) {
-    const toneDescriptions: Record<ToneHint, string> = {
-      professional: 'business-focused and authoritative',
-      funny: 'humorous and witty with clever wordplay',
-      provocative: 'edgy and attention-grabbing',
-      educational: 'informative and teaching-focused',
-      casual: 'friendly and conversational'
-    };
-    
-    hints.push(`
-TONE PREFERENCE (subtle adjustment, preserve video's original energy):
-The user prefers a "${options.toneHint}" feel (${toneDescriptions[options.toneHint]}). 
-Apply this GENTLY while keeping the reference video's authentic style as the PRIMARY influence.
-Do NOT completely change the tone - just lean slightly in this direction.`);
+    hints.push(renderTemplate(templates.tone, {
+      toneHint: options.toneHint,
+      toneDescription: templates.toneDescriptions[options.toneHint]
+    }));
   }
   
   if (options.languageHint) {
-    hints.push(`
-LANGUAGE PREFERENCE (STRICT):
-Write ALL spoken dialogue (💬 SAY:) in ${options.languageHint} language.`);
+    hints.push(renderTemplate(templates.language, { languageHint: options.languageHint }));
   }
   
   if (options.mode === 'hook_only') {
-    hints.push(`
-MODE: HOOK ONLY
-Generate ONLY the [HOOK] section. Skip [BODY] and [CTA] entirely.
-Make the hook extra impactful since it's standalone.
-Still follow all other formatting rules for the hook.`);
+    hints.push(templates.hookOnly);
   }
   
   // CRITICAL: Add variation avoidance instructions if user is regenerating
   if (options.previousVariationSummaries && options.previousVariationSummaries.length > 0) {
     const summaries = options.previousVariationSummaries;
-    hints.push(`
-🔄 VARIATION MODE - CREATE SOMETHING DISTINCTLY DIFFERENT!
-The user has already generated ${summaries.length} script(s) for this SAME idea.
-You MUST create a FRESH, UNIQUE version that is NOTICEABLY DIFFERENT.
-
-HOOKS TO AVOID (do NOT use similar openings):
-${summaries.map((s, i) => `${i + 1}. "${s.hookSummary}"`).join('\n')}
-
-ANGLES TO AVOID (do NOT use similar approaches):
-${summaries.map((s, i) => `${i + 1}. "${s.angleSummary}"`).join('\n')}
-
-VARIATION REQUIREMENTS:
-- Use a COMPLETELY DIFFERENT hook style (question vs statement, shocking fact vs relatable moment, etc.)
-- Take a DIFFERENT angle/perspective on the topic
-- Use DIFFERENT examples or analogies
-- Change the emotional tone (curiosity vs urgency vs humor)
-- If previous was direct, try storytelling. If previous was personal, try educational.
-
-The user wants VARIETY - give them something they haven't seen before!`);
+    hints.push(renderTemplate(templates.variation, {
+      count: summaries.length,
+      hooksToAvoid: summaries.map((s, i) => `${i + 1}. "${s.hookSummary}"`).join('\n'),
+      anglesToAvoid: summaries.map((s, i) => `${i + 1}. "${s.angleSummary}"`).join('\n')
+    }));
   }
   
   // Always add visual guidance reminder for better shooting instructions
   if (hints.length > 0) {
-    hints.push(`
-VISUAL DIRECTION REMINDER:
-For each 🎬 VISUAL: line, be EXTREMELY SPECIFIC about:
-- Exact camera angle (e.g., "Close-up face shot, slightly above eye level")
-- Hand gestures (e.g., "Right hand counting on fingers, palm facing camera")
-- Body language (e.g., "Lean forward slightly with confident posture")
-- Text overlays (e.g., "Text appears top-center: 'THE 3 SECRETS'")
-
-The creator should be able to shoot the video EXACTLY as described without guessing.`);
+    hints.push(templates.visualReminder);
   }
   
   if (hints.length === 0) return '';
   
-  return `
-
---- OPTIONAL USER PREFERENCES (Apply subtly, video DNA is primary) ---
-${hints.join('\n')}`;
+  return renderTemplate(templates.wrapper, { hints: hints.join('\n') });
 }
 
 // ============================================
@@ -180,6 +182,25 @@ export async function generateScript(
     options = optionsOrIdea;
   }
 
+  const { prompt, systemInstruction } = buildScriptPrompt(options);
+
+  logger.info(`Generating script${options.toneHint ? ` (tone hint: ${options.toneHint})` : ''}${options.mode === 'hook_only' ? ' (hook only)' : ''}`);
+
+  const response = await getLLMProvider().generateText({
+    prompt,
+    systemInstruction,
+    temperature: options.temperature,
+    label: 'script',
+  });
+
+  return response.text;
+}
+
+/**
+ * Prompt + system instruction for text-mode generation.
+ * Also used by the training export to rebuild the prompt of a stored entry.
+ */
+export function buildScriptPrompt(options: ScriptGeneratorOptions): { prompt: string; systemInstruction: string } {
   const { userIdea, transcript: transcriptText, visualAnalysis } = options;
 
   // Build reference DNA section - now includes visual context if available
@@ -202,6 +223,7 @@ export async function generateScript(
     if (visualAnalysis.sceneDescriptions.length > 0) {
       referenceDNA += `SCENE FLOW:\n${visualAnalysis.sceneDescriptions.join('\n')}\n\n`;
     }
+    referenceDNA += buildCutRhythm(visualAnalysis.shots);
   }
 
   if (!referenceDNA) {
@@ -230,66 +252,16 @@ ${ps.script}
   // ============================================
   // MASTER PROMPT CONSTRUCTION
   // ============================================
-  const masterPrompt = createMasterPrompt(userIdea, referenceDNA);
+  const variant = options.promptVariant || getPromptVariant();
+  const masterPrompt = createMasterPrompt(variant, userIdea, referenceDNA);
 
   // Append optional hints (if any) WITHOUT modifying master prompt
   const optionalHints = buildOptionalHints(options);
-  const fullPrompt = masterPrompt + priorContext + optionalHints;
-
-  // Model configuration with fallback hierarchy (Vertex AI compatible)
-  const MODEL_HIERARCHY = [
-    'gemini-2.5-flash',          // Primary (2.5 Flash)
-    'gemini-2.0-flash-001',      // Fallback (2.0 Flash)
-  ];
-
-  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-  let lastError: any = null;
-
-  const systemInstruction = `You are a World-Class Creative Strategist who follows the "Steal Like an Artist" philosophy. 
-        
-  Your goal is to perform a "Surgical Good Theft": 
-  1. Analyze the DNA of a reference video (its pacing, psychological hooks, and logical structure).
-  2. Emulate the *thinking* behind the reference, not the words.
-  3. Remix that structure into a new script based on the user's specific concept.
-  
-  Rules:
-  - No hashtags, no emojis, and no markdown.
-  - Style: High-status, punchy, and calculated.
-  - Tone: Pivot from a surface-level hook to a deep strategic truth.
-  - Vocabulary: Use technical authority words (e.g., if UI/UX, use terms like 'visual hierarchy', '8pt grid', 'cognitive friction').`;
-
-  for (const modelName of MODEL_HIERARCHY) {
-    try {
-      logger.info(`Generating script with model: ${modelName}${options.toneHint ? ` (tone hint: ${options.toneHint})` : ''}${options.mode === 'hook_only' ? ' (hook only)' : ''}`);
-      
-      const model = vertexAI.getGenerativeModel({ 
-        model: modelName, 
-        systemInstruction: systemInstruction,
-      });
-
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: fullPrompt }] }],
-      });
-      const script = result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      return script.trim();
-
-    } catch (error: any) {
-      lastError = error;
-      const isRateLimit = error.message?.includes('429') || error.status === 429;
-      
-      logger.warn(`Script generation failed on ${modelName}: ${error.message}`);
-
-      if (isRateLimit) {
-        logger.warn('Rate limit hit, waiting before retry...');
-        await sleep(2000);
-      }
-    }
-  }
-
-  // If all models fail
-  logger.error('All script generation models failed.');
-  throw lastError || new Error('Script generation failed');
+  return {
+    prompt: masterPrompt + priorContext + optionalHints,
+    systemInstruction: variant.templates.system,
+  };
 }
 
 
@@ -301,19 +273,19 @@ export async function generateScriptFromVideo(options: OneShotGeneratorOptions):
   const { userIdea, frames, audioPath } = options;
   
   // 1. Prepare Media Parts
-  const mediaParts: Part[] = [];
+  const mediaParts: LLMMedia[] = [];
   
   // Add Frames
   if (frames && frames.length > 0) {
     const framePromises = frames
       .filter(f => fs.existsSync(f))
-      .map(f => fileToGenerativePart(f, 'image/jpeg'));
+      .map(f => fileToMedia(f, 'image/jpeg'));
     mediaParts.push(...await Promise.all(framePromises));
   }
   
   // Add Audio
   if (audioPath && fs.existsSync(audioPath)) {
-    mediaParts.push(await fileToGenerativePart(audioPath, 'audio/wav'));
+    mediaParts.push(await fileToMedia(audioPath, 'audio/wav'));
   }
 
   // 2. Construct Prompt (Identical logic to text version)
@@ -321,9 +293,12 @@ export async function generateScriptFromVideo(options: OneShotGeneratorOptions):
   const referenceDNA = `[VIDEO/AUDIO CONTENT ATTACHED]
   Analyze the attached video frames and audio directly. 
   Extract the pacing, tone, hook psychological structure, and language style from this media.
-  THIS IS YOUR REFERENCE DNA.`;
+  THIS IS YOUR REFERENCE DNA.
+
+  ${buildCutRhythm(options.shots)}`;
 
-  const masterPrompt = createMasterPrompt(userIdea, referenceDNA);
+  const variant = options.promptVariant || getPromptVariant();
+  const masterPrompt = createMasterPrompt(variant, userIdea, referenceDNA);
   
   // Hints & Context
   const optionalHints = buildOptionalHints(options);
@@ -335,29 +310,18 @@ export async function generateScriptFromVideo(options: OneShotGeneratorOptions):
 
   const fullPrompt = masterPrompt + priorContext + optionalHints;
 
-  // 3. Call Model (Gemini 2.5 Flash is best for multimodal one-shot)
-  // We use 2.5 Flash because it handles video tokens natively and efficiently
-  const modelName = 'gemini-2.5-flash';
-  
+  // 3. Call Model (multimodal hierarchy handles video tokens natively)
   try {
-    logger.info(`Generating One-Shot script with model: ${modelName}`);
-    
-    const model = vertexAI.getGenerativeModel({ 
-      model: modelName,
-      systemInstruction: "You are a World-Class Creative Strategist who follows the 'Steal Like an Artist' framework."
-    });
-
-    // Prepare content parts for Vertex AI
-    const contentParts: Part[] = [
-      { text: fullPrompt },
-      ...mediaParts,
-    ];
-
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: contentParts }],
+    logger.info(`Generating One-Shot script (${mediaParts.length} media parts)`);
+
+    const response = await getLLMProvider().generateMultimodal({
+      prompt: fullPrompt,
+      systemInstruction: variant.templates.oneShotSystem,
+      media: mediaParts,
+      temperature: options.temperature,
+      label: 'one-shot script',
     });
-    const script = result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    return script.trim();
+    return response.text;
 
   } catch (error: any) {
     logger.error(`One-Shot generation failed: ${error.message}`);
@@ -365,51 +329,218 @@ export async function generateScriptFromVideo(options: OneShotGeneratorOptions):
   }
 }
 
+// ============================================
+// Section Regeneration
+// ============================================
+
+const SECTION_GOALS: Record<SectionKind, string> = {
+  hook: 'Stop the scroll in the first 3 seconds and make the viewer need the rest.',
+  body: 'Deliver the core value, picking up exactly where the hook leaves off and setting up the CTA.',
+  cta: 'Close the loop on the body and give one clear, natural next action.',
+};
+
 /**
- * SHARED MASTER PROMPT BUILDER
- * Ensures 100% consistency between text-based and video-based generation
+ * Regenerate ONE section of an existing script.
+ *
+ * The other sections are passed to the model as fixed context so the new
+ * section still connects to them. Only the requested section is taken from
+ * the response - anything else the model returns is ignored.
  */
-function createMasterPrompt(userIdea: string, referenceDNA: string): string {
-  return `
-  Apply the "Steal Like an Artist" framework to generate a new script.
+export async function regenerateSection(options: SectionRegenerationOptions): Promise<ScriptSection> {
+  const { script, section, userIdea, reason, transcript, visualAnalysis } = options;
+  const header = `[${section.toUpperCase()}]`;
 
-  REFERENCE DNA (The Source to Steal From):
-  ${referenceDNA}
+  const current = getSection(script, section);
+  const fixedSections = script.sections.filter(s => s.kind !== section);
 
-  NEW CONCEPT (The Topic to Apply the DNA to):
+  let referenceDNA = '';
+  if (transcript) {
+    referenceDNA += `TRANSCRIPT (What was said):\n"${transcript}"\n\n`;
+  }
+  if (visualAnalysis?.hookType && visualAnalysis.hookType !== 'Unknown') {
+    referenceDNA += `HOOK PATTERN: ${visualAnalysis.hookType}\n\n`;
+  }
+  if (visualAnalysis?.tone && visualAnalysis.tone !== 'Unknown') {
+    referenceDNA += `DETECTED TONE: ${visualAnalysis.tone}\n\n`;
+  }
+
+  const prompt = `
+  Rewrite ONE section of an existing short-form video script.
+
+  CONCEPT:
   "${userIdea}"
+${referenceDNA ? `
+  REFERENCE DNA:
+  ${referenceDNA}` : ''}
+  FIXED SECTIONS (context only - do NOT change or repeat them):
+  ${fixedSections.length > 0 ? serializeScript({ sections: fixedSections }) : '(none)'}
+
+  SECTION TO REWRITE: ${header}
+  CURRENT VERSION (the user rejected this):
+  ${current ? serializeScript({ sections: [current] }) : '(missing)'}
+
+  GOAL OF ${header}: ${SECTION_GOALS[section]}
+  ${reason ? `USER'S REQUEST: "${reason}"` : 'Make it clearly different from the current version.'}
+
+  RULES:
+  - Keep the same language style and romanization as the fixed sections.
+  - The new section must flow naturally into / out of the fixed sections.
+  - Use the same marker format:
+    ${header}
+    🎬 VISUAL: (Specific camera direction/text overlay)
+    💬 SAY: "(Exact words to speak)"
+  ${options.toneHint ? `- Lean slightly toward a "${options.toneHint}" tone.` : ''}
+  ${options.languageHint ? `- Write ALL spoken dialogue (💬 SAY:) in ${options.languageHint}.` : ''}
+
+  Return ONLY the ${header} section. No other sections, no other text.`;
+
+  logger.info(`Regenerating ${section} section${reason ? ` (reason: ${reason.slice(0, 50)})` : ''}`);
+
+  const response = await getLLMProvider().generateText({
+    prompt,
+    systemInstruction: (options.promptVariant || getPromptVariant()).templates.editorSystem,
+    label: `${section} regen`,
+  });
+
+  const regenerated = getSection(parseScript(response.text), section);
+  if (!regenerated || regenerated.beats.length === 0) {
+    throw new Error(`Section regeneration returned no ${header} section`);
+  }
 
-  INSTRUCTIONS:
-  1. **INTELLIGENT LINGUISTIC STYLE**: 
-     - Detect the original language mix of the transcript.
-     - **Check NEW CONCEPT for latent preferences**: If the user mentions a specific language or tone in "${userIdea}", prioritize that.
-     - **GLOBAL ROMANIZATION RULE**: Regardless of the language used, you MUST use ONLY the English/Roman alphabet (ABC...). NEVER use native scripts like देवनागरी, ಕನ್ನಡ, etc. Romanize all non-English words naturally.
-  
-  2. **STRICT OUTPUT FORMAT**: Each section MUST exactly follow this marker format:
-      
-     [HOOK]
-     🎬 VISUAL: (Specific camera direction/text overlay)
-     💬 SAY: "(Exact words to speak - MUST BE ROMANIZED)"
-
-     [BODY]
-     🎬 VISUAL: (Scene description, on-screen text, transitions)
-     💬 SAY: "(Spoken content)"
-     
-     (Multiple VISUAL/SAY pairs allowed per section)
-
-     [CTA]
-     🎬 VISUAL: (Final visual setup, text overlay if any)
-     💬 SAY: "(Call to action dialogue)"
-     
-  3. VISUAL GUIDELINES:
-     - Be specific: "Close-up face shot" not just "camera on face"
-     - Include text overlays: "Text appears: 'The 80/20 Rule'"
-     - Note transitions: "Jump cut to screen recording"
-     
-  4. DIALOGUE GUIDELINES:
-     - Keep it punchy and spoken-natural
-     - Match the reference's language style (Hinglish, casual English, etc.)
-     - PACING: 30-45 seconds total spoken time
-
-  Return ONLY the structured script with [HOOK], [BODY], [CTA] headers and 🎬 VISUAL: / 💬 SAY: lines. No other text.`;
+  // Keep the slot's timing when the model drops it
+  if (!regenerated.timing && current?.timing) {
+    regenerated.timing = current.timing;
+  }
+
+  return regenerated;
+}
+
+// ============================================
+// Conversational Refinement
+// ============================================
+
+/** Spoken words per second used to turn "15 seconds" into a word budget (150 WPM) */
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Turn a duration in the instruction ("make it 15 seconds", "30s") into a word budget
+ */
+function buildLengthTarget(instruction: string): string {
+  const match = instruction.match(/(\d{1,3})\s*(?:s|secs?|seconds?)\b/i);
+  if (!match) return '';
+  const seconds = parseInt(match[1], 10);
+  return `\n  TARGET LENGTH: ${seconds} seconds spoken = about ${Math.round(seconds * WORDS_PER_SECOND)} words of 💬 SAY dialogue in total.`;
+}
+
+/**
+ * Apply a short edit instruction to an existing script.
+ *
+ * Text-only: works from the previous script, no reel analysis. Everything
+ * the instruction doesn't mention should survive unchanged.
+ */
+export async function refineScript(options: RefineOptions): Promise<StructuredScript> {
+  const { script, userIdea, instruction } = options;
+
+  const prompt = `
+  Edit an existing short-form video script according to the user's instruction.
+
+  CONCEPT:
+  "${userIdea}"
+
+  CURRENT SCRIPT:
+  ${serializeScript(script)}
+
+  USER'S INSTRUCTION:
+  "${instruction}"
+${buildLengthTarget(instruction)}
+  RULES:
+  - Apply the instruction fully, and change NOTHING else that it doesn't require.
+  - Keep the [HOOK] / [BODY] / [CTA] structure and the 🎬 VISUAL: / 💬 SAY: line format.
+  - Keep VISUAL lines consistent with any changed dialogue.
+  - Use ONLY the English/Roman alphabet, even when changing language (romanize).
+
+  Return ONLY the full revised script. No other text.`;
+
+  logger.info(`Refining script: "${instruction.slice(0, 50)}"`);
+
+  const response = await getLLMProvider().generateText({
+    prompt,
+    systemInstruction: (options.promptVariant || getPromptVariant()).templates.editorSystem,
+    label: 'refine',
+  });
+
+  const refined = parseScript(response.text);
+  if (refined.sections.length === 0) {
+    throw new Error('Refinement returned no script sections');
+  }
+
+  // A section the model dropped is kept as it was
+  return {
+    sections: SECTION_ORDER
+      .map(kind => getSection(refined, kind) || getSection(script, kind))
+      .filter((section): section is ScriptSection => Boolean(section)),
+  };
+}
+
+// ============================================
+// Quality Gate Repair
+// ============================================
+
+export interface RepairOptions {
+  scriptText: string;
+  /** Human-readable failed checks from the quality gate */
+  problems: string[];
+  userIdea: string;
+  mode?: GenerationMode;
+  languageHint?: string;
+  promptVariant?: PromptVariant;
+}
+
+/**
+ * Targeted fix for a script that failed the quality gate.
+ *
+ * Text-only: the failing script and the list of problems go back to the
+ * model, which must fix those problems and keep everything else.
+ */
+export async function repairScript(options: RepairOptions): Promise<string> {
+  const { scriptText, problems, userIdea, mode, languageHint } = options;
+
+  const prompt = `
+  A short-form video script failed automated quality checks. Fix it.
+
+  CONCEPT:
+  "${userIdea}"
+
+  SCRIPT:
+  ${scriptText}
+
+  PROBLEMS TO FIX:
+  ${problems.map(problem => `- ${problem}`).join('\n  ')}
+
+  RULES:
+  - Fix every problem above, and keep everything that isn't part of a problem.
+  - ${mode === 'hook_only' ? 'Output ONLY the [HOOK] section.' : 'Output all three sections: [HOOK], [BODY], [CTA].'}
+  - Every section uses 🎬 VISUAL: / 💬 SAY: pairs.
+  - Use ONLY the English/Roman alphabet in dialogue (romanize other languages).${languageHint ? `\n  - Dialogue language: ${languageHint}.` : ''}
+  - No markdown, no preamble, no notes.
+
+  Return ONLY the fixed script.`;
+
+  logger.info(`Repairing script (${problems.length} problem(s))`);
+
+  const response = await getLLMProvider().generateText({
+    prompt,
+    systemInstruction: (options.promptVariant || getPromptVariant()).templates.editorSystem,
+    label: 'quality repair',
+  });
+
+  return response.text;
+}
+
+/**
+ * SHARED MASTER PROMPT BUILDER
+ * Ensures 100% consistency between text-based and video-based generation
+ */
+function createMasterPrompt(variant: PromptVariant, userIdea: string, referenceDNA: string): string {
+  return renderTemplate(variant.templates.master, { userIdea, referenceDNA });
 }
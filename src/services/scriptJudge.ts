@@ -0,0 +1,293 @@
+/**
+ * Script Judge - Rubric scoring and multi-candidate selection
+ *
+ * Multi-candidate mode (SCRIPT_CANDIDATES > 1) generates N scripts in
+ * parallel at different temperatures, scores each one and delivers the best.
+ * Every candidate and score is kept for training data
+ * (DatasetEntryV2.alternatives).
+ *
+ * Rubric (0-100 each):
+ * - hookStrength      LLM judge - would the first 3 seconds stop the scroll?
+ * - pacing            LLM judge - tight, spoken-natural, fits the target length
+ * - formatCompliance  Local - [HOOK]/[BODY]/[CTA] with 🎬 VISUAL / 💬 SAY pairs
+ * - romanization      Local - dialogue uses the Roman alphabet only
+ *
+ * The local checks are deterministic and always run; if the judge call
+ * fails, ranking falls back to them alone.
+ *
+ * Quality rubric (scoreQualityRubric) - one delivered script, scored after
+ * delivery by the 'score' queue job into DatasetEntryV2.qualityMetrics:
+ * hookStrength, ctaClarity, pacing, originalityScore, predictedEngagement.
+ */
+
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { getLLMProvider } from './llm';
+import { parseScript, getDialogueLines, SectionKind } from '../utils/scriptParser';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface CandidateScore {
+  hookStrength?: number;
+  pacing?: number;
+  formatCompliance: number;
+  romanization: number;
+  overall: number;
+  notes?: string;
+}
+
+export interface CandidateRanking {
+  candidates: string[];
+  scores: CandidateScore[];
+  selectedIndex: number;
+  /** Model that produced hookStrength/pacing (absent if the judge failed) */
+  judgeModel?: string;
+}
+
+export interface QualityRubricScores {
+  hookStrength: number;
+  ctaClarity: number;
+  pacing: number;
+  originalityScore: number;
+  predictedEngagement: number;
+  notes?: string;
+  judgeModel: string;
+}
+
+export interface JudgeContext {
+  userIdea: string;
+  mode?: 'full' | 'hook_only';
+  languageHint?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const MAX_CANDIDATES = 5;
+
+/** Per-candidate sampling temperature (first = the usual single-script setting) */
+const CANDIDATE_TEMPERATURES = [0.7, 0.9, 1.0, 0.8, 1.1];
+
+const WEIGHTS = {
+  hookStrength: 0.35,
+  pacing: 0.25,
+  formatCompliance: 0.25,
+  romanization: 0.15,
+};
+
+const judgeResponseSchema = z.object({
+  scores: z.array(z.object({
+    candidate: z.coerce.number().int().min(1),
+    hookStrength: z.coerce.number().min(0).max(100),
+    pacing: z.coerce.number().min(0).max(100),
+    notes: z.string().optional(),
+  })),
+});
+
+const rubricResponseSchema = z.object({
+  hookStrength: z.coerce.number().min(0).max(100),
+  ctaClarity: z.coerce.number().min(0).max(100),
+  pacing: z.coerce.number().min(0).max(100),
+  originalityScore: z.coerce.number().min(0).max(100),
+  predictedEngagement: z.coerce.number().min(0).max(100),
+  notes: z.string().optional(),
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOCAL CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Section markers and VISUAL/SAY pairing
+ */
+export function scoreFormatCompliance(scriptText: string, mode: JudgeContext['mode'] = 'full'): number {
+  const expected: SectionKind[] = mode === 'hook_only' ? ['hook'] : ['hook', 'body', 'cta'];
+  const script = parseScript(scriptText);
+  const present = script.sections.filter(section => expected.includes(section.kind));
+
+  if (present.length === 0) return 0;
+
+  const beats = present.flatMap(section => section.beats);
+  const pairedBeats = beats.filter(beat => beat.visual && beat.say).length;
+
+  let score = 100 * (present.length / expected.length) * (beats.length > 0 ? pairedBeats / beats.length : 0);
+
+  // Preamble ("Here is your script:") or markdown the prompt forbids
+  if (!scriptText.trim().startsWith('[')) score -= 10;
+  if (/\*\*|^#+\s/m.test(scriptText)) score -= 10;
+
+  return Math.max(0, Math.round(score));
+}
+
+/**
+ * GLOBAL ROMANIZATION RULE: any non-Latin letter in the dialogue fails it
+ */
+export function scoreRomanization(scriptText: string): number {
+  const dialogue = getDialogueLines(parseScript(scriptText)).join(' ');
+  const letters = dialogue.match(/\p{L}/gu) || [];
+  const nonLatin = letters.filter(letter => !/\p{Script=Latin}/u.test(letter)).length;
+  return nonLatin === 0 ? 100 : 0;
+}
+
+function computeOverall(score: Omit<CandidateScore, 'overall'>): number {
+  const parts: Array<[number | undefined, number]> = [
+    [score.hookStrength, WEIGHTS.hookStrength],
+    [score.pacing, WEIGHTS.pacing],
+    [score.formatCompliance, WEIGHTS.formatCompliance],
+    [score.romanization, WEIGHTS.romanization],
+  ];
+  const available = parts.filter(([value]) => value !== undefined) as Array<[number, number]>;
+  const weightSum = available.reduce((sum, [, weight]) => sum + weight, 0);
+  return Math.round(available.reduce((sum, [value, weight]) => sum + value * weight, 0) / weightSum);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LLM JUDGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One JSON call scoring every candidate on the subjective criteria
+ */
+async function judgeCandidates(
+  candidates: string[],
+  context: JudgeContext
+): Promise<{ scores: z.infer<typeof judgeResponseSchema>['scores']; model: string }> {
+  const prompt = `
+  You are judging short-form video scripts (Reels/TikTok/Shorts) written for this concept:
+  "${context.userIdea}"
+  ${context.mode === 'hook_only' ? 'Only a [HOOK] was requested.' : 'Target length: 30-45 seconds of speech.'}
+
+  Score EACH candidate from 0 to 100 on:
+  - hookStrength: would the first 3 seconds stop a viewer from scrolling? Specific, surprising, tension-creating hooks score high; generic openers ("In this video...") score low.
+  - pacing: is it tight and spoken-natural, with no filler, and does its length fit the target?
+
+  ${candidates.map((candidate, i) => `--- CANDIDATE ${i + 1} ---\n${candidate}`).join('\n\n')}
+
+  RETURN JSON ONLY:
+  {
+    "scores": [
+      { "candidate": 1, "hookStrength": 0, "pacing": 0, "notes": "one short sentence" }
+    ]
+  }
+  `;
+
+  const response = await getLLMProvider().generateJSON({ prompt, temperature: 0, label: 'judge' });
+  const parsed = judgeResponseSchema.parse(response.data);
+  return { scores: parsed.scores, model: response.model };
+}
+
+/**
+ * Full rubric for a single delivered script. Throws on judge failure
+ * (the score job retries).
+ */
+export async function scoreQualityRubric(
+  scriptText: string,
+  context: JudgeContext & { transcript?: string | null }
+): Promise<QualityRubricScores> {
+  const prompt = `
+  You are a short-form video strategist reviewing a script (Reels/TikTok/Shorts) written for this concept:
+  "${context.userIdea}"
+  ${context.mode === 'hook_only' ? 'Only a [HOOK] was requested.' : 'Target length: 30-45 seconds of speech.'}
+  ${context.transcript ? `It was adapted from a reference video that said:\n  "${context.transcript.slice(0, 1500)}"` : ''}
+
+  Score the script from 0 to 100 on:
+  - hookStrength: would the first 3 seconds stop a viewer from scrolling?
+  - ctaClarity: is the call to action specific, single and easy to act on?${context.mode === 'hook_only' ? ' (No CTA was requested: score 50.)' : ''}
+  - pacing: tight and spoken-natural, no filler, length fits the target?
+  - originalityScore: fresh angle for this concept rather than a generic take${context.transcript ? ' or a copy of the reference' : ''}?
+  - predictedEngagement: how likely viewers are to watch to the end, save and share?
+
+  --- SCRIPT ---
+  ${scriptText}
+
+  RETURN JSON ONLY:
+  { "hookStrength": 0, "ctaClarity": 0, "pacing": 0, "originalityScore": 0, "predictedEngagement": 0, "notes": "one short sentence" }
+  `;
+
+  const response = await getLLMProvider().generateJSON({ prompt, temperature: 0, label: 'rubric' });
+  const parsed = rubricResponseSchema.parse(response.data);
+  return { ...parsed, judgeModel: response.model };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RANKING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Score candidates and pick the best (ties go to the earlier candidate)
+ */
+export async function rankCandidates(candidates: string[], context: JudgeContext): Promise<CandidateRanking> {
+  let judged: Awaited<ReturnType<typeof judgeCandidates>> | null = null;
+  try {
+    judged = await judgeCandidates(candidates, context);
+  } catch (error: any) {
+    logger.warn(`⚠️ Script judge failed, ranking on format/romanization only: ${error.message}`);
+  }
+
+  const scores = candidates.map((candidate, i) => {
+    const llmScore = judged?.scores.find(score => score.candidate === i + 1);
+    const partial = {
+      hookStrength: llmScore?.hookStrength,
+      pacing: llmScore?.pacing,
+      formatCompliance: scoreFormatCompliance(candidate, context.mode),
+      romanization: scoreRomanization(candidate),
+      notes: llmScore?.notes,
+    };
+    return { ...partial, overall: computeOverall(partial) };
+  });
+
+  const selectedIndex = scores.reduce((best, score, i) => (score.overall > scores[best].overall ? i : best), 0);
+
+  return { candidates, scores, selectedIndex, judgeModel: judged?.model };
+}
+
+/**
+ * Generate `count` candidates in parallel and rank them.
+ *
+ * `generate` is called once per candidate with its temperature. Failed
+ * candidates are dropped; throws only if every candidate failed. With a
+ * single candidate nothing is judged and ranking is null.
+ */
+export async function generateRankedCandidates(
+  generate: (temperature?: number) => Promise<string>,
+  count: number,
+  context: JudgeContext,
+  requestId: string
+): Promise<{ scriptText: string; ranking: CandidateRanking | null }> {
+  const n = Math.max(1, Math.min(MAX_CANDIDATES, Math.floor(count)));
+  if (n === 1) {
+    return { scriptText: await generate(), ranking: null };
+  }
+
+  logger.info(`[${requestId}] Generating ${n} candidates...`);
+  const results = await Promise.allSettled(CANDIDATE_TEMPERATURES.slice(0, n).map(temperature => generate(temperature)));
+
+  const candidates = results
+    .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled' && Boolean(result.value?.trim()))
+    .map(result => result.value);
+
+  if (candidates.length === 0) {
+    const firstError = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw firstError?.reason || new Error('All script candidates were empty');
+  }
+  if (candidates.length < n) {
+    logger.warn(`[${requestId}] ${n - candidates.length}/${n} candidates failed`);
+  }
+
+  const ranking = await rankCandidates(candidates, context);
+  const best = ranking.scores[ranking.selectedIndex];
+  logger.info(`[${requestId}] ✅ Picked candidate ${ranking.selectedIndex + 1}/${candidates.length} (overall ${best.overall})`);
+
+  return { scriptText: candidates[ranking.selectedIndex], ranking };
+}
+
+export default {
+  generateRankedCandidates,
+  rankCandidates,
+  scoreQualityRubric,
+  scoreFormatCompliance,
+  scoreRomanization,
+};
@@ -0,0 +1,186 @@
+/**
+ * Training Export - DatasetEntryV2 rows as fine-tuning examples
+ *
+ * Each row becomes one prompt/completion pair: the text-mode prompt the
+ * generator would send for the stored analysis (same prompt variant, tone,
+ * language and mode hints) and the delivered script. Prior-context and
+ * variation hints are not stored, so they are not reproduced.
+ *
+ * Formats (one JSON object per line):
+ * - vertex   Gemini supervised tuning  { systemInstruction, contents: [user, model] }
+ * - openai   Chat fine-tuning          { messages: [system, user, assistant] }
+ *
+ * Exported rows are stamped with training.exportedAt / trainingBatch and
+ * training.includedInTraining, so a batch can be traced back to its rows.
+ */
+
+import { QueryFilter, Types } from 'mongoose';
+import { DatasetEntryV2, IDatasetEntryV2 } from '../db/models/DatasetV2';
+import { buildScriptPrompt } from './scriptGenerator';
+import { DEFAULT_PROMPT_VARIANT_ID, getPromptVariant, listPromptVariants } from './promptRegistry';
+import { COPY_MODE_IDEA } from './datasetV2';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type TrainingExportTarget = 'vertex' | 'openai';
+
+export interface TrainingExportFilters {
+  minQualityScore?: number;
+  minRating?: number;
+  from?: Date;
+  to?: Date;
+  /** generation.promptVersion (prompt variant ID) */
+  promptVersion?: string;
+  validatedOnly?: boolean;
+  /** Only rows scored by the LLM judge rubric (qualityMetrics.scoredAt) */
+  judgedOnly?: boolean;
+}
+
+export interface VertexTuningExample {
+  systemInstruction: { role: 'system'; parts: [{ text: string }] };
+  contents: [
+    { role: 'user'; parts: [{ text: string }] },
+    { role: 'model'; parts: [{ text: string }] },
+  ];
+}
+
+export interface OpenAIChatExample {
+  messages: [
+    { role: 'system'; content: string },
+    { role: 'user'; content: string },
+    { role: 'assistant'; content: string },
+  ];
+}
+
+export type TrainingExample = VertexTuningExample | OpenAIChatExample;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUERY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Mongo filter for exportable rows. Copy-mode rows (transcript delivered
+ * as-is, no prompt involved) are excluded, by their marker idea and by the
+ * 'default' variant ID they keep.
+ */
+export function buildTrainingQuery(filters: TrainingExportFilters): QueryFilter<IDatasetEntryV2> {
+  const query: QueryFilter<IDatasetEntryV2> = {
+    'output.generatedScript': { $exists: true, $ne: '' },
+    'input.userIdea': { $ne: COPY_MODE_IDEA },
+    'experiment.promptVariantId': { $ne: 'default' },
+  };
+
+  if (filters.validatedOnly) {
+    query['training.isValidated'] = true;
+  }
+  if (filters.judgedOnly) {
+    query['qualityMetrics.scoredAt'] = { $exists: true };
+  }
+  if (filters.minQualityScore !== undefined) {
+    query['training.qualityScore'] = { $gte: filters.minQualityScore };
+  }
+  if (filters.minRating !== undefined) {
+    query['feedback.overallRating'] = { $gte: filters.minRating };
+  }
+  if (filters.promptVersion) {
+    query['generation.promptVersion'] = filters.promptVersion;
+  }
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from ? { $gte: filters.from } : {}),
+      ...(filters.to ? { $lte: filters.to } : {}),
+    };
+  }
+
+  return query;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMATTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rebuild the generation prompt for a stored entry
+ */
+export function buildTrainingPrompt(entry: IDatasetEntryV2): { prompt: string; systemInstruction: string } {
+  const { input } = entry;
+  // Rows from before the registry carry legacy version strings - render those with the default
+  const variantId = entry.generation?.promptVersion || entry.experiment?.promptVariantId;
+  const variant = listPromptVariants().find(v => v.id === variantId) || getPromptVariant(DEFAULT_PROMPT_VARIANT_ID);
+
+  return buildScriptPrompt({
+    userIdea: input.userIdea,
+    transcript: input.transcript || null,
+    visualAnalysis: {
+      transcript: input.transcript || null,
+      visualCues: input.visualCues || [],
+      hookType: input.hookType || 'Unknown',
+      tone: input.detectedTone || 'Unknown',
+      sceneDescriptions: input.sceneDescriptions || [],
+    },
+    toneHint: input.toneHint,
+    languageHint: input.languageHint,
+    mode: input.mode,
+    promptVariant: variant,
+  });
+}
+
+export function toTrainingExample(entry: IDatasetEntryV2, target: TrainingExportTarget): TrainingExample {
+  const { prompt, systemInstruction } = buildTrainingPrompt(entry);
+  const completion = entry.output.generatedScript;
+
+  if (target === 'openai') {
+    return {
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: completion },
+      ],
+    };
+  }
+
+  return {
+    systemInstruction: { role: 'system', parts: [{ text: systemInstruction }] },
+    contents: [
+      { role: 'user', parts: [{ text: prompt }] },
+      { role: 'model', parts: [{ text: completion }] },
+    ],
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BATCHES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Batch ID for an export, e.g. 'ft-20261019-142501'
+ */
+export function createTrainingBatchId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `ft-${stamp}`;
+}
+
+export async function markExported(ids: Types.ObjectId[], trainingBatch: string): Promise<void> {
+  if (ids.length === 0) return;
+
+  await DatasetEntryV2.updateMany(
+    { _id: { $in: ids } },
+    {
+      $set: {
+        'training.exportedAt': new Date(),
+        'training.trainingBatch': trainingBatch,
+        'training.includedInTraining': true,
+      },
+    }
+  );
+}
+
+export default {
+  buildTrainingQuery,
+  buildTrainingPrompt,
+  toTrainingExample,
+  createTrainingBatchId,
+  markExported,
+};
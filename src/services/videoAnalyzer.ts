@@ -1,16 +1,29 @@
-
-import { VertexAI, Part } from '@google-cloud/vertexai';
+import { z } from 'zod';
 import { logger } from '../utils/logger';
-import { config } from '../config';
+import { getLLMProvider, fileToMedia, LLMMedia, LLMResponseError } from './llm';
 import fs from 'fs';
+import type { VideoShot } from './frameExtractor';
+
+/**
+ * One timed piece of speech (sentence-level, or word-level if that's what the model returns)
+ */
+export interface TranscriptSegment {
+  text: string;
+  startSec: number;
+  endSec: number;
+}
 
 // Define the interface for video analysis results
 export interface VideoAnalysis {
   transcript: string | null;
+  transcriptSegments?: TranscriptSegment[];
   visualCues: string[];
   hookType: string;
   tone: string;
   sceneDescriptions: string[];
+
+  // Shot boundaries from scene detection (not produced by the model)
+  shots?: VideoShot[];
 }
 
 // Options for the analyzer
@@ -20,152 +33,357 @@ interface AnalyzeOptions {
   includeAudio?: boolean;
 }
 
-// Model configuration with fallback hierarchy (Vertex AI compatible)
-const MODEL_HIERARCHY = [
-  'gemini-2.5-flash',     // Primary (2.5 Flash)
-  'gemini-2.0-flash-001', // Fallback (2.0 Flash)
-];
-
-// Initialize Vertex AI
-const vertexAI = new VertexAI({
-  project: config.GCP_PROJECT_ID,
-  location: config.GCP_LOCATION,
-  googleAuthOptions: {
-    keyFilename: config.GOOGLE_APPLICATION_CREDENTIALS || undefined,
-  },
+/**
+ * A repair or fallback that happened while producing the analysis.
+ * The worker persists these to DatasetEntryV2.failures.
+ */
+export interface AnalysisFailure {
+  kind: 'repair' | 'fallback';
+  attemptNumber: number;
+  errorMessage: string;
+  rawOutput?: string;
+  timestamp: Date;
+}
+
+export interface AnalysisOutcome {
+  analysis: VideoAnalysis;
+  failures: AnalysisFailure[];
+}
+
+// Number of re-prompts before falling back to salvaged defaults
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Raw output kept on failure records (enough to debug, small enough for Mongo)
+const RAW_OUTPUT_LIMIT = 2000;
+
+// ============================================
+// Schema (coercion + defaults)
+// ============================================
+
+/**
+ * List of strings. Accepts a newline/bullet string or an array of primitives.
+ * Objects inside the array are NOT coerced - they fail validation and trigger repair.
+ */
+const stringListSchema = z.preprocess((value) => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') {
+    return value
+      .split(/\n+/)
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .filter(item => item !== undefined && item !== null)
+      .map(item => (typeof item === 'number' || typeof item === 'boolean') ? String(item) : item)
+      .map(item => (typeof item === 'string' ? item.trim() : item))
+      .filter(item => item !== '');
+  }
+  return value;
+}, z.array(z.string()));
+
+/**
+ * Short label (hookType, tone). Missing → 'Unknown', list → joined.
+ */
+const labelSchema = z.preprocess((value) => {
+  if (value === undefined || value === null) return 'Unknown';
+  if (typeof value === 'string') return value.trim() || 'Unknown';
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.join(', ') || 'Unknown';
+  }
+  return value;
+}, z.string());
+
+/**
+ * Transcript. Empty / "none" / "null" → null, list of lines → joined.
+ */
+const transcriptSchema = z.preprocess((value) => {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    value = value.join(' ');
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' || /^(null|none|n\/a|no speech)\.?$/i.test(trimmed) ? null : trimmed;
+  }
+  return value;
+}, z.string().nullable());
+
+/**
+ * Seconds. Accepts numbers, numeric strings and "m:ss" timestamps.
+ */
+function toSeconds(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const clock = value.trim().match(/^(\d+):(\d{1,2}(?:\.\d+)?)$/);
+    if (clock) return parseInt(clock[1], 10) * 60 + parseFloat(clock[2]);
+    const numeric = parseFloat(value.replace(/s$/i, ''));
+    return Number.isNaN(numeric) ? value : numeric;
+  }
+  return value;
+}
+
+/**
+ * Timed transcript segments. Accepts start/end aliases for startSec/endSec,
+ * drops empty segments and returns them sorted by start time.
+ */
+const transcriptSegmentsSchema = z.preprocess((value) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) return value;
+  return value
+    .filter(item => item && typeof item === 'object')
+    .map((item: any) => ({
+      text: typeof item.text === 'string' ? item.text.trim() : item.text,
+      startSec: toSeconds(item.startSec ?? item.start),
+      endSec: toSeconds(item.endSec ?? item.end),
+    }))
+    .filter(item => item.text !== '');
+}, z.array(z.object({
+  text: z.string(),
+  startSec: z.number().min(0),
+  endSec: z.number().min(0),
+}).refine(segment => segment.endSec >= segment.startSec, {
+  message: 'endSec must not be before startSec',
+})).transform(segments => [...segments].sort((a, b) => a.startSec - b.startSec)).optional());
+
+/**
+ * Shot list. Set by the worker from frame extraction, validated so stored
+ * analyses with broken shots don't reach the prompt.
+ */
+const shotListSchema = z.array(z.object({
+  startSec: z.number().min(0),
+  endSec: z.number().min(0),
+})).optional();
+
+const videoAnalysisObject = z.object({
+  transcript: transcriptSchema,
+  transcriptSegments: transcriptSegmentsSchema,
+  visualCues: stringListSchema,
+  hookType: labelSchema,
+  tone: labelSchema,
+  sceneDescriptions: stringListSchema,
+  shots: shotListSchema,
 });
 
-logger.info(`✅ Vertex AI initialized for project: ${config.GCP_PROJECT_ID}`);
-if (config.GOOGLE_APPLICATION_CREDENTIALS) {
-  logger.info(`✅ Using credentials from: ${config.GOOGLE_APPLICATION_CREDENTIALS}`);
+export const videoAnalysisSchema = videoAnalysisObject.superRefine((analysis, ctx) => {
+  if (!analysis.transcript && analysis.visualCues.length === 0 && analysis.sceneDescriptions.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Analysis is empty: provide a transcript, visualCues or sceneDescriptions',
+    });
+  }
+});
+
+const EMPTY_ANALYSIS: VideoAnalysis = {
+  transcript: null,
+  visualCues: [],
+  hookType: 'Unknown',
+  tone: 'Unknown',
+  sceneDescriptions: [],
+};
+
+/**
+ * Human/model-readable list of validation issues
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
 }
 
+/**
+ * Keep every field that validates on its own, default the rest.
+ * Used as the last resort after repair attempts are exhausted.
+ */
+function salvageAnalysis(raw: unknown): VideoAnalysis {
+  const source = (raw && typeof raw === 'object' && !Array.isArray(raw)) ? raw as Record<string, unknown> : {};
+  const shape = videoAnalysisObject.shape;
+  const valid: Partial<VideoAnalysis> = Object.fromEntries(
+    Object.entries(shape).flatMap(([key, field]) => {
+      const result = field.safeParse(source[key]);
+      return result.success ? [[key, result.data]] : [];
+    })
+  );
+
+  return { ...EMPTY_ANALYSIS, ...valid };
+}
 
 /**
- * File to GenerativePart converter (Async)
+ * Coerce a stored/legacy analysis (e.g. an old ReelDNA document) into a safe shape.
+ * Never throws - unusable fields fall back to defaults.
  */
-async function fileToGenerativePart(path: string, mimeType: string): Promise<Part> {
-  const data = await fs.promises.readFile(path);
-  return {
-    inlineData: {
-      data: data.toString('base64'),
-      mimeType
-    },
-  };
+export function normalizeVideoAnalysis(raw: unknown): VideoAnalysis {
+  const result = videoAnalysisSchema.safeParse(raw);
+  return result.success ? result.data : salvageAnalysis(raw);
 }
 
+function truncateRaw(text: string | undefined): string | undefined {
+  return text ? text.slice(0, RAW_OUTPUT_LIMIT) : undefined;
+}
+
+// ============================================
+// Repair Pass
+// ============================================
+
 /**
- * Sleep helper for backoff
+ * Ask the model to fix its own output, given the validation errors.
+ * Text-only JSON call: the media is not needed to fix structure.
  */
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+async function requestRepair(rawOutput: string, issues: string): Promise<{ data: unknown; text: string }> {
+  const prompt = `
+  Your previous answer to a video analysis request did not match the required JSON structure.
+
+  PREVIOUS ANSWER:
+  ${rawOutput.slice(0, RAW_OUTPUT_LIMIT)}
+
+  VALIDATION ERRORS:
+  ${issues}
+
+  Return the SAME analysis, corrected, as JSON ONLY with exactly this structure:
+  {
+    "transcript": "string or null",
+    "transcriptSegments": [{ "text": "string", "startSec": 0.0, "endSec": 0.0 }],
+    "visualCues": ["string", "..."],
+    "hookType": "string",
+    "tone": "string",
+    "sceneDescriptions": ["string", "..."]
+  }
+
+  Do not invent new content. Only fix the structure and types.
+  `;
+
+  const response = await getLLMProvider().generateJSON({ prompt, label: 'analysis repair' });
+  return { data: response.data, text: response.text };
+}
+
+// ============================================
+// Analyzer
+// ============================================
 
 /**
- * Analyze video frames and/or audio using Gemini with fallback support
+ * Analyze video frames and/or audio via the configured LLM provider (JSON mode).
+ *
+ * The response is validated against `videoAnalysisSchema`. Invalid output is
+ * sent back to the model once with the validation errors; if it still fails,
+ * valid fields are salvaged and the rest defaulted. Each repair/fallback is
+ * returned in `failures` so callers can record it.
  */
-export async function analyzeVideo(options: AnalyzeOptions): Promise<VideoAnalysis> {
+export async function analyzeVideo(options: AnalyzeOptions): Promise<AnalysisOutcome> {
   const { frames = [], audioPath, includeAudio } = options;
-  
+
   // Input validation
   if (frames.length === 0 && !audioPath) {
     throw new Error('No input provided for analysis (frames or audio)');
   }
 
   // Optimize: Read files into memory ONCE to avoid repeated I/O in the loop
-  const frameParts: Part[] = [];
-  
+  const media: LLMMedia[] = [];
+
   // Read frames in parallel
   if (frames.length > 0) {
     const framePromises = frames
       .filter(f => fs.existsSync(f))
-      .map(f => fileToGenerativePart(f, 'image/jpeg'));
-    
-    frameParts.push(...await Promise.all(framePromises));
+      .map(f => fileToMedia(f, 'image/jpeg'));
+
+    media.push(...await Promise.all(framePromises));
   }
 
   // Read audio
-  let audioPart: Part | null = null;
   if (includeAudio && audioPath && fs.existsSync(audioPath)) {
-    audioPart = await fileToGenerativePart(audioPath, 'audio/wav');
+    media.push(await fileToMedia(audioPath, 'audio/wav'));
   }
 
   // Prepare prompt
   const prompt = `
   Analyze this video content (frames and/or audio) to extract structured data for script generation.
-  
+
   RETURN JSON ONLY with this structure:
   {
     "transcript": "Full spoken text from audio (if any). If none, null.",
+    "transcriptSegments": [{ "text": "One spoken sentence", "startSec": 0.0, "endSec": 2.5 }],
     "visualCues": ["List of key visual elements, styles, or actions shown"],
     "hookType": "The type of psychological hook used (e.g., 'Negative visual', 'Stop scrolling', 'Controversial statement', 'Unknown')",
     "tone": "The overall emotional tone (e.g., 'High Energy', 'Educational', 'Sarcastic')",
     "sceneDescriptions": ["Chronological description of visual scenes shown in frames"]
   }
-  
+
+  transcriptSegments: the transcript split into sentences, in order, with start/end times in
+  seconds from the start of the audio. Use [] if there is no speech.
+
   Be precise and detailed.
   `;
 
-  let lastError: any = null;
+  const failures: AnalysisFailure[] = [];
+  let rawData: unknown;
+  let rawText: string;
+  let issues: string;
 
-  // Try models in sequence
-  for (const modelName of MODEL_HIERARCHY) {
-    try {
-      logger.info(`Attempting video analysis with model: ${modelName}`);
-      const model = vertexAI.getGenerativeModel({ model: modelName });
-
-      // Prepare parts for Vertex AI format
-      const contentParts: Part[] = [
-        { text: prompt },
-        ...frameParts,
-      ];
-      
-      if (audioPart) {
-        contentParts.push(audioPart);
-      }
+  // Provider walks its multimodal model hierarchy; malformed JSON falls through to the next model
+  try {
+    const response = await getLLMProvider().generateJSON({
+      prompt,
+      media,
+      label: 'analysis',
+    });
 
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: contentParts }],
-      });
-      const response = result.response;
-      const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      
-      // Parse JSON
-      const jsonStart = text.indexOf('{');
-      const jsonEnd = text.lastIndexOf('}') + 1;
-      if (jsonStart === -1 || jsonEnd === 0) {
-        throw new Error('Invalid JSON response from Gemini');
+    const result = videoAnalysisSchema.safeParse(response.data);
+    if (result.success) {
+      logger.info(`✅ Analysis successful with ${response.provider}/${response.model}`);
+      return { analysis: result.data, failures };
+    }
+
+    rawData = response.data;
+    rawText = response.text;
+    issues = formatIssues(result.error);
+  } catch (error: any) {
+    // Every model answered with non-JSON: repairable. Anything else (API down) propagates.
+    if (!(error instanceof LLMResponseError)) throw error;
+    rawData = undefined;
+    rawText = error.rawText;
+    issues = `- (root): ${error.message}`;
+  }
+
+  // Repair loop
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    logger.warn(`⚠️ Analysis failed validation, requesting repair (attempt ${attempt}):\n${issues}`);
+    failures.push({
+      kind: 'repair',
+      attemptNumber: attempt,
+      errorMessage: issues,
+      rawOutput: truncateRaw(rawText),
+      timestamp: new Date(),
+    });
+
+    try {
+      const repaired = await requestRepair(rawText, issues);
+      const result = videoAnalysisSchema.safeParse(repaired.data);
+      if (result.success) {
+        logger.info(`✅ Analysis repaired on attempt ${attempt}`);
+        return { analysis: result.data, failures };
       }
-      
-      const jsonStr = text.substring(jsonStart, jsonEnd);
-      const data = JSON.parse(jsonStr) as VideoAnalysis;
-      
-      logger.info(`✅ Analysis successful with ${modelName}`);
-      return data;
 
+      rawData = repaired.data;
+      rawText = repaired.text;
+      issues = formatIssues(result.error);
     } catch (error: any) {
-      lastError = error;
-      const isAuthError = error.message?.includes('403') || error.status === 403;
-      const isRateLimit = error.message?.includes('429') || error.status === 429;
-      const isServerError = error.message?.includes('500') || error.status === 500;
-
-      logger.warn(`❌ Model ${modelName} failed: ${error.message}`);
-
-      if (isAuthError) {
-        // If auth error, retrying might not help unless we switch API usage pattern (or it's a permission issue with specific model)
-        // We continue to next model in case it's a model-access issue.
-        logger.warn(`Auth error on ${modelName}, trying next model...`);
-      } else if (isRateLimit) {
-        // Exponential backoff could be applied here, or just switch to cheaper model
-        logger.warn(`Rate limit on ${modelName}, switching to fallback...`);
-        await sleep(2000); // Short wait before next model
-      } else if (isServerError) {
-        logger.warn(`Server error on ${modelName}, switching to fallback...`);
+      if (error instanceof LLMResponseError) {
+        rawText = error.rawText;
+        issues = `- (root): ${error.message}`;
+      } else {
+        issues = `- (repair call): ${error.message}`;
       }
-      
-      // Continue loop to next model
     }
   }
 
-  // If we get here, all models failed
-  logger.error('All analysis models failed.');
-  throw lastError || new Error('Video analysis failed on all models');
+  // Fallback: salvage what validates, default the rest
+  const analysis = salvageAnalysis(rawData);
+  logger.warn(`⚠️ Analysis repair exhausted - using salvaged fallback:\n${issues}`);
+  failures.push({
+    kind: 'fallback',
+    attemptNumber: MAX_REPAIR_ATTEMPTS + 1,
+    errorMessage: issues,
+    rawOutput: truncateRaw(rawText),
+    timestamp: new Date(),
+  });
+
+  return { analysis, failures };
 }
@@ -0,0 +1,162 @@
+/**
+ * Video Upload Storage
+ *
+ * Directly uploaded videos (a creator's own clip, or a reel downloadReel
+ * can't fetch) are stored on disk under UPLOAD_DIR, named by the SHA-256 of
+ * their content. The pipeline refers to them as `upload://<sha256>`, so the
+ * content hash doubles as the ReelDNA cache key and re-uploads of the same
+ * file skip analysis.
+ *
+ * Limits (UPLOAD_MAX_BYTES, UPLOAD_MAX_DURATION_SEC) are enforced here with
+ * ffprobe - multer only enforces the byte limit while receiving.
+ *
+ * The API node stores the file and a worker node reads it, so with separate
+ * API and worker processes (APP_ROLE) UPLOAD_DIR must be a shared volume.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { buildUploadUrl, getUploadHash } from '../utils/platforms';
+import { getVideoDuration } from './frameExtractor';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface StoredUpload {
+  contentHash: string;
+  reelUrl: string;          // upload://<contentHash>
+  filePath: string;
+  durationSec: number;
+  sizeBytes: number;
+  isDuplicate: boolean;     // Same content was uploaded before
+}
+
+/**
+ * Upload rejected for a reason the user can fix (too long, not a video...)
+ */
+export class UploadRejectedError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function getUploadDir(): string {
+  const dir = path.resolve(process.cwd(), config.UPLOAD_DIR);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Stored file for an upload pseudo-URL (throws if missing)
+ */
+export function getUploadPath(reelUrl: string): string {
+  const contentHash = getUploadHash(reelUrl);
+  if (!contentHash) {
+    throw new Error(`Not an upload URL: ${reelUrl}`);
+  }
+
+  const filePath = path.join(getUploadDir(), contentHash);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Uploaded video not found: ${contentHash} (is UPLOAD_DIR shared between API and worker nodes?)`);
+  }
+  return filePath;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORE / FETCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate a received file and move it into upload storage.
+ * The temp file is consumed (moved or deleted) on success.
+ *
+ * @throws UploadRejectedError when the file is not a usable video
+ */
+export async function storeUpload(tempPath: string, requestId: string): Promise<StoredUpload> {
+  const { size } = await fs.promises.stat(tempPath);
+  if (size > config.UPLOAD_MAX_BYTES) {
+    throw new UploadRejectedError('FILE_TOO_LARGE', `Video is too large (max ${Math.round(config.UPLOAD_MAX_BYTES / 1024 / 1024)}MB)`);
+  }
+
+  let durationSec: number;
+  try {
+    durationSec = await getVideoDuration(tempPath);
+  } catch (error: any) {
+    logger.warn(`[${requestId}] ffprobe rejected upload: ${error.message}`);
+    throw new UploadRejectedError('INVALID_VIDEO', 'That file is not a video we can read');
+  }
+
+  if (!durationSec || durationSec <= 0) {
+    throw new UploadRejectedError('INVALID_VIDEO', 'That file is not a video we can read');
+  }
+  if (durationSec > config.UPLOAD_MAX_DURATION_SEC) {
+    throw new UploadRejectedError('VIDEO_TOO_LONG', `Video is too long (max ${config.UPLOAD_MAX_DURATION_SEC} seconds)`);
+  }
+
+  const contentHash = await hashFile(tempPath);
+  const filePath = path.join(getUploadDir(), contentHash);
+  const isDuplicate = fs.existsSync(filePath);
+
+  if (isDuplicate) {
+    await fs.promises.unlink(tempPath).catch(() => {});
+  } else {
+    // rename fails across devices (temp dir on another volume) - fall back to copy
+    await fs.promises.rename(tempPath, filePath).catch(async () => {
+      await fs.promises.copyFile(tempPath, filePath);
+      await fs.promises.unlink(tempPath).catch(() => {});
+    });
+  }
+
+  logger.info(`[${requestId}] ✅ Upload stored: ${contentHash} (${durationSec.toFixed(1)}s, ${size} bytes${isDuplicate ? ', duplicate' : ''})`);
+
+  return {
+    contentHash,
+    reelUrl: buildUploadUrl(contentHash),
+    filePath,
+    durationSec,
+    sizeBytes: size,
+    isDuplicate,
+  };
+}
+
+/**
+ * Copy a stored upload into temp/ for one job.
+ * The worker deletes its video file when done; the stored original must survive.
+ */
+export async function copyUploadToTemp(reelUrl: string, id: string): Promise<string> {
+  const source = getUploadPath(reelUrl);
+  const tempDir = path.join(process.cwd(), 'temp');
+  if (!fs.existsSync(tempDir)) {
+    fs.mkdirSync(tempDir, { recursive: true });
+  }
+
+  const outputPath = path.join(tempDir, `${id.replace(/[^a-zA-Z0-9-_]/g, '')}.mp4`);
+  await fs.promises.copyFile(source, outputPath);
+  logger.info(`[${id}] Using uploaded video (skipping download)`);
+  return outputPath;
+}
+
+export default {
+  storeUpload,
+  copyUploadToTemp,
+  getUploadPath,
+};
@@ -91,6 +91,21 @@ export const DEFAULT_CONFIGS: Record<string, CircuitBreakerConfig> = {
     successThreshold: 1,      // 1 success to close circuit
     failureWindow: 120000,    // 2 minute window for counting failures
   },
+  // One breaker per platform: Instagram blocking us must not stop TikTok/YouTube downloads
+  'tiktok-download': {
+    name: 'tiktok-download',
+    failureThreshold: 3,
+    resetTimeout: 60000,
+    successThreshold: 1,
+    failureWindow: 120000,
+  },
+  'youtube-download': {
+    name: 'youtube-download',
+    failureThreshold: 3,
+    resetTimeout: 60000,
+    successThreshold: 1,
+    failureWindow: 120000,
+  },
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -1,44 +1,29 @@
 import crypto from 'crypto';
+import { normalizeReelUrl, extractVideoId, getUploadHash } from './platforms';
+
+export { normalizeReelUrl };
 
 /**
- * Normalize Instagram URL for consistent caching
- * - Removes UTM parameters and other tracking params
- * - Removes trailing slashes
- * - Extracts just the core reel ID path
+ * Normalize a reel URL for consistent caching
+ *
+ * @deprecated Use normalizeReelUrl from utils/platforms (handles TikTok / YouTube Shorts too)
  */
 export function normalizeInstagramUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    
-    // Remove all query parameters (UTM, igsh, etc.)
-    parsed.search = '';
-    
-    // Normalize the pathname
-    let pathname = parsed.pathname;
-    
-    // Remove trailing slash
-    if (pathname.endsWith('/')) {
-      pathname = pathname.slice(0, -1);
-    }
-    
-    // Normalize /reels/ to /reel/
-    pathname = pathname.replace('/reels/', '/reel/');
-    
-    parsed.pathname = pathname;
-    
-    return parsed.toString();
-  } catch {
-    // If URL parsing fails, return as-is
-    return url;
-  }
+  return normalizeReelUrl(url);
 }
 
 /**
  * Tier 1 Cache Key: Hash based ONLY on normalized reel URL
  * Used to cache video analysis (the expensive part)
+ *
+ * Uploaded videos (upload://<sha256>) are keyed by their content hash,
+ * so the same file uploaded twice reuses one analysis.
  */
 export function generateReelHash(reelUrl: string): string {
-  const normalizedUrl = normalizeInstagramUrl(reelUrl);
+  const uploadHash = getUploadHash(reelUrl);
+  if (uploadHash) return uploadHash;
+
+  const normalizedUrl = normalizeReelUrl(reelUrl);
   return crypto.createHash('sha256').update(normalizedUrl).digest('hex');
 }
 
@@ -57,7 +42,7 @@ export function generateRequestHash(
   mode?: string
 ): string {
   // Normalize URL and optional params
-  const normalizedUrl = normalizeInstagramUrl(reelUrl);
+  const normalizedUrl = normalizeReelUrl(reelUrl);
   const lang = languageHint?.trim() || 'default';
   const tone = toneHint?.trim() || 'default';
   const genMode = mode?.trim() || 'full';
@@ -86,7 +71,7 @@ export function generateRequestHashV2(
   variationIndex: number = 0,
   mode: string = 'full'
 ): string {
-  const normalizedUrl = normalizeInstagramUrl(reelUrl);
+  const normalizedUrl = normalizeReelUrl(reelUrl);
   const normalizedIdea = userIdea.toLowerCase().trim();
   const genMode = mode?.trim() || 'full';
   
@@ -95,6 +80,25 @@ export function generateRequestHashV2(
   return crypto.createHash('sha256').update(data).digest('hex');
 }
 
+/**
+ * Cache key for a revision of an existing script (section regen, refine...)
+ *
+ * Revisions are saved as new Script documents, so they need their own
+ * requestHash. The job ID keeps repeated revisions of the same section unique.
+ *
+ * @param parentRequestHash - requestHash of the script being revised
+ * @param revisionKey - What was revised (e.g. "section_regen:hook")
+ * @param jobId - ID of the job producing the revision
+ */
+export function generateRevisionHash(
+  parentRequestHash: string,
+  revisionKey: string,
+  jobId: string
+): string {
+  const data = `rev:${parentRequestHash}:${revisionKey}:${jobId}`;
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
 /**
  * Generate a short variation tag for display
  * e.g., "v1", "v2", "v3"
@@ -104,15 +108,9 @@ export function getVariationTag(variationIndex: number): string {
 }
 
 /**
- * Extract reel ID from Instagram URL
+ * Extract the platform video ID from a reel URL
  * Useful for shorter cache keys or display
  */
 export function extractReelId(url: string): string | null {
-  try {
-    const normalized = normalizeInstagramUrl(url);
-    const match = normalized.match(/\/reel\/([A-Za-z0-9_-]+)/);
-    return match ? match[1] : null;
-  } catch {
-    return null;
-  }
+  return extractVideoId(url);
 }
@@ -7,6 +7,7 @@ import fs from 'fs';
 import path from 'path';
 import { logger } from './logger';
 import { config } from '../config';
+import { parseScript, getSection, ScriptBeat, ScriptSection } from './scriptParser';
 
 const IMGBB_API_KEY = config.IMGBB_API_KEY;
 
@@ -46,49 +47,24 @@ const COLORS = {
   dividerStrong: 'rgba(255, 255, 255, 0.08)',
 };
 
-/**
- * Parse script into structured sections with VISUAL/SAY lines
- */
-function parseScript(scriptText: string): { hook: string[], body: string[], cta: string[] } {
-  const sections = { hook: [] as string[], body: [] as string[], cta: [] as string[] };
-  
-  // Split by section headers
-  const parts = scriptText.split(/\[(HOOK|BODY|CTA)\]/i);
-  
-  for (let i = 1; i < parts.length; i += 2) {
-    const header = parts[i]?.toUpperCase();
-    const content = parts[i + 1]?.trim() || '';
-    
-    // Split content into lines
-    const lines = content.split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0);
-    
-    if (header === 'HOOK') sections.hook = lines;
-    else if (header === 'BODY') sections.body = lines;
-    else if (header === 'CTA') sections.cta = lines;
-  }
-  
-  return sections;
-}
-
 /**
  * Format a line with proper styling based on type (VISUAL vs SAY)
  * ALIGNED: Matches copy link webpage styling exactly
  */
-function formatLine(visual: string | null, say: string | null, isLast: boolean = false): string {
+function formatLine(beat: ScriptBeat, isLast: boolean = false): string {
   const borderStyle = isLast ? '' : `border-bottom: 1px solid ${COLORS.divider};`;
+  const { visual, say } = beat;
   
   // Generic text fallback
-  if (!visual?.match(/🎬|VISUAL:/i) && !say?.match(/💬|SAY:/i) && visual) {
-    return `<div style="display: flex; padding: 28px; ${borderStyle} color: ${COLORS.textDim}; font-size: 14px; line-height: 2;">${escapeHtml(visual)}</div>`;
+  if (beat.note !== undefined) {
+    return `<div style="display: flex; padding: 28px; ${borderStyle} color: ${COLORS.textDim}; font-size: 14px; line-height: 2;">${escapeHtml(beat.note)}</div>`;
   }
 
   return `<div style="display: flex; align-items: stretch; gap: 0; padding: 32px 0; ${borderStyle}">
     <!-- Visual Side (40%) -->
     <div style="display: flex; flex-direction: column; width: 400px; padding-right: 36px; border-right: 2px solid ${COLORS.divider};">
       <div style="display: flex; font-size: 10px; font-weight: 800; color: ${COLORS.textMuted}; text-transform: uppercase; letter-spacing: 2.5px; margin-bottom: 12px;">🎬 VISUAL</div>
-      <div style="display: flex; font-size: 14px; color: ${COLORS.textDim}; line-height: 2; font-style: italic;">${visual ? escapeHtml(visual.replace(/^🎬\s*VISUAL:\s*/i, '').replace(/^VISUAL:\s*/i, '')) : '—'}</div>
+      <div style="display: flex; font-size: 14px; color: ${COLORS.textDim}; line-height: 2; font-style: italic;">${visual ? escapeHtml(visual) : '—'}</div>
     </div>
     
     <!-- Dialogue Side (60%) -->
@@ -96,7 +72,7 @@ function formatLine(visual: string | null, say: string | null, isLast: boolean =
       <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 12px;">
         <span style="display: flex; font-size: 10px; font-weight: 900; color: ${COLORS.accent}; text-transform: uppercase; letter-spacing: 3.5px;">💬 DIALOGUE</span>
       </div>
-      <div style="display: flex; font-size: 24px; font-weight: 600; color: ${COLORS.textMain}; line-height: 1.45; letter-spacing: -0.5px;">${say ? escapeHtml(say.replace(/^💬\s*SAY:\s*/i, '').replace(/^SAY:\s*/i, '')) : '—'}</div>
+      <div style="display: flex; font-size: 24px; font-weight: 600; color: ${COLORS.textMain}; line-height: 1.45; letter-spacing: -0.5px;">${say ? escapeHtml(`"${say}"`) : '—'}</div>
     </div>
   </div>`;
 }
@@ -120,45 +96,23 @@ function createSectionHeader(title: string): string {
 }
 
 /**
- * Format all lines in a section (Pairing Visual + Say)
+ * Format all beats in a section (VISUAL + SAY already paired by the parser)
  */
-function formatSection(lines: string[]): string {
-  const paired: { visual: string | null, say: string | null }[] = [];
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const isVisual = line.includes('🎬') || line.toLowerCase().startsWith('visual:');
-    const isSay = line.includes('💬') || line.toLowerCase().startsWith('say:');
-    
-    if (isVisual) {
-      // Look ahead for a matching SAY
-      const nextLine = lines[i + 1];
-      if (nextLine && (nextLine.includes('💬') || nextLine.toLowerCase().startsWith('say:'))) {
-        paired.push({ visual: line, say: nextLine });
-        i++; // skip next
-      } else {
-        paired.push({ visual: line, say: null });
-      }
-    } else if (isSay) {
-      paired.push({ visual: null, say: line });
-    } else {
-      paired.push({ visual: line, say: null });
-    }
-  }
-  
-  return paired.map((pair, idx) => formatLine(pair.visual, pair.say, idx === paired.length - 1)).join('\n');
+function formatSection(section: ScriptSection | undefined): string {
+  const beats = section?.beats || [];
+  return beats.map((beat, idx) => formatLine(beat, idx === beats.length - 1)).join('\n');
 }
 
 export async function generateScriptImage(scriptText: string): Promise<string> {
   const startTime = Date.now();
   try {
     // Parse script sections
-    const sections = parseScript(scriptText);
+    const script = parseScript(scriptText);
     
     // Build HTML for each section
-    const hookHtml = formatSection(sections.hook);
-    const bodyHtml = formatSection(sections.body);
-    const ctaHtml = formatSection(sections.cta);
+    const hookHtml = formatSection(getSection(script, 'hook'));
+    const bodyHtml = formatSection(getSection(script, 'body'));
+    const ctaHtml = formatSection(getSection(script, 'cta'));
 
     const template = html(`
       <div style="display: flex; flex-direction: column; width: 1080px; padding: 64px; font-family: 'Poppins'; background: linear-gradient(180deg, ${COLORS.bgGradientStart} 0%, ${COLORS.bgGradientEnd} 100%); color: ${COLORS.textMain};">
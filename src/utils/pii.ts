@@ -0,0 +1,288 @@
+/**
+ * PII - Export-time anonymization for dataset rows
+ *
+ * Every dataset export (api/dataset.ts, any format) passes its rows through
+ * createExportScrubber():
+ * - subscriber IDs    → salted SHA-256 pseudonym. The salt (PII_HASH_SALT)
+ *                       rotates every PII_SALT_ROTATION_DAYS, so IDs link
+ *                       rows within one rotation period but not across them
+ * - request hashes    → dropped: an unsalted hash of the subscriber ID plus
+ *                       fields that are in the row, so it would undo the pseudonym
+ * - free text        → emails, phone numbers and @handles redacted in every
+ *                       input/output text field: ideas, transcripts, scene
+ *                       descriptions, visual cues, generated scripts and their
+ *                       sections/lines (COPY-mode scripts are the transcript),
+ *                       candidates, failed attempts, feedback text, user edits
+ * - near-duplicates   → same reel + near-identical idea dropped (first kept)
+ *
+ * Stored documents are never modified - only the exported copy.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import { logger } from './logger';
+import { detectPlatform, extractVideoId, normalizeReelUrl } from './platforms';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Fields shared by DatasetEntry and DatasetEntryV2 that can carry PII */
+type SectionTexts = { hook?: string; body?: string; cta?: string };
+type SectionFeedback = Record<string, { regenerationReason?: string } | undefined>;
+
+export interface ScrubbableRow {
+  user?: { subscriberId?: string };
+  input: {
+    requestHash?: string;
+    videoUrl?: string;
+    userIdea?: string;
+    transcript?: string;
+    sceneDescriptions?: string[];
+    visualCues?: string[];
+  };
+  output?: {
+    generatedScript?: string;
+    scriptSections?: SectionTexts;
+    visualDirections?: string[];
+    dialogueLines?: string[];
+  };
+  alternatives?: { candidateScripts?: string[] };
+  failures?: { failedAttempts?: Array<{ script?: string; errorMessage?: string; rawOutput?: string }> };
+  feedback?: { feedbackText?: string; sectionFeedback?: SectionFeedback };
+  edits?: { userEditedScript?: string };
+}
+
+export interface ExportScrubberOptions {
+  /** Drop near-duplicate rows (default true) */
+  dedupe?: boolean;
+  /** Pseudonym salt period (default: now) */
+  now?: Date;
+}
+
+export interface ExportScrubber {
+  /** Anonymized copy of a plain (.lean()) row, or null when it duplicates an earlier one */
+  scrub<T extends ScrubbableRow>(row: T): T | null;
+  readonly duplicatesDropped: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REDACTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+// Digit runs with separators; the replacer keeps anything under 8 digits (timings, years, prices)
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{6,}\d/g;
+const HANDLE_PATTERN = /(^|[^\w@])@[A-Za-z0-9._]{2,30}/g;
+
+const MIN_PHONE_DIGITS = 8;
+
+/**
+ * Replace emails, phone numbers and @handles with placeholders.
+ * Emails go first so their "@domain" is not taken for a handle.
+ */
+export function redactPII(text: string): string {
+  if (!text) return text;
+
+  return text
+    .replace(EMAIL_PATTERN, '[EMAIL]')
+    .replace(PHONE_PATTERN, match =>
+      match.replace(/\D/g, '').length >= MIN_PHONE_DIGITS ? '[PHONE]' : match
+    )
+    .replace(HANDLE_PATTERN, (_match, prefix: string) => `${prefix}[HANDLE]`);
+}
+
+const redactText = (text?: string) => text && redactPII(text);
+const redactList = (texts?: string[]) => texts && texts.map(redactPII);
+
+function redactSections<T extends SectionTexts | undefined>(sections: T): T {
+  if (!sections) return sections;
+  return {
+    ...sections,
+    hook: redactText(sections.hook),
+    body: redactText(sections.body),
+    cta: redactText(sections.cta),
+  };
+}
+
+function redactSectionFeedback<T extends SectionFeedback | undefined>(sectionFeedback: T): T {
+  if (!sectionFeedback) return sectionFeedback;
+  return Object.fromEntries(Object.entries(sectionFeedback).map(([section, feedback]) => [
+    section,
+    feedback && { ...feedback, regenerationReason: redactText(feedback.regenerationReason) },
+  ])) as T;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PSEUDONYMS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Without a configured secret, hashes must not be reproducible (ManyChat IDs are
+// numeric and easy to enumerate), so fall back to a per-process random salt
+let fallbackSalt: string | null = null;
+
+function getSecret(): string {
+  if (config.PII_HASH_SALT) return config.PII_HASH_SALT;
+
+  if (!fallbackSalt) {
+    fallbackSalt = crypto.randomBytes(32).toString('hex');
+    logger.warn('⚠️ PII_HASH_SALT not set - subscriber pseudonyms will not match across restarts');
+  }
+  return fallbackSalt;
+}
+
+/**
+ * Salt for the rotation period containing `now`
+ */
+export function getRotatingSalt(now: Date = new Date()): string {
+  const days = config.PII_SALT_ROTATION_DAYS;
+  const period = days > 0 ? Math.floor(now.getTime() / (days * 24 * 60 * 60 * 1000)) : 0;
+  return `${getSecret()}:${period}`;
+}
+
+export function hashSubscriberId(subscriberId: string, salt: string = getRotatingSalt()): string {
+  const digest = crypto.createHash('sha256').update(`${salt}:${subscriberId}`).digest('hex');
+  return `sub_${digest.slice(0, 16)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEDUPLICATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Token-set similarity at or above which two ideas for the same reel count as one */
+const NEAR_DUPLICATE_SIMILARITY = 0.85;
+
+function ideaTokens(idea: string): Set<string> {
+  return new Set(
+    idea
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Jaccard similarity of two ideas' word sets (1 = same words)
+ */
+export function ideaSimilarity(a: string, b: string): number {
+  const tokensA = ideaTokens(a);
+  const tokensB = ideaTokens(b);
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Same reel regardless of URL form (www / m. hosts, share params)
+ */
+function reelKey(videoUrl: string): string {
+  const videoId = extractVideoId(videoUrl);
+  return videoId ? `${detectPlatform(videoUrl)}:${videoId}` : normalizeReelUrl(videoUrl);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT PIPELINE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Scrubber for one export run. Rows must be fed in export order; the first
+ * of a group of near-duplicates is kept.
+ */
+export function createExportScrubber(options: ExportScrubberOptions = {}): ExportScrubber {
+  const dedupe = options.dedupe ?? true;
+  const salt = getRotatingSalt(options.now);
+  const ideasByReel = new Map<string, string[]>();
+  let duplicatesDropped = 0;
+
+  function isDuplicate(row: ScrubbableRow): boolean {
+    const { videoUrl, userIdea = '' } = row.input;
+    if (!videoUrl) return false;
+
+    const key = reelKey(videoUrl);
+    const seen = ideasByReel.get(key) || [];
+    if (seen.some(idea => ideaSimilarity(idea, userIdea) >= NEAR_DUPLICATE_SIMILARITY)) {
+      return true;
+    }
+
+    seen.push(userIdea);
+    ideasByReel.set(key, seen);
+    return false;
+  }
+
+  return {
+    scrub<T extends ScrubbableRow>(row: T): T | null {
+      if (dedupe && isDuplicate(row)) {
+        duplicatesDropped++;
+        return null;
+      }
+
+      return {
+        ...row,
+        ...(row.user ? {
+          user: {
+            ...row.user,
+            subscriberId: row.user.subscriberId && hashSubscriberId(row.user.subscriberId, salt),
+          },
+        } : {}),
+        input: {
+          ...row.input,
+          requestHash: undefined,
+          userIdea: redactText(row.input.userIdea),
+          transcript: redactText(row.input.transcript),
+          sceneDescriptions: redactList(row.input.sceneDescriptions),
+          visualCues: redactList(row.input.visualCues),
+        },
+        ...(row.output ? {
+          output: {
+            ...row.output,
+            generatedScript: redactText(row.output.generatedScript),
+            scriptSections: redactSections(row.output.scriptSections),
+            visualDirections: redactList(row.output.visualDirections),
+            dialogueLines: redactList(row.output.dialogueLines),
+          },
+        } : {}),
+        ...(row.alternatives ? {
+          alternatives: { ...row.alternatives, candidateScripts: redactList(row.alternatives.candidateScripts) },
+        } : {}),
+        ...(row.failures?.failedAttempts ? {
+          failures: {
+            ...row.failures,
+            failedAttempts: row.failures.failedAttempts.map(attempt => ({
+              ...attempt,
+              script: redactText(attempt.script),
+              errorMessage: redactText(attempt.errorMessage),
+              rawOutput: redactText(attempt.rawOutput),
+            })),
+          },
+        } : {}),
+        ...(row.feedback ? {
+          feedback: {
+            ...row.feedback,
+            feedbackText: redactText(row.feedback.feedbackText),
+            sectionFeedback: redactSectionFeedback(row.feedback.sectionFeedback),
+          },
+        } : {}),
+        ...(row.edits ? {
+          edits: { ...row.edits, userEditedScript: redactText(row.edits.userEditedScript) },
+        } : {}),
+      };
+    },
+
+    get duplicatesDropped() {
+      return duplicatesDropped;
+    },
+  };
+}
+
+export default {
+  redactPII,
+  hashSubscriberId,
+  getRotatingSalt,
+  ideaSimilarity,
+  createExportScrubber,
+};
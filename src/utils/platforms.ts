@@ -0,0 +1,272 @@
+/**
+ * Platform Adapters - Per-platform short-video URL handling
+ *
+ * Every place that accepts, normalizes, hashes or downloads a reel URL goes
+ * through this registry instead of hard-coding Instagram rules.
+ *
+ * Supported:
+ * - Instagram Reels    instagram.com/reel/<id>
+ * - TikTok             tiktok.com/@user/video/<id>, vm.tiktok.com/<code>
+ * - YouTube Shorts     youtube.com/shorts/<id>
+ *
+ * Adding a platform = adding one adapter to PLATFORM_ADAPTERS.
+ *
+ * Directly uploaded videos are not a platform: they travel through the
+ * pipeline as `upload://<sha256>` pseudo-URLs (see VideoSource).
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type Platform = 'instagram' | 'tiktok' | 'youtube';
+
+/** Where a video came from: a platform link or a direct upload */
+export type VideoSource = Platform | 'upload';
+
+export interface PlatformAdapter {
+  platform: Platform;
+
+  /** Human-readable name for user-facing messages */
+  displayName: string;
+
+  /** Exact hostnames accepted (SECURITY: no suffix matching - evil.com/instagram.com fails) */
+  hosts: string[];
+
+  /** Finds a URL of this platform inside free text (DMs) */
+  textPattern: RegExp;
+
+  /** True if the (already host-checked) URL points to a single short video */
+  isVideoUrl(url: URL): boolean;
+
+  /** Canonical form used for caching/hashing */
+  normalize(url: URL): string;
+
+  /** Platform video ID (or share code for short links) */
+  extractId(url: URL): string | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function trimTrailingSlash(pathname: string): string {
+  return pathname.length > 1 && pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ADAPTERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const instagramAdapter: PlatformAdapter = {
+  platform: 'instagram',
+  displayName: 'Instagram Reel',
+  hosts: ['www.instagram.com', 'instagram.com'],
+  textPattern: /https?:\/\/(www\.)?instagram\.com\/(reel|reels)\/[\w-]+/i,
+
+  isVideoUrl(url) {
+    return /^\/(reel|reels)\/[\w-]+/.test(url.pathname);
+  },
+
+  // Keeps the host as sent so existing ReelDNA hashes stay valid
+  normalize(url) {
+    const normalized = new URL(url.toString());
+    normalized.search = '';
+    normalized.pathname = trimTrailingSlash(normalized.pathname).replace('/reels/', '/reel/');
+    return normalized.toString();
+  },
+
+  extractId(url) {
+    const match = url.pathname.match(/\/reels?\/([A-Za-z0-9_-]+)/);
+    return match ? match[1] : null;
+  },
+};
+
+const tiktokAdapter: PlatformAdapter = {
+  platform: 'tiktok',
+  displayName: 'TikTok',
+  hosts: ['www.tiktok.com', 'tiktok.com', 'm.tiktok.com', 'vm.tiktok.com', 'vt.tiktok.com'],
+  textPattern: /https?:\/\/(?:(?:www|m)\.)?tiktok\.com\/(?:@[\w.-]+\/video\/\d+|t\/[\w-]+)|https?:\/\/v[mt]\.tiktok\.com\/[\w-]+/i,
+
+  isVideoUrl(url) {
+    if (url.hostname.startsWith('vm.') || url.hostname.startsWith('vt.')) {
+      return /^\/[\w-]+\/?$/.test(url.pathname);
+    }
+    return /^\/@[\w.-]+\/video\/\d+/.test(url.pathname) || /^\/t\/[\w-]+/.test(url.pathname);
+  },
+
+  normalize(url) {
+    const video = url.pathname.match(/^\/(@[\w.-]+)\/video\/(\d+)/);
+    if (video) {
+      return `https://www.tiktok.com/${video[1]}/video/${video[2]}`;
+    }
+    // Share links can't be resolved without a network call - keep them as-is, minus tracking
+    return `https://${url.hostname}${trimTrailingSlash(url.pathname)}`;
+  },
+
+  extractId(url) {
+    const video = url.pathname.match(/\/video\/(\d+)/);
+    if (video) return video[1];
+    const short = url.pathname.match(/^\/(?:t\/)?([\w-]+)/);
+    return short ? short[1] : null;
+  },
+};
+
+const youtubeAdapter: PlatformAdapter = {
+  platform: 'youtube',
+  displayName: 'YouTube Short',
+  hosts: ['www.youtube.com', 'youtube.com', 'm.youtube.com'],
+  textPattern: /https?:\/\/(?:(?:www|m)\.)?youtube\.com\/shorts\/[\w-]+/i,
+
+  isVideoUrl(url) {
+    return /^\/shorts\/[\w-]+/.test(url.pathname);
+  },
+
+  normalize(url) {
+    const id = this.extractId(url);
+    return id ? `https://www.youtube.com/shorts/${id}` : url.toString();
+  },
+
+  extractId(url) {
+    const match = url.pathname.match(/^\/shorts\/([\w-]+)/);
+    return match ? match[1] : null;
+  },
+};
+
+export const PLATFORM_ADAPTERS: PlatformAdapter[] = [instagramAdapter, tiktokAdapter, youtubeAdapter];
+
+/** All platform names (for schema enums) */
+export const PLATFORMS: Platform[] = PLATFORM_ADAPTERS.map(a => a.platform);
+
+/** All video sources (for schema enums on stored documents) */
+export const VIDEO_SOURCES: VideoSource[] = [...PLATFORMS, 'upload'];
+
+/** "Instagram Reel, TikTok or YouTube Short" - for messages */
+export const SUPPORTED_PLATFORMS_LABEL = PLATFORM_ADAPTERS
+  .map(a => a.displayName)
+  .join(', ')
+  .replace(/, ([^,]*)$/, ' or $1');
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UPLOADS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const UPLOAD_URL_PREFIX = 'upload://';
+
+/**
+ * Pseudo-URL for an uploaded video, keyed by its content hash
+ */
+export function buildUploadUrl(contentHash: string): string {
+  return `${UPLOAD_URL_PREFIX}${contentHash}`;
+}
+
+export function isUploadUrl(url: string): boolean {
+  return url.startsWith(UPLOAD_URL_PREFIX);
+}
+
+/**
+ * Content hash of an upload pseudo-URL (null for anything else)
+ */
+export function getUploadHash(url: string): string | null {
+  if (!isUploadUrl(url)) return null;
+  const hash = url.slice(UPLOAD_URL_PREFIX.length);
+  return /^[a-f0-9]{64}$/.test(hash) ? hash : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOOKUP
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url.trim());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Adapter whose host list contains the URL's hostname
+ */
+export function getPlatformAdapter(url: string): PlatformAdapter | null {
+  const parsed = parseUrl(url);
+  if (!parsed) return null;
+  const hostname = parsed.hostname.toLowerCase();
+  return PLATFORM_ADAPTERS.find(a => a.hosts.includes(hostname)) || null;
+}
+
+/**
+ * Platform of a URL, or null for unsupported hosts
+ */
+export function detectPlatform(url: string): Platform | null {
+  return getPlatformAdapter(url)?.platform || null;
+}
+
+/**
+ * Source of a video URL: 'upload' for upload pseudo-URLs, else its platform
+ */
+export function detectVideoSource(url: string): VideoSource | null {
+  return isUploadUrl(url) ? 'upload' : detectPlatform(url);
+}
+
+/**
+ * True if the URL is a single short video on a supported platform
+ */
+export function isSupportedVideoUrl(url: string): boolean {
+  const adapter = getPlatformAdapter(url);
+  const parsed = parseUrl(url);
+  return Boolean(adapter && parsed && adapter.isVideoUrl(parsed));
+}
+
+/**
+ * Canonical URL for caching. Unknown hosts get query/trailing slash stripped.
+ */
+export function normalizeReelUrl(url: string): string {
+  if (isUploadUrl(url)) return url;
+
+  const parsed = parseUrl(url);
+  if (!parsed) return url;
+
+  const adapter = PLATFORM_ADAPTERS.find(a => a.hosts.includes(parsed.hostname.toLowerCase()));
+  if (adapter) return adapter.normalize(parsed);
+
+  parsed.search = '';
+  parsed.pathname = trimTrailingSlash(parsed.pathname);
+  return parsed.toString();
+}
+
+/**
+ * Platform video ID (null if unsupported)
+ */
+export function extractVideoId(url: string): string | null {
+  const adapter = getPlatformAdapter(url);
+  const parsed = parseUrl(url);
+  return adapter && parsed ? adapter.extractId(parsed) : null;
+}
+
+/**
+ * First supported video URL inside free text
+ */
+export function findVideoUrl(message: string): string | null {
+  for (const adapter of PLATFORM_ADAPTERS) {
+    const match = message.match(adapter.textPattern);
+    if (match) return match[0];
+  }
+  return null;
+}
+
+export default {
+  PLATFORM_ADAPTERS,
+  PLATFORMS,
+  VIDEO_SOURCES,
+  getPlatformAdapter,
+  detectPlatform,
+  detectVideoSource,
+  isSupportedVideoUrl,
+  normalizeReelUrl,
+  extractVideoId,
+  findVideoUrl,
+  buildUploadUrl,
+  isUploadUrl,
+  getUploadHash,
+};
@@ -0,0 +1,260 @@
+/**
+ * Script Parser - Canonical structured form of a generated script
+ *
+ * Every consumer (dataset, carousel, image renderer, copy page, worker)
+ * reads scripts through this module instead of splitting text itself.
+ *
+ * Text format (produced by the master prompt):
+ *
+ *   [HOOK] (0-3s)              ← timing is optional
+ *   🎬 VISUAL: Close-up face shot
+ *   💬 SAY: "Stop scrolling."
+ *
+ *   [BODY]
+ *   🎬 VISUAL (3-8s): Jump cut  ← per-beat timing is optional
+ *   💬 SAY: "..."
+ *
+ * Structure: sections → beats → VISUAL/SAY pair (+ optional timing).
+ * Lines that are neither VISUAL nor SAY are kept as `note` beats.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type SectionKind = 'hook' | 'body' | 'cta';
+
+export interface ScriptTiming {
+  startSec: number;
+  endSec: number;
+}
+
+export interface ScriptBeat {
+  /** Camera/shot direction (without the "🎬 VISUAL:" label) */
+  visual: string | null;
+
+  /** Spoken line (without the "💬 SAY:" label or surrounding quotes) */
+  say: string | null;
+
+  /** Free text that is neither VISUAL nor SAY */
+  note?: string;
+
+  timing?: ScriptTiming;
+}
+
+export interface ScriptSection {
+  kind: SectionKind;
+  beats: ScriptBeat[];
+  timing?: ScriptTiming;
+}
+
+export interface StructuredScript {
+  sections: ScriptSection[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const SECTION_ORDER: SectionKind[] = ['hook', 'body', 'cta'];
+
+const SECTION_HEADER = /\[(HOOK|BODY|CTA)\]/i;
+
+/** "(0-3s)", "(3 - 15 sec)", "0-3s" */
+const TIMING_PATTERN = /\(?\s*(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)\s*s(?:ec(?:onds?)?)?\s*\)?/i;
+
+/** Timing directly after a section header */
+const HEADER_TIMING = new RegExp(`^\\s*${TIMING_PATTERN.source}`, 'i');
+
+/** Label with optional inline timing: "🎬 VISUAL (0-3s):" */
+const VISUAL_LABEL = /^(?:🎬\s*)?VISUAL\s*(\([^)]*\))?\s*:\s*/i;
+const SAY_LABEL = /^(?:💬\s*)?SAY\s*(\([^)]*\))?\s*:\s*/i;
+
+/** Spoken words per minute used for duration estimates */
+const WORDS_PER_MINUTE = 150;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseTiming(text: string | undefined, pattern: RegExp = TIMING_PATTERN): ScriptTiming | undefined {
+  if (!text) return undefined;
+  const match = text.match(pattern);
+  if (!match) return undefined;
+  return { startSec: parseFloat(match[1]), endSec: parseFloat(match[2]) };
+}
+
+function formatSeconds(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function formatTiming(timing: ScriptTiming): string {
+  return `(${formatSeconds(timing.startSec)}-${formatSeconds(timing.endSec)}s)`;
+}
+
+/** Strip markdown bullets/emphasis the model sometimes wraps lines in */
+function stripMarkdown(line: string): string {
+  return line.replace(/^\s*(?:[-*•>]\s+)?/, '').replace(/\*\*/g, '').trim();
+}
+
+/** Remove one pair of surrounding straight or curly quotes */
+function stripQuotes(text: string): string {
+  return text.replace(/^["“”']\s*/, '').replace(/\s*["“”']$/, '').trim();
+}
+
+function isVisualLine(line: string): boolean {
+  return line.includes('🎬') || /^visual\b[^:]*:/i.test(line);
+}
+
+function isSayLine(line: string): boolean {
+  return line.includes('💬') || /^say\b[^:]*:/i.test(line);
+}
+
+/**
+ * Add a content line to a section, pairing SAY with the preceding VISUAL
+ */
+function appendLine(section: ScriptSection, rawLine: string): void {
+  const line = stripMarkdown(rawLine);
+  if (!line) return;
+
+  const current = section.beats[section.beats.length - 1];
+
+  if (isVisualLine(line)) {
+    const label = line.replace(/^.*?🎬\s*/, '').match(VISUAL_LABEL);
+    const text = line.replace(/^.*?🎬\s*/, '').replace(VISUAL_LABEL, '').trim();
+    section.beats.push({ visual: text, say: null, timing: parseTiming(label?.[1]) });
+    return;
+  }
+
+  if (isSayLine(line)) {
+    const label = line.replace(/^.*?💬\s*/, '').match(SAY_LABEL);
+    const text = stripQuotes(line.replace(/^.*?💬\s*/, '').replace(SAY_LABEL, ''));
+    const timing = parseTiming(label?.[1]);
+
+    if (current && current.visual !== null && current.say === null && current.note === undefined) {
+      current.say = text;
+      if (!current.timing && timing) current.timing = timing;
+    } else {
+      section.beats.push({ visual: null, say: text, timing });
+    }
+    return;
+  }
+
+  section.beats.push({ visual: null, say: null, note: line });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSER / SERIALIZER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse script text into the structured form.
+ * Text before the first section header is ignored; a repeated header
+ * replaces the earlier section of the same kind.
+ */
+export function parseScript(scriptText: string): StructuredScript {
+  const sections = new Map<SectionKind, ScriptSection>();
+  let current: ScriptSection | null = null;
+
+  for (const rawLine of (scriptText || '').split('\n')) {
+    const header = rawLine.match(SECTION_HEADER);
+
+    if (header) {
+      const kind = header[1].toLowerCase() as SectionKind;
+      const afterHeader = rawLine.slice((header.index || 0) + header[0].length).replace(/^[\s*#:]+/, '');
+      const timing = parseTiming(afterHeader, HEADER_TIMING);
+
+      current = { kind, beats: [], ...(timing ? { timing } : {}) };
+      sections.set(kind, current);
+
+      // Content on the same line as the header ("[HOOK] 🎬 VISUAL: ...")
+      const remainder = afterHeader.replace(HEADER_TIMING, '').replace(/^[\s:*#-]+/, '');
+      if (remainder.trim()) appendLine(current, remainder);
+      continue;
+    }
+
+    if (current) appendLine(current, rawLine);
+  }
+
+  return {
+    sections: SECTION_ORDER.filter(kind => sections.has(kind)).map(kind => sections.get(kind)!),
+  };
+}
+
+/**
+ * Serialize the lines of one section (without its header)
+ */
+export function serializeSectionBody(section: ScriptSection): string {
+  const lines: string[] = [];
+
+  for (const beat of section.beats) {
+    const timing = beat.timing ? ` ${formatTiming(beat.timing)}` : '';
+    if (beat.note !== undefined) {
+      lines.push(beat.note);
+      continue;
+    }
+    if (beat.visual !== null) lines.push(`🎬 VISUAL${timing}: ${beat.visual}`);
+    if (beat.say !== null) lines.push(`💬 SAY${beat.visual === null ? timing : ''}: "${beat.say}"`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialize the structured form back to canonical script text
+ */
+export function serializeScript(script: StructuredScript): string {
+  return script.sections
+    .map(section => {
+      const header = `[${section.kind.toUpperCase()}]${section.timing ? ` ${formatTiming(section.timing)}` : ''}`;
+      const body = serializeSectionBody(section);
+      return body ? `${header}\n${body}` : header;
+    })
+    .join('\n\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCESSORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getSection(script: StructuredScript, kind: SectionKind): ScriptSection | undefined {
+  return script.sections.find(section => section.kind === kind);
+}
+
+/**
+ * Section bodies as text, keyed by kind (missing sections omitted)
+ */
+export function getSectionTexts(script: StructuredScript): Partial<Record<SectionKind, string>> {
+  const texts: Partial<Record<SectionKind, string>> = {};
+  for (const section of script.sections) {
+    texts[section.kind] = serializeSectionBody(section);
+  }
+  return texts;
+}
+
+export function getVisualLines(script: StructuredScript): string[] {
+  return script.sections.flatMap(s => s.beats).filter(b => b.visual !== null).map(b => b.visual as string);
+}
+
+export function getDialogueLines(script: StructuredScript): string[] {
+  return script.sections.flatMap(s => s.beats).filter(b => b.say !== null).map(b => b.say as string);
+}
+
+/**
+ * Estimated spoken duration in seconds (dialogue words at 150 WPM)
+ */
+export function estimateDurationSeconds(script: StructuredScript): number {
+  const words = getDialogueLines(script).join(' ').split(/\s+/).filter(Boolean).length;
+  return Math.round((words / WORDS_PER_MINUTE) * 60);
+}
+
+export default {
+  parseScript,
+  serializeScript,
+  serializeSectionBody,
+  getSection,
+  getSectionTexts,
+  getVisualLines,
+  getDialogueLines,
+  estimateDurationSeconds,
+};
@@ -6,12 +6,14 @@
  */
 
 import { logger } from './logger';
+import { SectionKind } from './scriptParser';
+import { findVideoUrl } from './platforms';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-export type TriggerType = 'generate' | 'copy' | 'redo' | 'positive_feedback' | 'negative_feedback' | 'idea' | 'unknown';
+export type TriggerType = 'cancel' | 'generate' | 'copy' | 'redo' | 'section_regen' | 'refine' | 'positive_feedback' | 'negative_feedback' | 'idea' | 'unknown';
 export type ToneHint = 'professional' | 'funny' | 'provocative' | 'educational' | 'casual';
 export type IntensityLevel = 'lite' | 'medium' | 'deep';
 
@@ -28,6 +30,15 @@ export interface TriggerResult {
   /** True if this is a redo/variation request */
   isRedo: boolean;
   
+  /** Section to regenerate if type is section_regen */
+  targetSection?: SectionKind;
+  
+  /** What the user wants changed in that section ("make it punchier") */
+  regenerationReason?: string;
+  
+  /** Edit instruction if type is refine ("make it 15 seconds") */
+  refineInstruction?: string;
+  
   /** Feedback polarity if type is feedback */
   feedbackPolarity?: 'positive' | 'negative';
   
@@ -80,6 +91,20 @@ const INSTANT_TRIGGERS: RegExp[] = [
   /^⚡$/,
 ];
 
+/**
+ * Cancel triggers - user wants to stop the generation in progress
+ * (e.g. they sent the wrong reel). Whole-message only, so "stop the scroll" stays an idea.
+ */
+const CANCEL_TRIGGERS: RegExp[] = [
+  /^stop(\s+(it|this|that))?$/i,
+  /^cancel(\s+(it|this|that))?$/i,
+  /^abort$/i,
+  /^never\s*mind$/i,
+  /^nvm$/i,
+  /^🛑$/,
+  /^⛔$/,
+];
+
 /**
  * Copy triggers - user wants to download/analyze video without generating script
  * This allows them to later generate multiple scripts from the same video
@@ -118,6 +143,49 @@ const REDO_TRIGGERS: RegExp[] = [
   /^♻️$/,
 ];
 
+/**
+ * Section regeneration triggers - user wants ONE section of the last script redone
+ * e.g. "redo the hook", "new cta", "rewrite just the body, shorter"
+ * Group 1 names the section (see SECTION_ALIASES); text after the match is the reason
+ */
+const SECTION_REGEN_TRIGGERS: RegExp[] = [
+  /^(?:redo|regenerate|rewrite|change|fix|improve|another|new|different|better)\s+(?:(?:just|only)\s+)?(?:the\s+|my\s+)?(hook|opening|intro|body|middle|cta|call\s*to\s*action|ending|outro)\b/i,
+  /^(?:(?:just|only)\s+)?(?:the\s+)?(hook|opening|intro|body|middle|cta|call\s*to\s*action|ending|outro)\s+(?:again|redo|needs\s+work|is\s+(?:weak|boring|bad|off))\b/i,
+  /^🎣\s*🔄$/,
+];
+
+/**
+ * Words users use for each section
+ */
+const SECTION_ALIASES: Record<string, SectionKind> = {
+  hook: 'hook',
+  opening: 'hook',
+  intro: 'hook',
+  '🎣': 'hook',
+  body: 'body',
+  middle: 'body',
+  cta: 'cta',
+  calltoaction: 'cta',
+  ending: 'cta',
+  outro: 'cta',
+};
+
+/**
+ * Refinement triggers - short edit instructions for the last script
+ * e.g. "shorter", "make it 15 seconds", "more provocative", "in Hindi", "swap the CTA to follow"
+ * The whole message is the instruction. Only applied when a script was just delivered.
+ */
+const REFINE_TRIGGERS: RegExp[] = [
+  /^make\s+(?:it|this)\s+\S/i,
+  /^(?:shorter|longer|funnier|punchier|simpler|snappier|tighter|faster|slower|clearer|bolder|spicier|calmer)\b/i,
+  /^(?:more|less)\s+\S/i,
+  /^(?:in|into)\s+[a-z]+(?:\s+language)?$/i,
+  /^translate\s+(?:it\s+|this\s+)?(?:to|into)\s+[a-z]+$/i,
+  /^(?:swap|replace|add|remove|drop|cut|mention|end\s+with|start\s+with)\s+\S/i,
+  /^\d{1,3}\s*(?:s|secs?|seconds?)$/i,
+  /^(?:tone\s+it\s+down|spice\s+it\s+up)\b/i,
+];
+
 /**
  * Positive feedback - user likes the result
  * Log for ML training, no regeneration needed
@@ -301,12 +369,35 @@ function isHookOnlyRequest(message: string): boolean {
   return matchesAny(message, HOOK_ONLY_PATTERNS).matches;
 }
 
+/**
+ * Detect a section regeneration request and the user's reason (if any)
+ */
+function detectSectionRegen(message: string): { section: SectionKind; reason?: string; pattern: string } | null {
+  for (const pattern of SECTION_REGEN_TRIGGERS) {
+    const match = message.match(pattern);
+    if (!match) continue;
+    
+    const alias = (match[1] || '🎣').toLowerCase().replace(/\s+/g, '');
+    const section = SECTION_ALIASES[alias];
+    if (!section) continue;
+    
+    const reason = message.slice(match[0].length).replace(/^[\s,.:;!-]+/, '').trim();
+    return { section, reason: reason || undefined, pattern: pattern.toString() };
+  }
+  return null;
+}
+
 /**
  * Clean trigger words from message to extract the actual idea
  */
 function cleanMessage(message: string): string {
   let cleaned = message;
   
+  // Remove cancel triggers
+  CANCEL_TRIGGERS.forEach(pattern => {
+    cleaned = cleaned.replace(pattern, '');
+  });
+  
   // Remove instant triggers
   INSTANT_TRIGGERS.forEach(pattern => {
     cleaned = cleaned.replace(pattern, '');
@@ -347,20 +438,17 @@ function cleanMessage(message: string): string {
 }
 
 /**
- * Check if message contains Instagram reel URL
+ * Check if message contains a supported reel URL (Instagram, TikTok, YouTube Shorts)
  */
 export function containsReelUrl(message: string): boolean {
-  const reelUrlPattern = /https?:\/\/(www\.)?instagram\.com\/(reel|reels)\/[\w-]+/i;
-  return reelUrlPattern.test(message);
+  return findVideoUrl(message) !== null;
 }
 
 /**
- * Extract Instagram reel URL from message
+ * Extract the first supported reel URL from message
  */
 export function extractReelUrl(message: string): string | null {
-  const reelUrlPattern = /https?:\/\/(www\.)?instagram\.com\/(reel|reels)\/[\w-]+/i;
-  const match = message.match(reelUrlPattern);
-  return match ? match[0] : null;
+  return findVideoUrl(message);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -382,6 +470,18 @@ export function extractReelUrl(message: string): string | null {
  * // → { type: 'redo', isRedo: true, ... }
  * 
  * @example
+ * detectTrigger("redo the hook, more provocative")
+ * // → { type: 'section_regen', targetSection: 'hook', regenerationReason: 'more provocative', ... }
+ * 
+ * @example
+ * detectTrigger("make it 15 seconds")
+ * // → { type: 'refine', refineInstruction: 'make it 15 seconds', ... }
+ * 
+ * @example
+ * detectTrigger("stop")
+ * // → { type: 'cancel', ... }
+ * 
+ * @example
  * detectTrigger("make a funny script about coffee")
  * // → { type: 'idea', detectedTone: 'funny', cleanedMessage: 'script about coffee', ... }
  */
@@ -417,6 +517,21 @@ export function detectTrigger(message: string): TriggerResult {
   // Clean the message
   result.cleanedMessage = cleanMessage(trimmedMessage);
   
+  // Priority 0: Check for cancel triggers (stop whatever is running)
+  const cancelMatch = matchesAny(trimmedMessage, CANCEL_TRIGGERS);
+  if (cancelMatch.matches) {
+    result.type = 'cancel';
+    result.confidence = 0.95;
+    result.matchedPattern = cancelMatch.pattern;
+    
+    logger.debug('Trigger detected: cancel', { 
+      message: trimmedMessage, 
+      pattern: cancelMatch.pattern 
+    });
+    
+    return result;
+  }
+  
   // Priority 1: Check for copy triggers (highest priority for download-only)
   const copyMatch = matchesAny(trimmedMessage, COPY_TRIGGERS);
   if (copyMatch.matches) {
@@ -449,7 +564,41 @@ export function detectTrigger(message: string): TriggerResult {
     return result;
   }
   
-  // Priority 3: Check for redo triggers
+  // Priority 3: Check for section regeneration ("redo the hook")
+  const sectionMatch = detectSectionRegen(trimmedMessage);
+  if (sectionMatch) {
+    result.type = 'section_regen';
+    result.targetSection = sectionMatch.section;
+    result.regenerationReason = sectionMatch.reason;
+    result.confidence = 0.9;
+    result.matchedPattern = sectionMatch.pattern;
+    
+    logger.debug('Trigger detected: section regen', { 
+      message: trimmedMessage, 
+      section: sectionMatch.section,
+      pattern: sectionMatch.pattern 
+    });
+    
+    return result;
+  }
+  
+  // Priority 4: Check for refinement instructions ("shorter", "in Hindi")
+  const refineMatch = matchesAny(trimmedMessage, REFINE_TRIGGERS);
+  if (refineMatch.matches) {
+    result.type = 'refine';
+    result.refineInstruction = trimmedMessage;
+    result.confidence = 0.85;
+    result.matchedPattern = refineMatch.pattern;
+    
+    logger.debug('Trigger detected: refine', { 
+      message: trimmedMessage, 
+      pattern: refineMatch.pattern 
+    });
+    
+    return result;
+  }
+  
+  // Priority 5: Check for redo triggers
   const redoMatch = matchesAny(trimmedMessage, REDO_TRIGGERS);
   if (redoMatch.matches) {
     result.type = 'redo';
@@ -465,7 +614,7 @@ export function detectTrigger(message: string): TriggerResult {
     return result;
   }
   
-  // Priority 4: Check for positive feedback
+  // Priority 6: Check for positive feedback
   const positiveMatch = matchesAny(trimmedMessage, POSITIVE_FEEDBACK);
   if (positiveMatch.matches) {
     result.type = 'positive_feedback';
@@ -481,7 +630,7 @@ export function detectTrigger(message: string): TriggerResult {
     return result;
   }
   
-  // Priority 5: Check for negative feedback
+  // Priority 7: Check for negative feedback
   const negativeMatch = matchesAny(trimmedMessage, NEGATIVE_FEEDBACK);
   if (negativeMatch.matches) {
     result.type = 'negative_feedback';
@@ -497,7 +646,7 @@ export function detectTrigger(message: string): TriggerResult {
     return result;
   }
   
-  // Priority 6: If message has substantial content after cleaning, it's an idea
+  // Priority 8: If message has substantial content after cleaning, it's an idea
   if (result.cleanedMessage.length > 3) {
     result.type = 'idea';
     result.confidence = 0.8;
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { getPlatformAdapter, isSupportedVideoUrl, SUPPORTED_PLATFORMS_LABEL } from '../utils/platforms';
+import { JOB_ERROR_TYPES } from '../queue/deadLetter';
 
 /**
  * Request Validation Schemas
@@ -23,24 +25,18 @@ const manyChatPreprocess = <T>(schema: z.ZodType<T>) =>
     return val;
   }, schema);
 
-// Helper to validate Instagram URL properly
-const instagramReelUrlSchema = z.string()
+// Reel URL: Instagram Reel, TikTok or YouTube Short (see utils/platforms)
+const reelUrlSchema = z.string()
   .url("Invalid URL format")
-  .refine((url) => {
-    try {
-      const parsed = new URL(url);
-      // SECURITY: Only allow actual Instagram domains (not evil.com/instagram.com)
-      const validHosts = ['www.instagram.com', 'instagram.com'];
-      return validHosts.includes(parsed.hostname);
-    } catch {
-      return false;
-    }
-  }, { message: "URL must be from instagram.com" })
+  .refine((url) => getPlatformAdapter(url) !== null, {
+    // SECURITY: Only exact platform hosts (not evil.com/instagram.com)
+    message: `URL must be an ${SUPPORTED_PLATFORMS_LABEL} link`
+  })
   .refine((url) => url.startsWith('https://'), {
     message: "URL must use HTTPS"
   })
-  .refine((url) => url.includes('/reel/') || url.includes('/reels/'), {
-    message: "URL must be an Instagram Reel URL"
+  .refine((url) => isSupportedVideoUrl(url), {
+    message: `URL must point to a single ${SUPPORTED_PLATFORMS_LABEL}`
   });
 
 // Subscriber ID validation (ManyChat IDs are numeric)
@@ -102,7 +98,7 @@ const modeSchema = manyChatPreprocess(
 
 export const scriptGenerationSchema = z.object({
   subscriber_id: subscriberIdSchema,
-  reel_url: instagramReelUrlSchema,
+  reel_url: reelUrlSchema,
   user_idea: userIdeaSchema,
   
   // Optional hints (preserve video originality)
@@ -154,3 +150,173 @@ export const feedbackSchema = z.object({
 
 export type FeedbackRequest = z.infer<typeof feedbackSchema>;
 
+
+// ============================================
+// Section regeneration schema
+// ============================================
+
+export const sectionRegenerationSchema = z.object({
+  subscriber_id: subscriberIdSchema,
+  
+  // publicId or _id of the script to revise (default: user's latest script)
+  script_id: manyChatPreprocess(
+    z.string()
+      .max(64)
+      .refine((val) => /^[A-Za-z0-9_-]+$/.test(val), {
+        message: "Invalid script ID"
+      })
+      .optional()
+  ),
+  
+  section: z.enum(['hook', 'body', 'cta']),
+  
+  // What should change ("make it punchier")
+  reason: manyChatPreprocess(
+    z.string()
+      .max(200, "Reason is too long (max 200 characters)")
+      .refine((val) => !/[<>{}\\]/.test(val), {
+        message: "Reason contains invalid characters"
+      })
+      .transform((val) => val.trim())
+      .optional()
+  )
+});
+
+export type SectionRegenerationRequest = z.infer<typeof sectionRegenerationSchema>;
+
+// ============================================
+// Refinement schema
+// ============================================
+
+export const refineSchema = z.object({
+  subscriber_id: subscriberIdSchema,
+  
+  // publicId or _id of the script to refine (default: user's latest script)
+  script_id: manyChatPreprocess(
+    z.string()
+      .max(64)
+      .refine((val) => /^[A-Za-z0-9_-]+$/.test(val), {
+        message: "Invalid script ID"
+      })
+      .optional()
+  ),
+  
+  // Edit instruction ("make it 15 seconds", "swap the CTA to follow")
+  instruction: z.string()
+    .min(2, "Instruction is required")
+    .max(300, "Instruction is too long (max 300 characters)")
+    .refine((val) => !/[<>{}\\]/.test(val), {
+      message: "Instruction contains invalid characters"
+    })
+    .transform((val) => val.trim())
+});
+
+export type RefineRequest = z.infer<typeof refineSchema>;
+
+// ============================================
+// Video upload schema (multipart text fields)
+// ============================================
+
+export const videoUploadSchema = z.object({
+  subscriber_id: subscriberIdSchema,
+  
+  // Optional: a default idea is used when missing
+  user_idea: manyChatPreprocess(userIdeaSchema.optional()),
+  
+  tone_hint: toneHintSchema,
+  language_hint: languageHintSchema,
+  mode: modeSchema
+});
+
+export type VideoUploadRequest = z.infer<typeof videoUploadSchema>;
+
+// ============================================
+// Job cancellation schema (body or query)
+// ============================================
+
+export const jobCancelSchema = z.object({
+  // Must own the job
+  subscriber_id: subscriberIdSchema
+});
+
+export type JobCancelRequest = z.infer<typeof jobCancelSchema>;
+
+// ============================================
+// Prompt bandit admin schemas
+// ============================================
+
+const experimentIdSchema = z.string()
+  .max(64)
+  .regex(/^[A-Za-z0-9._-]+$/, "Invalid experiment ID");
+
+export const banditFreezeSchema = z.object({
+  // Default: the active experiment (PROMPT_EXPERIMENT)
+  experiment_id: experimentIdSchema.optional(),
+  variant_id: z.string()
+    .max(64)
+    .regex(/^[A-Za-z0-9._-]+$/, "Invalid variant ID")
+});
+
+export const banditUnfreezeSchema = z.object({
+  experiment_id: experimentIdSchema.optional()
+});
+
+export type BanditFreezeRequest = z.infer<typeof banditFreezeSchema>;
+
+// ============================================
+// Dataset export query schema
+// ============================================
+
+export const datasetExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'jsonl']).default('json'),
+  // JSONL only: fine-tuning file layout
+  target: z.enum(['vertex', 'openai']).default('vertex'),
+  validated: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(0).optional(),
+  skip: z.coerce.number().int().min(0).optional(),
+  // Drop near-duplicate rows (same reel + near-identical idea)
+  dedupe: z.enum(['true', 'false']).default('true'),
+
+  // JSONL filters
+  min_quality: z.coerce.number().min(0).max(100).optional(),
+  min_rating: z.coerce.number().min(1).max(5).optional(),
+  // Only rows scored by the judge rubric
+  judged: z.enum(['true', 'false']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  prompt_version: z.string().max(64).optional(),
+  batch: z.string()
+    .max(64)
+    .regex(/^[A-Za-z0-9._-]+$/, "Invalid batch ID")
+    .optional()
+});
+
+export type DatasetExportQuery = z.infer<typeof datasetExportQuerySchema>;
+
+// ============================================
+// Dead-letter queue admin schemas
+// ============================================
+
+const deadLetterFilterFields = {
+  error_type: z.enum(JOB_ERROR_TYPES).optional(),
+  job_name: z.enum(['generate', 'copy', 'regenerate_section', 'refine', 'score']).optional(),
+  // Circuit breaker service (circuit_open errors), e.g. gemini
+  service: z.string().max(32).optional(),
+  since: z.coerce.date().optional()
+};
+
+export const deadLetterListQuerySchema = z.object({
+  ...deadLetterFilterFields,
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export const deadLetterReplaySchema = z.object({
+  ...deadLetterFilterFields,
+  // Explicit job IDs; when set, the filters are ignored
+  ids: z.array(z.string().min(1).max(128)).min(1).max(500).optional(),
+  limit: z.number().int().min(1).max(500).default(100)
+});
+
+export type DeadLetterListQuery = z.infer<typeof deadLetterListQuerySchema>;
+export type DeadLetterReplayRequest = z.infer<typeof deadLetterReplaySchema>;